@@ -14,6 +14,8 @@ function getAdminServices() {
 }
 
 const DEFAULT_DAILY_LIMIT = 30;
+
+// The quota day is the server's (UTC): anything the client sends could be changed to open a fresh quota
 const today = () => new Date().toISOString().slice(0, 10);
 
 let cachedLimit: { value: number; fetchedAt: number } | null = null;
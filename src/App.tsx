@@ -8,18 +8,42 @@ import { MealInput } from './pages/MealInput';
 import { History } from './pages/History';
 import { SettingsPage } from './pages/Settings';
 import { Profile } from './pages/Profile';
+import { Trash } from './pages/Trash';
+import { Weight } from './pages/Weight';
 import { BottomNav } from './components/BottomNav';
 import { BadgeBar } from './components/BadgeBar';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { useAuth } from './contexts/AuthContext';
 import { useSettings } from './hooks/useSettings';
+import { useSyncStatus } from './hooks/useSyncStatus';
+import { isDemoMode } from './lib/db';
+import { purgeExpiredTrash } from './lib/trash';
+import { migrateWaterMeals } from './lib/water';
+import { todayKey } from './lib/days';
 
 function Layout() {
     const location = useLocation();
     const navigate = useNavigate();
-    const isSettings = location.pathname === '/settings';
-    const { loading } = useAuth();
+    const isSettings = location.pathname.startsWith('/settings');
+    const { loading, user } = useAuth();
     const { settings } = useSettings();
+    const sync = useSyncStatus();
+    // Amber dot on the settings button when something needs the user's attention
+    const syncAttention = !!user && (sync.conflicts.length > 0 || sync.state === 'error' || (sync.state === 'offline' && sync.pending > 0));
+
+    // Once storage is ready (and again when the account changes), clear out old trash
+    useEffect(() => {
+        if (loading) return;
+        purgeExpiredTrash().catch(err => console.error('Trash purge failed:', err));
+    }, [loading, user?.uid]);
+
+    // Move water logged as meals by older versions into the water log — when
+    // signed in, only once a sync has pulled the account's meals into the mirror
+    const storageComplete = !loading && (!user || isDemoMode() || sync.lastPulledAt !== null);
+    useEffect(() => {
+        if (!storageComplete) return;
+        migrateWaterMeals().catch(err => console.error('Moving water meals failed:', err));
+    }, [storageComplete, user?.uid]);
 
     useEffect(() => {
         const theme = settings?.theme ?? 'dark';
@@ -42,13 +66,21 @@ function Layout() {
             {/* Top Bar */}
             <div className="flex items-center justify-between px-4 pt-4 pb-1 shrink-0">
                 <span className="text-sm font-medium text-th-secondary">
-                    {format(new Date(), 'EEE, MMM d')}
+                    {format(new Date(`${todayKey({ dayStartHour: settings?.dayStartHour })}T00:00:00`), 'EEE, MMM d')}
+                    {isDemoMode() && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded-md bg-amber-500/15 text-amber-400 text-[10px] font-semibold uppercase tracking-wider">
+                            Demo
+                        </span>
+                    )}
                 </span>
                 <button
                     onClick={() => navigate('/settings')}
-                    className="w-9 h-9 rounded-xl bg-surface border border-th-border flex items-center justify-center active:scale-95 transition-transform"
+                    className="relative w-9 h-9 rounded-xl bg-surface border border-th-border flex items-center justify-center active:scale-95 transition-transform"
                 >
                     <Settings className="w-4 h-4 text-th-secondary" />
+                    {syncAttention && (
+                        <span className="absolute -top-0.5 -right-0.5 w-2.5 h-2.5 rounded-full bg-amber-400 border-2 border-background" />
+                    )}
                 </button>
             </div>
 
@@ -62,8 +94,10 @@ function Layout() {
                         <Route path="/" element={<MealInput />} />
                         <Route path="/today" element={<Home />} />
                         <Route path="/history" element={<History />} />
+                        <Route path="/history/weight" element={<Weight />} />
                         <Route path="/profile" element={<Profile />} />
                         <Route path="/settings" element={<SettingsPage />} />
+                        <Route path="/settings/trash" element={<Trash />} />
                     </Routes>
                 </AnimatePresence>
             </div>
@@ -1,18 +1,20 @@
 import { useEffect, useState } from 'react';
-import { getAllMeals, getSettings } from '../lib/db';
-import { evaluateBadges, type Badge } from '../lib/badges';
+import { subscribeActivitiesInRange, subscribeDailySummaries, subscribeSettings, type Activity, type DailySummary, type UserSettings } from '../lib/db';
+import { evaluateBadges, lookbackRange, BADGE_WINDOW_DAYS } from '../lib/badges';
+import { burnedByDay } from '../lib/activity';
 
 export const BadgeBar = () => {
-    const [earnedBadges, setEarnedBadges] = useState<Badge[]>([]);
+    const [summaries, setSummaries] = useState<DailySummary[]>([]);
+    const [activities, setActivities] = useState<Activity[]>([]);
+    const [settings, setSettings] = useState<UserSettings | null>(null);
 
-    useEffect(() => {
-        const load = async () => {
-            const [meals, settings] = await Promise.all([getAllMeals(), getSettings()]);
-            const badges = evaluateBadges(meals, settings);
-            setEarnedBadges(badges.filter(b => b.earned));
-        };
-        load();
-    }, []);
+    const dayStartHour = settings?.dayStartHour;
+
+    useEffect(() => subscribeSettings(setSettings), []);
+    useEffect(() => subscribeDailySummaries(...lookbackRange(BADGE_WINDOW_DAYS, dayStartHour), setSummaries), [dayStartHour]);
+    useEffect(() => subscribeActivitiesInRange(...lookbackRange(BADGE_WINDOW_DAYS, dayStartHour), setActivities), [dayStartHour]);
+
+    const earnedBadges = settings ? evaluateBadges(summaries, settings, burnedByDay(activities)).filter(b => b.earned) : [];
 
     if (earnedBadges.length === 0) return null;
 
@@ -16,7 +16,7 @@ export const BottomNav = () => {
     return (
         <nav className="fixed bottom-0 left-0 right-0 bg-background border-t border-th-border flex justify-around items-center h-16 px-4 z-50">
             {tabs.map(({ path, icon: Icon, label }) => {
-                const active = pathname === path;
+                const active = pathname === path || (path !== '/' && pathname.startsWith(`${path}/`));
                 return (
                     <button
                         key={path}
@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { FileSpreadsheet, AlertTriangle, Check } from 'lucide-react';
+import {
+    parseCsv, guessMapping, guessDateFormat, mapRows, importMeals,
+    MEAL_FIELDS, DATE_FORMATS,
+    type ColumnMapping, type DateFormat, type MealField, type CsvImportResult,
+} from '../lib/csv';
+import { NUTRIENTS } from '../lib/nutrients';
+import type { NutrientKey } from '../lib/db';
+
+interface Props {
+    file: File;
+    onClose: () => void;
+    onImported: () => void;
+}
+
+const FIELD_LABELS: Record<MealField, string> = {
+    date: 'Date',
+    time: 'Time',
+    meal: 'Meal',
+    entry: 'Entry',
+    food: 'Food',
+    calories: 'Calories',
+    protein: 'Protein (g)',
+    fat: 'Fat (g)',
+    carbs: 'Carbs (g)',
+    fiber: 'Fiber (g)',
+    ...Object.fromEntries(NUTRIENTS.map(n => [n.key, `${n.label} (${n.unit})`])) as Record<NutrientKey, string>,
+};
+
+const PREVIEW_ROWS = 3;
+
+type Stage =
+    | { kind: 'loading' }
+    | { kind: 'invalid'; message: string }
+    | { kind: 'ready' }
+    | { kind: 'importing'; done: number; total: number }
+    | { kind: 'done'; result: CsvImportResult }
+    | { kind: 'failed'; message: string };
+
+/** Reads a CSV export from another tracker, lets the user confirm which column is which, then imports its rows as meals. */
+export const CsvImportModal = ({ file, onClose, onImported }: Props) => {
+    const [stage, setStage] = useState<Stage>({ kind: 'loading' });
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [rows, setRows] = useState<string[][]>([]);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [dateFormat, setDateFormat] = useState<DateFormat>('yyyy-MM-dd');
+
+    useEffect(() => {
+        const load = async () => {
+            const [head, ...body] = parseCsv(await file.text());
+            if (!head || body.length === 0) {
+                setStage({ kind: 'invalid', message: 'This file has no rows to import.' });
+                return;
+            }
+            const guessed = guessMapping(head);
+            setHeaders(head);
+            setRows(body);
+            setMapping(guessed);
+            if (guessed.date >= 0) setDateFormat(guessDateFormat(body.map(r => r[guessed.date] ?? '')));
+            setStage({ kind: 'ready' });
+        };
+        load().catch(() => setStage({ kind: 'invalid', message: 'Could not read this file.' }));
+    }, [file]);
+
+    const mapped = useMemo(
+        () => mapping && mapping.date >= 0 && mapping.calories >= 0 ? mapRows(rows, mapping, dateFormat) : [],
+        [rows, mapping, dateFormat],
+    );
+    const invalid = mapped.filter(r => !r.meal).length;
+
+    const handleImport = async () => {
+        setStage({ kind: 'importing', done: 0, total: 0 });
+        try {
+            const result = await importMeals(mapped, (done, total) => setStage({ kind: 'importing', done, total }));
+            setStage({ kind: 'done', result });
+        } catch (err) {
+            console.error('CSV import failed:', err);
+            setStage({ kind: 'failed', message: 'Import stopped partway. Rows already imported have been kept — importing the file again skips them.' });
+        }
+    };
+
+    const busy = stage.kind === 'loading' || stage.kind === 'importing';
+    const canImport = stage.kind === 'ready' && mapped.length > invalid;
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-[80] flex items-end justify-center bg-black/50 backdrop-blur-sm px-4 pb-8"
+                onClick={busy ? undefined : onClose}
+            >
+                <motion.div
+                    initial={{ y: 40, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    exit={{ y: 40, opacity: 0 }}
+                    transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                    className="w-full max-w-sm max-h-[85vh] overflow-y-auto bg-surface border border-th-border-strong rounded-2xl p-5 flex flex-col gap-4"
+                    onClick={e => e.stopPropagation()}
+                >
+                    <h3 className="text-sm font-semibold text-th-primary flex items-center gap-2">
+                        <FileSpreadsheet className="w-4 h-4 text-emerald-400" /> Import CSV
+                    </h3>
+
+                    {stage.kind === 'loading' && <p className="text-sm text-th-muted">Reading {file.name}…</p>}
+
+                    {(stage.kind === 'invalid' || stage.kind === 'failed') && (
+                        <p className="text-sm text-red-400 flex gap-2">
+                            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {stage.message}
+                        </p>
+                    )}
+
+                    {stage.kind === 'ready' && mapping && (
+                        <>
+                            <p className="text-xs text-th-muted">
+                                {rows.length} rows. Check which column holds each value — Date and Calories are required.
+                            </p>
+                            <div className="bg-surface2 rounded-xl border border-th-border divide-y divide-th-border">
+                                {MEAL_FIELDS.map(field => (
+                                    <div key={field} className="flex items-center justify-between gap-3 px-3 py-1.5 text-sm">
+                                        <span className="text-th-secondary">{FIELD_LABELS[field]}</span>
+                                        <select
+                                            value={mapping[field]}
+                                            onChange={e => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                                            className="bg-surface border border-th-border rounded-lg px-2 py-1 text-xs text-th-primary max-w-[60%] truncate"
+                                        >
+                                            <option value={-1}>—</option>
+                                            {headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                                        </select>
+                                    </div>
+                                ))}
+                                {mapping.date >= 0 && (
+                                    <div className="flex items-center justify-between gap-3 px-3 py-1.5 text-sm">
+                                        <span className="text-th-secondary">Date format</span>
+                                        <select
+                                            value={dateFormat}
+                                            onChange={e => setDateFormat(e.target.value as DateFormat)}
+                                            className="bg-surface border border-th-border rounded-lg px-2 py-1 text-xs text-th-primary"
+                                        >
+                                            {DATE_FORMATS.map(f => <option key={f} value={f}>{f.toUpperCase()}</option>)}
+                                        </select>
+                                    </div>
+                                )}
+                            </div>
+
+                            {mapped.length > 0 && (
+                                <div className="space-y-1.5">
+                                    <p className="text-xs text-th-muted">Preview</p>
+                                    {mapped.slice(0, PREVIEW_ROWS).map((r, i) => r.meal ? (
+                                        <div key={i} className="flex justify-between gap-3 text-xs bg-surface2 rounded-lg px-3 py-2">
+                                            <span className="text-th-primary truncate">
+                                                <span className="text-th-muted">{r.meal.date}</span> {r.meal.content}
+                                            </span>
+                                            <span className="text-th-secondary shrink-0">{Math.round(r.meal.totalCalories)} kcal</span>
+                                        </div>
+                                    ) : (
+                                        <p key={i} className="text-xs text-red-400 px-3">{r.error}</p>
+                                    ))}
+                                    {invalid > 0 && (
+                                        <p className="text-xs text-amber-400">{invalid} rows can't be read and will be skipped.</p>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    {stage.kind === 'importing' && (
+                        <div className="space-y-2">
+                            <p className="text-sm text-th-muted">
+                                Importing… {stage.total > 0 && `${stage.done} / ${stage.total}`}
+                            </p>
+                            <div className="h-1.5 bg-surface2 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-emerald-500 transition-all"
+                                    style={{ width: `${stage.total ? (stage.done / stage.total) * 100 : 0}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {stage.kind === 'done' && (
+                        <div className="text-sm text-th-primary space-y-1">
+                            <p className="flex items-center gap-2 text-emerald-400"><Check className="w-4 h-4" /> Import complete</p>
+                            <p className="text-xs text-th-muted">Meals added: {stage.result.imported}</p>
+                            {stage.result.duplicates > 0 && (
+                                <p className="text-xs text-th-muted">Already logged: {stage.result.duplicates}</p>
+                            )}
+                            {stage.result.invalid > 0 && (
+                                <p className="text-xs text-th-muted">Skipped (unreadable): {stage.result.invalid}</p>
+                            )}
+                            {stage.result.failed > 0 && (
+                                <p className="text-xs text-amber-400">
+                                    Couldn't save: {stage.result.failed}. Check your connection and import the file again — meals already added are skipped.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3">
+                        {stage.kind === 'done' ? (
+                            <button
+                                onClick={onImported}
+                                className="flex-1 py-2.5 rounded-xl text-sm font-semibold bg-emerald-500/20 border border-emerald-500/40 text-emerald-400 active:scale-95 transition-transform"
+                            >
+                                Done
+                            </button>
+                        ) : (
+                            <>
+                                <button
+                                    onClick={onClose}
+                                    disabled={busy}
+                                    className="flex-1 py-2.5 rounded-xl bg-surface2 border border-th-border text-sm font-medium text-th-secondary active:scale-95 transition-transform disabled:opacity-40"
+                                >
+                                    {stage.kind === 'ready' ? 'Cancel' : 'Close'}
+                                </button>
+                                {stage.kind === 'ready' && (
+                                    <button
+                                        onClick={handleImport}
+                                        disabled={!canImport}
+                                        className="flex-1 py-2.5 rounded-xl text-sm font-semibold bg-emerald-500/20 border border-emerald-500/40 text-emerald-400 active:scale-95 transition-transform disabled:opacity-40"
+                                    >
+                                        Import {mapped.length - invalid || ''}
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+};
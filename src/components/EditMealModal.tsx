@@ -1,44 +1,111 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, RefreshCw, Plus } from 'lucide-react';
-import { updateMeal, type Meal } from '../lib/db';
-import { processInput } from '../lib/ai-parser';
+import { X, RefreshCw, Plus, Save, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import clsx from 'clsx';
+import { updateMeal, DEFAULT_SETTINGS, type Meal, type MealItem, type MealSlot, type UserSettings } from '../lib/db';
+import { mealItems, processInput } from '../lib/ai-parser';
+import { withItems } from '../lib/items';
+import { dayKey, zoneAt } from '../lib/days';
+import { withRevision } from '../lib/revisions';
+import { MEAL_SLOTS, SLOT_LABELS, inferSlot } from '../lib/slots';
+import { useSettings } from '../hooks/useSettings';
+
+// Value format of <input type="datetime-local">
+const DATETIME_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+// A slot that matches the meal's time follows it when the time is edited; one picked by hand stays
+const chosenSlot = (meal: Meal | null, starts: UserSettings['slotStarts']): MealSlot | null =>
+    meal?.slot && meal.slot !== inferSlot(meal.timestamp, starts) ? meal.slot : null;
+
+const MACRO_FIELDS = [
+    { key: 'protein', label: 'P' },
+    { key: 'fat',     label: 'F' },
+    { key: 'carbs',   label: 'C' },
+    { key: 'fiber',   label: 'Fb' },
+] as const;
 
 interface Props {
     meal: Meal | null;
     onClose: () => void;
-    onSaved: () => void;
 }
 
-export const EditMealModal = ({ meal, onClose, onSaved }: Props) => {
+export const EditMealModal = ({ meal, onClose }: Props) => {
+    const { settings } = useSettings();
+    const starts = settings?.slotStarts ?? DEFAULT_SETTINGS.slotStarts;
     const [description, setDescription] = useState(meal?.content || '');
     const [extra, setExtra] = useState('');
+    const [items, setItems] = useState<MealItem[]>(meal?.parsed ?? []);
+    const [eatenAt, setEatenAt] = useState(meal ? format(meal.timestamp, DATETIME_FORMAT) : '');
+    const [slot, setSlot] = useState(() => chosenSlot(meal, starts));
     const [isProcessing, setIsProcessing] = useState(false);
     const [error, setError] = useState('');
 
+    // Stays mounted between meals, so the fields are reset whenever another one is opened
+    const [shownMeal, setShownMeal] = useState(meal);
+    if (meal !== shownMeal) {
+        setShownMeal(meal);
+        if (meal) {
+            setDescription(meal.content);
+            setExtra('');
+            setItems(meal.parsed ?? []);
+            setEatenAt(format(meal.timestamp, DATETIME_FORMAT));
+            setSlot(chosenSlot(meal, starts));
+            setError('');
+        }
+    }
+
+    const fullText = extra.trim()
+        ? `${description.trim()}, ${extra.trim()}`
+        : description.trim();
+    const textChanged = !!meal && fullText !== meal.content.trim();
+    const descriptionChanged = !!meal && description.trim() !== meal.content.trim();
+    const itemsChanged = !!meal && JSON.stringify(items) !== JSON.stringify(meal.parsed ?? []);
+
+    const updateItem = (index: number, patch: Partial<MealItem>) =>
+        setItems(prev => prev.map((item, i) => i === index ? { ...item, ...patch } : item));
+    const removeItem = (index: number) =>
+        setItems(prev => prev.filter((_, i) => i !== index));
+
+    // The picker only shows minutes, so an untouched value keeps the exact timestamp
+    const timeChanged = !!meal && !!eatenAt && eatenAt !== format(meal.timestamp, DATETIME_FORMAT);
+    const timestamp = meal && !timeChanged ? meal.timestamp : new Date(eatenAt).getTime();
+    const shownSlot = slot ?? inferSlot(timestamp, starts);
+
     const handleSave = async () => {
-        if (!meal || !meal.id) return;
+        if (!meal || !meal.id || !fullText) return;
 
-        const fullText = extra.trim()
-            ? `${description.trim()}, ${extra.trim()}`
-            : description.trim();
+        // Moving the meal to another day or time keeps its date in step; the picked time is in this device's zone
+        const moved = {
+            date: timeChanged ? dayKey(timestamp, { dayStartHour: settings?.dayStartHour }) : meal.date,
+            timestamp,
+            slot: shownSlot,
+            ...(timeChanged && zoneAt(timestamp)),
+        };
 
-        if (!fullText) return;
+        if (!textChanged) {
+            if (itemsChanged) {
+                const updated = withRevision(meal, { content: meal.content, ...withItems(items) }, 'manual-edit');
+                await updateMeal({ ...updated, ...moved });
+            } else if (timeChanged || shownSlot !== meal.slot) {
+                await updateMeal({ ...meal, ...moved });
+            }
+            onClose();
+            return;
+        }
 
         setIsProcessing(true);
         setError('');
 
-        const result = await processInput(fullText);
+        // A changed description reparses the whole meal; otherwise only what was added is parsed
+        const parsed = mealItems(await processInput(descriptionChanged ? fullText : extra.trim()));
 
-        if (result.type === 'meal') {
-            const updated: Meal = {
-                ...meal,
+        if (parsed) {
+            const updated = withRevision(meal, {
                 content: fullText,
-                totalCalories: result.data.calories,
-                parsed: [result.data],
-            };
-            await updateMeal(updated);
-            onSaved();
+                ...withItems(descriptionChanged ? parsed : [...items, ...parsed]),
+            }, 'ai-reparse');
+            await updateMeal({ ...updated, ...moved });
             onClose();
         } else {
             setError('Could not recalculate. Try rephrasing.');
@@ -73,6 +140,82 @@ export const EditMealModal = ({ meal, onClose, onSaved }: Props) => {
                         </div>
 
                         <div className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+                            {/* When it was eaten */}
+                            <div className="flex flex-col gap-1.5">
+                                <label className="text-xs text-th-secondary">When</label>
+                                <input
+                                    type="datetime-local"
+                                    value={eatenAt}
+                                    max={format(new Date(), DATETIME_FORMAT)}
+                                    onChange={e => setEatenAt(e.target.value)}
+                                    disabled={isProcessing}
+                                    className="bg-surface2 rounded-xl border border-th-border-strong px-3 py-2 text-th-primary focus:outline-none focus:ring-2 focus:ring-emerald-500/50 text-sm disabled:opacity-50"
+                                />
+                                <div className="grid grid-cols-4 gap-1.5">
+                                    {MEAL_SLOTS.map(s => (
+                                        <button
+                                            key={s}
+                                            onClick={() => setSlot(s)}
+                                            disabled={isProcessing}
+                                            className={clsx(
+                                                'py-1.5 rounded-lg border text-xs font-medium transition-colors disabled:opacity-50',
+                                                s === shownSlot
+                                                    ? 'bg-emerald-500/15 border-emerald-500/50 text-emerald-400'
+                                                    : 'bg-surface2 border-th-border text-th-secondary'
+                                            )}
+                                        >
+                                            {SLOT_LABELS[s]}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* Items, each editable on its own */}
+                            {items.length > 0 && !descriptionChanged && (
+                                <div className="flex flex-col gap-1.5">
+                                    <label className="text-xs text-th-secondary">Items</label>
+                                    {items.map((item, i) => (
+                                        <div key={i} className="bg-surface2 rounded-xl border border-th-border p-2.5 space-y-2">
+                                            <div className="flex items-center gap-2">
+                                                <input
+                                                    value={item.food}
+                                                    onChange={e => updateItem(i, { food: e.target.value })}
+                                                    disabled={isProcessing}
+                                                    className="flex-1 min-w-0 bg-surface rounded-lg px-2 py-1 text-th-primary text-sm focus:outline-none focus:ring-1 focus:ring-emerald-500/50 disabled:opacity-50"
+                                                />
+                                                <input
+                                                    type="number"
+                                                    value={item.calories}
+                                                    onChange={e => updateItem(i, { calories: parseInt(e.target.value) || 0 })}
+                                                    disabled={isProcessing}
+                                                    className="w-16 bg-surface rounded-lg px-2 py-1 text-emerald-400 text-sm text-right focus:outline-none focus:ring-1 focus:ring-emerald-500/50 disabled:opacity-50"
+                                                />
+                                                <span className="text-xs text-th-faint">kcal</span>
+                                                {items.length > 1 && (
+                                                    <button onClick={() => removeItem(i)} disabled={isProcessing} className="p-1 text-th-faint active:text-red-400 disabled:opacity-50">
+                                                        <Trash2 className="w-3.5 h-3.5" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                            <div className="grid grid-cols-4 gap-1.5">
+                                                {MACRO_FIELDS.map(({ key, label }) => (
+                                                    <label key={key} className="flex items-center gap-1 text-xs text-th-muted">
+                                                        {label}
+                                                        <input
+                                                            type="number"
+                                                            value={item[key]}
+                                                            onChange={e => updateItem(i, { [key]: parseInt(e.target.value) || 0 })}
+                                                            disabled={isProcessing}
+                                                            className="w-full min-w-0 bg-surface rounded-lg px-1.5 py-0.5 text-th-primary text-xs focus:outline-none focus:ring-1 focus:ring-emerald-500/50 disabled:opacity-50"
+                                                        />
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
                             {/* Current meal description */}
                             <div className="flex flex-col gap-1.5">
                                 <label className="text-xs text-th-secondary">What you had (edit to change)</label>
@@ -116,11 +259,16 @@ export const EditMealModal = ({ meal, onClose, onSaved }: Props) => {
                                         <RefreshCw className="w-4 h-4 animate-spin" />
                                         Recalculating...
                                     </>
-                                ) : (
+                                ) : textChanged ? (
                                     <>
                                         <RefreshCw className="w-4 h-4" />
                                         Recalculate & Save
                                     </>
+                                ) : (
+                                    <>
+                                        <Save className="w-4 h-4" />
+                                        Save
+                                    </>
                                 )}
                             </button>
                         </div>
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { Lock, Copy } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useEncryption } from '../hooks/useEncryption';
+import { createEncryption, unlockEncryption, changePassphrase, recoverEncryption, beginDisableEncryption } from '../lib/e2e';
+import { syncNow } from '../lib/sync';
+import { ConfirmModal } from './ConfirmModal';
+
+type Form = 'enable' | 'change' | 'recover' | null;
+
+const inputCls = "bg-surface2 rounded-xl border border-th-border-strong p-3 text-th-primary focus:outline-none focus:ring-2 focus:ring-emerald-500/50 text-sm w-full";
+const primaryBtn = "w-full py-2.5 rounded-xl bg-emerald-500/20 border border-emerald-500/40 text-sm font-semibold text-emerald-400 active:scale-95 transition-transform disabled:opacity-40";
+const linkBtn = "text-xs text-th-faint underline";
+
+/** End-to-end encryption of synced data: turn on/off, unlock this device, change passphrase, recover. */
+export const EncryptionSettings = () => {
+    const { user } = useAuth();
+    const uid = user?.uid ?? null;
+    const status = useEncryption(uid);
+    const [form, setForm] = useState<Form>(null);
+    const [passphrase, setPassphrase] = useState('');
+    const [next, setNext] = useState('');
+    const [confirm, setConfirm] = useState('');
+    const [recoveryCode, setRecoveryCode] = useState<string | null>(null);
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [confirmDisable, setConfirmDisable] = useState(false);
+
+    if (!uid || !status) return null;
+
+    const run = async (action: () => Promise<string | void>) => {
+        setError('');
+        setBusy(true);
+        try {
+            const code = await action();
+            if (code) setRecoveryCode(code);
+            setForm(null);
+            setPassphrase('');
+            setNext('');
+            setConfirm('');
+            syncNow(uid);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    // Both new-passphrase fields must agree before anything is sent
+    const withConfirmed = (passphraseToSet: string, action: () => Promise<string | void>) => () =>
+        passphraseToSet !== confirm ? setError("Passphrases don't match.") : run(action);
+
+    const newPassphraseFields = (value: string, onChange: (v: string) => void) => (
+        <>
+            <input type="password" value={value} onChange={e => onChange(e.target.value)} placeholder="New passphrase (8+ characters)" className={inputCls} />
+            <input type="password" value={confirm} onChange={e => setConfirm(e.target.value)} placeholder="Repeat new passphrase" className={inputCls} />
+        </>
+    );
+
+    const openForm = (f: Form) => {
+        setForm(f);
+        setError('');
+    };
+
+    return (
+        <div className="space-y-3 bg-surface2 rounded-xl border border-th-border-strong p-3">
+            <p className="text-sm text-th-primary flex items-center gap-2">
+                <Lock className="w-4 h-4 text-emerald-400 shrink-0" />
+                End-to-end encryption {status.enabled ? (status.rewritePending ? '· updating…' : '· on') : '· off'}
+            </p>
+            <p className="text-xs text-th-faint">
+                Encrypts meals, nutrients, favourites, recipes, weights, water, activities and profile details before they leave this device. Dates stay
+                readable so syncing works. Without your passphrase or recovery code the data can't be read, even by someone with access to the server.
+            </p>
+
+            {recoveryCode && (
+                <div className="rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 space-y-2">
+                    <p className="text-xs text-amber-400">
+                        Your recovery code. Write it down somewhere safe — it's the only way back in if you forget
+                        your passphrase, and it won't be shown again.
+                    </p>
+                    <p className="font-mono text-sm text-th-primary break-all select-all">{recoveryCode}</p>
+                    <div className="flex gap-4">
+                        <button onClick={() => navigator.clipboard?.writeText(recoveryCode)} className="text-xs text-emerald-400 underline flex items-center gap-1">
+                            <Copy className="w-3 h-3" /> Copy
+                        </button>
+                        <button onClick={() => setRecoveryCode(null)} className={linkBtn}>I've saved it</button>
+                    </div>
+                </div>
+            )}
+
+            {!status.enabled && (form === 'enable' ? (
+                <div className="space-y-2">
+                    {newPassphraseFields(passphrase, setPassphrase)}
+                    <button onClick={withConfirmed(passphrase, () => createEncryption(uid, passphrase))} disabled={busy || !passphrase} className={primaryBtn}>
+                        Turn on encryption
+                    </button>
+                </div>
+            ) : (
+                <button onClick={() => openForm('enable')} className={primaryBtn}>Set up encryption</button>
+            ))}
+
+            {status.enabled && !status.unlocked && form !== 'recover' && (
+                <div className="space-y-2">
+                    <p className="text-xs text-amber-400">This device can't read your synced data until you enter your passphrase.</p>
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={e => setPassphrase(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter' && passphrase) run(() => unlockEncryption(uid, passphrase)); }}
+                        placeholder="Passphrase"
+                        className={inputCls}
+                    />
+                    <button onClick={() => run(() => unlockEncryption(uid, passphrase))} disabled={busy || !passphrase} className={primaryBtn}>
+                        Unlock
+                    </button>
+                    <button onClick={() => openForm('recover')} className={linkBtn}>Forgot passphrase?</button>
+                </div>
+            )}
+
+            {status.enabled && form === 'recover' && (
+                <div className="space-y-2">
+                    <input value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Recovery code" className={`${inputCls} font-mono`} />
+                    {newPassphraseFields(next, setNext)}
+                    <button onClick={withConfirmed(next, () => recoverEncryption(uid, passphrase, next))} disabled={busy || !passphrase || !next} className={primaryBtn}>
+                        Recover and set passphrase
+                    </button>
+                    <button onClick={() => openForm(null)} className={linkBtn}>Cancel</button>
+                </div>
+            )}
+
+            {status.enabled && status.unlocked && form === 'change' && (
+                <div className="space-y-2">
+                    <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder="Current passphrase" className={inputCls} />
+                    {newPassphraseFields(next, setNext)}
+                    <button onClick={withConfirmed(next, () => changePassphrase(uid, passphrase, next))} disabled={busy || !passphrase || !next} className={primaryBtn}>
+                        Change passphrase
+                    </button>
+                    <button onClick={() => openForm(null)} className={linkBtn}>Cancel</button>
+                </div>
+            )}
+
+            {status.enabled && status.unlocked && form === null && (
+                <div className="flex gap-4">
+                    <button onClick={() => openForm('change')} className="text-xs text-emerald-400 underline">Change passphrase</button>
+                    <button onClick={() => openForm('recover')} className={linkBtn}>Use recovery code</button>
+                    <button onClick={() => setConfirmDisable(true)} disabled={busy} className={linkBtn}>Turn off</button>
+                </div>
+            )}
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            {confirmDisable && (
+                <ConfirmModal
+                    message="Turn off end-to-end encryption? Your synced data will be decrypted and stored readable on the server."
+                    confirmLabel="Turn off"
+                    onConfirm={() => { setConfirmDisable(false); run(() => beginDisableEncryption(uid)); }}
+                    onCancel={() => setConfirmDisable(false)}
+                />
+            )}
+        </div>
+    );
+};
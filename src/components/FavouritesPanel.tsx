@@ -1,8 +1,9 @@
 import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Trash2, Star, Edit2, Check } from 'lucide-react';
-import { getAllFavourites, deleteFavourite, updateFavourite, type Favourite } from '../lib/db';
-import { ConfirmModal } from './ConfirmModal';
+import { getAllFavourites, deleteFavourite, updateFavourite, restoreFromTrash, type Favourite, type RecordId } from '../lib/db';
+import { itemTotals, mealTitle } from '../lib/items';
+import { useUndo } from '../hooks/useUndo';
 
 interface Props {
     open: boolean;
@@ -12,9 +13,9 @@ interface Props {
 
 export const FavouritesPanel = ({ open, onClose, onLogFavourite }: Props) => {
     const [favourites, setFavourites] = useState<Favourite[]>([]);
-    const [editingId, setEditingId] = useState<number | null>(null);
+    const [editingId, setEditingId] = useState<RecordId | null>(null);
     const [editName, setEditName] = useState('');
-    const [deletingId, setDeletingId] = useState<number | null>(null);
+    const { showUndo } = useUndo();
 
     const load = async () => {
         const favs = await getAllFavourites();
@@ -23,11 +24,13 @@ export const FavouritesPanel = ({ open, onClose, onLogFavourite }: Props) => {
 
     useEffect(() => { if (open) load(); }, [open]);
 
-    const handleDelete = async () => {
-        if (deletingId == null) return;
-        await deleteFavourite(deletingId);
-        setDeletingId(null);
+    const handleDelete = async (id: RecordId) => {
+        await deleteFavourite(id);
         load();
+        showUndo('Favourite moved to Trash', async () => {
+            await restoreFromTrash('favourites', id);
+            load();
+        });
     };
 
     const handleLog = (fav: Favourite) => {
@@ -101,7 +104,7 @@ export const FavouritesPanel = ({ open, onClose, onLogFavourite }: Props) => {
                                                 <>
                                                     <p className="text-th-primary text-sm font-medium truncate">{fav.name}</p>
                                                     <p className="text-xs text-th-muted truncate">
-                                                        {fav.parsed[0]?.food} · {fav.totalCalories} kcal · {fav.parsed[0]?.protein}g P
+                                                        {mealTitle(fav)} · {fav.totalCalories} kcal · {itemTotals(fav.parsed).protein}g P
                                                     </p>
                                                 </>
                                             )}
@@ -116,7 +119,7 @@ export const FavouritesPanel = ({ open, onClose, onLogFavourite }: Props) => {
                                                     <Edit2 className="w-3.5 h-3.5" />
                                                 </button>
                                             )}
-                                            <button onClick={() => fav.id && setDeletingId(fav.id)} className="p-1.5 text-th-faint active:text-red-400">
+                                            <button onClick={() => fav.id && handleDelete(fav.id)} className="p-1.5 text-th-faint active:text-red-400">
                                                 <Trash2 className="w-3.5 h-3.5" />
                                             </button>
                                         </div>
@@ -125,14 +128,6 @@ export const FavouritesPanel = ({ open, onClose, onLogFavourite }: Props) => {
                             )}
                         </div>
                     </motion.div>
-
-                    {deletingId != null && (
-                        <ConfirmModal
-                            message="Delete this favourite?"
-                            onConfirm={handleDelete}
-                            onCancel={() => setDeletingId(null)}
-                        />
-                    )}
                 </>
             )}
         </AnimatePresence>
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { updateMeal, type Meal, type MealRevision } from '../lib/db';
+import { revertTo, CAUSE_LABELS } from '../lib/revisions';
+import { itemTotals, mealTitle } from '../lib/items';
+
+interface Props {
+    meal: Meal | null;
+    onClose: () => void;
+}
+
+const Macros = ({ version }: { version: Pick<Meal, 'content' | 'parsed' | 'totalCalories'> }) => {
+    const totals = itemTotals(version.parsed);
+    return (
+        <>
+            {version.parsed?.length > 1 && <p className="text-xs text-th-secondary">{mealTitle(version)}</p>}
+            <p className="text-xs text-th-muted">
+                <span className="text-emerald-400 font-semibold">{Math.round(version.totalCalories)} kcal</span>
+                {!!version.parsed?.length && <span className="ml-2 text-th-faint">{totals.protein}g P · {totals.fat}g F · {totals.carbs}g C · {totals.fiber}g Fb</span>}
+            </p>
+        </>
+    );
+};
+
+/** Earlier versions of a meal, with the change that replaced each one and a revert action. */
+export const MealHistoryModal = ({ meal, onClose }: Props) => {
+    const [reverting, setReverting] = useState(false);
+
+    const handleRevert = async (revision: MealRevision) => {
+        if (!meal) return;
+        setReverting(true);
+        try {
+            await updateMeal(revertTo(meal, revision));
+            onClose();
+        } finally {
+            setReverting(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {meal && (
+                <>
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="fixed inset-0 bg-black/50 z-[60]"
+                        onClick={onClose}
+                    />
+                    <motion.div
+                        initial={{ y: '100%' }}
+                        animate={{ y: 0 }}
+                        exit={{ y: '100%' }}
+                        transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                        className="fixed bottom-0 left-0 right-0 bg-surface border-t border-th-border-strong rounded-t-3xl z-[70] max-h-[80vh] flex flex-col"
+                    >
+                        <div className="flex items-center justify-between px-5 py-4 border-b border-th-border">
+                            <h2 className="text-lg font-semibold text-th-primary">Edit history</h2>
+                            <button onClick={onClose} className="p-1 text-th-muted active:text-th-primary">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto px-5 py-4 space-y-3 pb-8">
+                            <div className="bg-emerald-500/5 border border-emerald-500/20 rounded-xl px-4 py-3 space-y-1">
+                                <p className="text-[10px] font-bold text-emerald-400 uppercase tracking-widest">Current</p>
+                                <p className="text-sm text-th-primary">{meal.content}</p>
+                                <Macros version={meal} />
+                            </div>
+
+                            {(meal.revisions ?? []).map((revision, i) => (
+                                <div key={i} className="bg-surface2 border border-th-border rounded-xl px-4 py-3 flex items-start gap-3">
+                                    <div className="flex-1 min-w-0 space-y-1">
+                                        <p className="text-[10px] text-th-faint">
+                                            Replaced {format(revision.replacedAt, 'MMM d, h:mm a')} · {CAUSE_LABELS[revision.cause]}
+                                        </p>
+                                        <p className="text-sm text-th-primary">{revision.content}</p>
+                                        <Macros version={revision} />
+                                    </div>
+                                    <button
+                                        onClick={() => handleRevert(revision)}
+                                        disabled={reverting}
+                                        className="flex items-center gap-1 text-xs font-medium text-emerald-400 active:scale-95 transition-transform disabled:opacity-40 shrink-0"
+                                    >
+                                        <RotateCcw className="w-3.5 h-3.5" /> Revert
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+};
@@ -1,16 +1,19 @@
 import { useEffect, useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Trash2, ChefHat, ArrowLeft, Send, Edit2 } from 'lucide-react';
-import { ConfirmModal } from './ConfirmModal';
 import {
     getAllRecipes,
     addRecipe,
     updateRecipe,
     deleteRecipe,
+    restoreFromTrash,
     type Recipe,
     type RecipeIngredient,
+    type RecordId,
 } from '../lib/db';
 import { parseIngredients } from '../lib/ai-parser';
+import { sumNutrients } from '../lib/nutrients';
+import { useUndo } from '../hooks/useUndo';
 
 interface Props {
     open: boolean;
@@ -21,7 +24,7 @@ export const RecipesPanel = ({ open, onClose }: Props) => {
     const [mode, setMode] = useState<'list' | 'create'>('list');
     const [recipes, setRecipes] = useState<Recipe[]>([]);
     const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
-    const [deletingId, setDeletingId] = useState<number | null>(null);
+    const { showUndo } = useUndo();
 
     // Create/edit view state
     const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
@@ -31,7 +34,7 @@ export const RecipesPanel = ({ open, onClose }: Props) => {
     const [isSaving, setIsSaving] = useState(false);
 
     // List view: inline log state
-    const [loggingId, setLoggingId] = useState<number | null>(null);
+    const [loggingId, setLoggingId] = useState<RecordId | null>(null);
     const [logGrams, setLogGrams] = useState('');
 
     const inputRef = useRef<HTMLTextAreaElement>(null);
@@ -49,11 +52,13 @@ export const RecipesPanel = ({ open, onClose }: Props) => {
         }
     }, [open]);
 
-    const handleDelete = async () => {
-        if (deletingId == null) return;
-        await deleteRecipe(deletingId);
-        setDeletingId(null);
+    const handleDelete = async (id: RecordId) => {
+        await deleteRecipe(id);
         loadRecipes();
+        showUndo('Recipe moved to Trash', async () => {
+            await restoreFromTrash('recipes', id);
+            loadRecipes();
+        });
     };
 
     const handleParseIngredients = async () => {
@@ -84,14 +89,20 @@ export const RecipesPanel = ({ open, onClose }: Props) => {
         }),
         { weight: 0, calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0 }
     );
+    // Left off the recipe when no ingredient reports any (Firestore rejects undefined fields)
+    const totalNutrients = sumNutrients(ingredients.map(ing => ing.nutrients));
+    const nutrientTotals = Object.keys(totalNutrients).length > 0 ? { totalNutrients } : {};
 
     const handleSaveRecipe = async () => {
         if (!recipeName.trim() || ingredients.length === 0 || isSaving) return;
         setIsSaving(true);
         try {
             if (editingRecipe) {
+                // Totals are recomputed below; drop any left from the old ingredients
+                const recipe = { ...editingRecipe };
+                delete recipe.totalNutrients;
                 await updateRecipe({
-                    ...editingRecipe,
+                    ...recipe,
                     name: recipeName.trim(),
                     ingredients,
                     totalWeight: totals.weight,
@@ -100,6 +111,7 @@ export const RecipesPanel = ({ open, onClose }: Props) => {
                     totalFat: totals.fat,
                     totalCarbs: totals.carbs,
                     totalFiber: totals.fiber,
+                    ...nutrientTotals,
                 });
             } else {
                 await addRecipe({
@@ -111,6 +123,7 @@ export const RecipesPanel = ({ open, onClose }: Props) => {
                     totalFat: totals.fat,
                     totalCarbs: totals.carbs,
                     totalFiber: totals.fiber,
+                    ...nutrientTotals,
                     createdAt: Date.now(),
                 });
             }
@@ -224,7 +237,7 @@ export const RecipesPanel = ({ open, onClose }: Props) => {
                                                     <Edit2 className="w-3.5 h-3.5" />
                                                 </button>
                                                 <button
-                                                    onClick={() => recipe.id && setDeletingId(recipe.id)}
+                                                    onClick={() => recipe.id && handleDelete(recipe.id)}
                                                     className="p-1.5 text-th-faint active:text-red-400 shrink-0"
                                                 >
                                                     <Trash2 className="w-3.5 h-3.5" />
@@ -391,14 +404,6 @@ export const RecipesPanel = ({ open, onClose }: Props) => {
                             </div>
                         )}
                     </motion.div>
-
-                    {deletingId != null && (
-                        <ConfirmModal
-                            message="Delete this recipe?"
-                            onConfirm={handleDelete}
-                            onCancel={() => setDeletingId(null)}
-                        />
-                    )}
                 </>
             )}
         </AnimatePresence>
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Upload, AlertTriangle, Check } from 'lucide-react';
+import clsx from 'clsx';
+import { format } from 'date-fns';
+import {
+    parseBackup, previewRestore, restoreBackup,
+    type Backup, type RestoreMode, type RestorePreview, type StoreCounts,
+} from '../lib/backup';
+
+interface Props {
+    file: File;
+    onClose: () => void;
+    onRestored: () => void;
+}
+
+const LABELS: Record<keyof StoreCounts, string> = {
+    meals: 'Meals',
+    favourites: 'Favourites',
+    weights: 'Weight entries',
+    recipes: 'Recipes',
+    water: 'Water entries',
+    activities: 'Activities',
+};
+
+type Stage =
+    | { kind: 'loading' }
+    | { kind: 'invalid'; message: string }
+    | { kind: 'ready'; backup: Backup; preview: RestorePreview }
+    | { kind: 'restoring'; done: number; total: number }
+    | { kind: 'done'; added: StoreCounts }
+    | { kind: 'failed'; message: string };
+
+/** Validates a backup file, previews what it contains and restores it by merging or replacing. */
+export const RestoreModal = ({ file, onClose, onRestored }: Props) => {
+    const [stage, setStage] = useState<Stage>({ kind: 'loading' });
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [confirmReplace, setConfirmReplace] = useState(false);
+
+    useEffect(() => {
+        const load = async () => {
+            try {
+                const backup = parseBackup(await file.text());
+                setStage({ kind: 'ready', backup, preview: await previewRestore(backup) });
+            } catch (err) {
+                setStage({ kind: 'invalid', message: err instanceof Error ? err.message : 'Could not read this file.' });
+            }
+        };
+        load();
+    }, [file]);
+
+    const handleRestore = async () => {
+        if (stage.kind !== 'ready') return;
+        if (mode === 'replace' && !confirmReplace) {
+            setConfirmReplace(true);
+            return;
+        }
+        const { backup } = stage;
+        setStage({ kind: 'restoring', done: 0, total: 0 });
+        try {
+            const added = await restoreBackup(backup, mode, (done, total) => setStage({ kind: 'restoring', done, total }));
+            setStage({ kind: 'done', added });
+        } catch (err) {
+            console.error('Restore failed:', err);
+            setStage({ kind: 'failed', message: 'Restore stopped partway. Anything already restored has been kept — you can run the restore again with Merge.' });
+        }
+    };
+
+    const busy = stage.kind === 'loading' || stage.kind === 'restoring';
+
+    return (
+        <AnimatePresence>
+            <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="fixed inset-0 z-[80] flex items-end justify-center bg-black/50 backdrop-blur-sm px-4 pb-8"
+                onClick={busy ? undefined : onClose}
+            >
+                <motion.div
+                    initial={{ y: 40, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    exit={{ y: 40, opacity: 0 }}
+                    transition={{ type: 'spring', damping: 25, stiffness: 300 }}
+                    className="w-full max-w-sm bg-surface border border-th-border-strong rounded-2xl p-5 flex flex-col gap-4"
+                    onClick={e => e.stopPropagation()}
+                >
+                    <h3 className="text-sm font-semibold text-th-primary flex items-center gap-2">
+                        <Upload className="w-4 h-4 text-emerald-400" /> Restore backup
+                    </h3>
+
+                    {stage.kind === 'loading' && <p className="text-sm text-th-muted">Checking {file.name}…</p>}
+
+                    {(stage.kind === 'invalid' || stage.kind === 'failed') && (
+                        <p className="text-sm text-red-400 flex gap-2">
+                            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" /> {stage.message}
+                        </p>
+                    )}
+
+                    {stage.kind === 'ready' && (
+                        <>
+                            {stage.backup.exportedAt > 0 && (
+                                <p className="text-xs text-th-muted">
+                                    Backup from {format(stage.backup.exportedAt, 'MMM d, yyyy · h:mm a')}
+                                </p>
+                            )}
+                            <div className="bg-surface2 rounded-xl border border-th-border divide-y divide-th-border">
+                                {(Object.keys(LABELS) as (keyof StoreCounts)[]).map(store => (
+                                    <div key={store} className="flex items-center justify-between px-3 py-2 text-sm">
+                                        <span className="text-th-secondary">{LABELS[store]}</span>
+                                        <span className="text-th-primary">
+                                            {stage.preview.total[store]}
+                                            {mode === 'merge' && stage.preview.total[store] > 0 && (
+                                                <span className="text-xs text-th-muted"> · {stage.preview.new[store]} new</span>
+                                            )}
+                                        </span>
+                                    </div>
+                                ))}
+                                <div className="flex items-center justify-between px-3 py-2 text-sm">
+                                    <span className="text-th-secondary">Settings</span>
+                                    <span className="text-th-primary">{stage.preview.settings}</span>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-1 bg-surface2 rounded-xl border border-th-border-strong p-1">
+                                {(['merge', 'replace'] as const).map(m => (
+                                    <button
+                                        key={m}
+                                        onClick={() => { setMode(m); setConfirmReplace(false); }}
+                                        className={clsx(
+                                            'py-2 rounded-lg text-xs font-medium transition-all capitalize',
+                                            mode === m ? 'bg-surface text-th-primary shadow-sm' : 'text-th-muted',
+                                        )}
+                                    >
+                                        {m}
+                                    </button>
+                                ))}
+                            </div>
+                            <p className={clsx('text-xs', mode === 'replace' ? 'text-red-400' : 'text-th-muted')}>
+                                {mode === 'merge'
+                                    ? 'Adds entries you don\'t already have. Settings you\'ve changed are kept.'
+                                    : confirmReplace
+                                        ? 'This deletes everything currently saved before restoring. Tap Replace again to continue.'
+                                        : 'Deletes all current data, then restores exactly what\'s in the backup.'}
+                            </p>
+                        </>
+                    )}
+
+                    {stage.kind === 'restoring' && (
+                        <div className="space-y-2">
+                            <p className="text-sm text-th-muted">
+                                Restoring… {stage.total > 0 && `${stage.done} / ${stage.total}`}
+                            </p>
+                            <div className="h-1.5 bg-surface2 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-emerald-500 transition-all"
+                                    style={{ width: `${stage.total ? (stage.done / stage.total) * 100 : 0}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {stage.kind === 'done' && (
+                        <div className="text-sm text-th-primary space-y-1">
+                            <p className="flex items-center gap-2 text-emerald-400"><Check className="w-4 h-4" /> Restore complete</p>
+                            {(Object.keys(LABELS) as (keyof StoreCounts)[]).map(store => (
+                                <p key={store} className="text-xs text-th-muted">{LABELS[store]}: {stage.added[store]} added</p>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="flex gap-3">
+                        {stage.kind === 'done' ? (
+                            <button
+                                onClick={onRestored}
+                                className="flex-1 py-2.5 rounded-xl text-sm font-semibold bg-emerald-500/20 border border-emerald-500/40 text-emerald-400 active:scale-95 transition-transform"
+                            >
+                                Done
+                            </button>
+                        ) : (
+                            <>
+                                <button
+                                    onClick={onClose}
+                                    disabled={busy}
+                                    className="flex-1 py-2.5 rounded-xl bg-surface2 border border-th-border text-sm font-medium text-th-secondary active:scale-95 transition-transform disabled:opacity-40"
+                                >
+                                    {stage.kind === 'ready' ? 'Cancel' : 'Close'}
+                                </button>
+                                {stage.kind === 'ready' && (
+                                    <button
+                                        onClick={handleRestore}
+                                        className={clsx(
+                                            'flex-1 py-2.5 rounded-xl text-sm font-semibold active:scale-95 transition-transform capitalize',
+                                            mode === 'replace'
+                                                ? 'bg-red-500/20 border border-red-500/40 text-red-400'
+                                                : 'bg-emerald-500/20 border border-emerald-500/40 text-emerald-400',
+                                        )}
+                                    >
+                                        {mode}
+                                    </button>
+                                )}
+                            </>
+                        )}
+                    </div>
+                </motion.div>
+            </motion.div>
+        </AnimatePresence>
+    );
+};
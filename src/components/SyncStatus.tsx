@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { RefreshCw, CloudOff, AlertTriangle, Check, Lock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import clsx from 'clsx';
+import { useAuth } from '../contexts/AuthContext';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { syncNow, resolveConflict, type Conflict } from '../lib/sync';
+
+const STORE_LABELS: Record<Conflict['store'], string> = {
+    meals: 'Meal',
+    favourites: 'Favourite',
+    weights: 'Weight entry',
+    recipes: 'Recipe',
+    water: 'Water entry',
+    activities: 'Activity',
+    settings: 'Setting',
+};
+
+// One-line summary of a conflicting version
+const describe = (conflict: Conflict, value: unknown): string => {
+    if (conflict.store === 'settings') {
+        return value === undefined || value === '' ? '(empty)' : String(value);
+    }
+    const record = value as Record<string, unknown> | null;
+    if (!record || record.deleted) return 'Deleted';
+    switch (conflict.store) {
+        case 'meals': return `${record.content} · ${record.calories} kcal`;
+        case 'weights': return `${record.weight} kg on ${record.date}`;
+        case 'water': return `${record.ml} ml on ${record.date}`;
+        case 'activities': return `${record.name} on ${record.date}`;
+        default: return String(record.name);
+    }
+};
+
+/** Sync state, pending uploads and unresolved conflicts for the signed-in user. */
+export const SyncStatus = () => {
+    const { user } = useAuth();
+    const status = useSyncStatus();
+    const [busy, setBusy] = useState<number | null>(null);
+
+    if (!user) return null;
+
+    const handleResolve = async (conflict: Conflict, keep: 'local' | 'remote') => {
+        setBusy(conflict.id!);
+        try {
+            await resolveConflict(user.uid, conflict, keep);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const label = {
+        idle: status.lastSyncedAt
+            ? `Synced ${formatDistanceToNow(status.lastSyncedAt, { addSuffix: true })}`
+            : 'Not synced yet',
+        syncing: 'Syncing…',
+        offline: 'Offline — changes will upload when you reconnect',
+        error: "Couldn't reach the server — will retry shortly",
+        locked: 'Encrypted — enter your passphrase below to sync',
+    }[status.state];
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-3 bg-surface2 rounded-xl border border-th-border-strong p-3">
+                {status.state === 'offline' ? <CloudOff className="w-4 h-4 text-amber-400 shrink-0" />
+                    : status.state === 'error' ? <AlertTriangle className="w-4 h-4 text-red-400 shrink-0" />
+                        : status.state === 'locked' ? <Lock className="w-4 h-4 text-amber-400 shrink-0" />
+                            : status.state === 'syncing' ? <RefreshCw className="w-4 h-4 text-emerald-400 animate-spin shrink-0" />
+                                : <Check className="w-4 h-4 text-emerald-400 shrink-0" />}
+                <div className="flex-1 min-w-0">
+                    <p className="text-sm text-th-primary truncate">{label}</p>
+                    {status.pending > 0 && (
+                        <p className="text-xs text-amber-400">
+                            {status.pending} {status.pending === 1 ? 'change' : 'changes'} waiting to upload
+                        </p>
+                    )}
+                </div>
+                <button
+                    onClick={() => syncNow(user.uid)}
+                    disabled={status.state === 'syncing'}
+                    className="px-3 py-1.5 rounded-lg bg-surface2 border border-th-border text-xs font-medium text-th-secondary active:scale-95 transition-transform shrink-0 disabled:opacity-40"
+                >
+                    Sync now
+                </button>
+            </div>
+
+            {status.conflicts.length > 0 && (
+                <div className="space-y-2">
+                    <p className="text-xs text-th-muted">
+                        These were changed on two devices at once. The newer edit was kept — choose which version you want.
+                    </p>
+                    {status.conflicts.map(conflict => (
+                        <div key={conflict.id} className="bg-surface2 rounded-xl border border-amber-500/30 p-3 space-y-2">
+                            <p className="text-xs font-semibold text-amber-400">
+                                {STORE_LABELS[conflict.store]}{conflict.store === 'settings' ? ` · ${conflict.recordId}` : ''}
+                            </p>
+                            {(['local', 'remote'] as const).map(side => (
+                                <button
+                                    key={side}
+                                    onClick={() => handleResolve(conflict, side)}
+                                    disabled={busy === conflict.id}
+                                    className={clsx(
+                                        'w-full text-left rounded-lg border px-3 py-2 active:scale-[0.98] transition-transform disabled:opacity-40',
+                                        conflict.winner === side ? 'border-emerald-500/40 bg-emerald-500/10' : 'border-th-border bg-surface',
+                                    )}
+                                >
+                                    <p className="text-[11px] text-th-muted">
+                                        {side === 'local' ? "Keep this device's" : "Keep other device's"}
+                                        {conflict.winner === side && ' (current)'}
+                                    </p>
+                                    <p className="text-sm text-th-primary truncate">{describe(conflict, conflict[side])}</p>
+                                </button>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
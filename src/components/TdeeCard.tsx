@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import clsx from 'clsx';
+import { Gauge } from 'lucide-react';
+import { useSettings } from '../hooks/useSettings';
+import { useUndo } from '../hooks/useUndo';
+import {
+    subscribeDailySummaries, subscribeWeightsInRange, subscribeActivitiesInRange, DEFAULT_SETTINGS,
+    type Activity, type DailySummary, type UserSettings, type WeightEntry,
+} from '../lib/db';
+import { shiftDay, todayKey } from '../lib/days';
+import { smoothWeights, TREND_WARMUP_DAYS } from '../lib/weight-trend';
+import { totalBurned } from '../lib/activity';
+import { estimateTdee, proposeGoals, GOAL_RATES, MIN_CALORIES, TDEE_WINDOW_DAYS, type ProposedGoals, type TdeeConfidence } from '../lib/tdee';
+
+const CONFIDENCE_STYLES: Record<TdeeConfidence, string> = {
+    high: 'bg-emerald-500/15 text-emerald-400',
+    medium: 'bg-amber-500/15 text-amber-400',
+    low: 'bg-red-500/15 text-red-400',
+};
+
+const GOAL_FIELDS: { key: keyof ProposedGoals; label: string; unit: string }[] = [
+    { key: 'dailyCalories', label: 'Calories', unit: ' kcal' },
+    { key: 'dailyProtein', label: 'Protein', unit: 'g' },
+    { key: 'dailyFat', label: 'Fat', unit: 'g' },
+    { key: 'dailyCarbs', label: 'Carbs', unit: 'g' },
+    { key: 'dailyFiber', label: 'Fiber', unit: 'g' },
+];
+
+const rateLabel = (rate: number) => rate === 0 ? 'Keep' : `${rate > 0 ? '+' : ''}${rate}`;
+
+/** Maintenance calories estimated from the last four weeks, and goals proposed from it. */
+export const TdeeCard = () => {
+    const { settings, updateSetting } = useSettings();
+    const { showUndo } = useUndo();
+    const dayStartHour = settings?.dayStartHour ?? DEFAULT_SETTINGS.dayStartHour;
+    const today = todayKey({ dayStartHour });
+    const from = shiftDay(today, -(TDEE_WINDOW_DAYS - 1));
+    const [summaries, setSummaries] = useState<DailySummary[]>([]);
+    const [weights, setWeights] = useState<WeightEntry[]>([]);
+    const [activities, setActivities] = useState<Activity[]>([]);
+    const [chosenRate, setChosenRate] = useState<number | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const stops = [
+            subscribeDailySummaries(from, today, setSummaries),
+            subscribeWeightsInRange(shiftDay(from, -TREND_WARMUP_DAYS), today, setWeights),
+            subscribeActivitiesInRange(from, today, setActivities),
+        ];
+        return () => stops.forEach(stop => stop());
+    }, [from, today]);
+
+    if (!settings) return null;
+    const points = smoothWeights(weights);
+    const estimate = estimateTdee(summaries, points, from, today);
+
+    if (!estimate) {
+        return (
+            <div className="bg-surface/60 border border-th-border rounded-2xl p-4">
+                <h3 className="text-xs font-bold text-th-muted uppercase tracking-widest flex items-center gap-2 mb-2">
+                    <Gauge className="w-3.5 h-3.5" /> Maintenance estimate
+                </h3>
+                <p className="text-xs text-th-secondary">
+                    Log your meals on at least 7 days and weigh in at least 3 times across a week or more, and this works out
+                    how many calories you actually burn from the last {TDEE_WINDOW_DAYS} days.
+                </p>
+            </div>
+        );
+    }
+
+    const trend = points[points.length - 1].trend;
+    // Default towards the goal weight, if there is one
+    const rate = chosenRate ?? (settings.goalWeight > 0 && settings.goalWeight < trend - 0.5 ? -0.5
+        : settings.goalWeight > trend + 0.5 ? 0.25 : 0);
+    const burnedPerDay = settings.netCalories ? totalBurned(activities) / TDEE_WINDOW_DAYS : 0;
+    const proposed = proposeGoals(estimate.tdee, rate, trend, burnedPerDay);
+    const atFloor = proposed.dailyCalories === MIN_CALORIES;
+    const unchanged = GOAL_FIELDS.every(f => settings[f.key] === proposed[f.key]);
+
+    const handleApply = async () => {
+        setError('');
+        const previous: Partial<UserSettings> = Object.fromEntries(GOAL_FIELDS.map(f => [f.key, settings[f.key]]));
+        try {
+            for (const { key } of GOAL_FIELDS) await updateSetting(key, proposed[key]);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not update your goals.');
+            return;
+        }
+        showUndo('Daily goals updated', async () => {
+            for (const { key } of GOAL_FIELDS) await updateSetting(key, previous[key] as number);
+        });
+    };
+
+    return (
+        <div className="bg-surface/60 border border-th-border rounded-2xl p-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <h3 className="text-xs font-bold text-th-muted uppercase tracking-widest flex items-center gap-2">
+                    <Gauge className="w-3.5 h-3.5" /> Maintenance estimate
+                </h3>
+                <span className={clsx('px-2 py-0.5 rounded-md text-[10px] font-semibold uppercase tracking-wider', CONFIDENCE_STYLES[estimate.confidence])}>
+                    {estimate.confidence} confidence
+                </span>
+            </div>
+            <div>
+                <p className="text-2xl font-bold text-th-primary">{estimate.tdee.toLocaleString()} <span className="text-sm font-normal text-th-muted">kcal/day</span></p>
+                <p className="text-[11px] text-th-faint">
+                    You averaged {estimate.intake.toLocaleString()} kcal on {estimate.loggedDays} of {TDEE_WINDOW_DAYS} days while your trend
+                    {estimate.trendChange === 0 ? ' held steady' : ` ${estimate.trendChange < 0 ? 'fell' : 'rose'} ${Math.abs(estimate.trendChange)} kg`} over {estimate.spanDays} days
+                    ({estimate.weighDays} weigh-ins). Days you don't log are left out, so partly logged days pull this down.
+                </p>
+            </div>
+
+            <div>
+                <p className="text-xs text-th-secondary mb-1.5">Goals for a weekly change of (kg)</p>
+                <div className="grid grid-cols-6 gap-1 bg-surface2 rounded-xl border border-th-border-strong p-1">
+                    {GOAL_RATES.map(r => (
+                        <button
+                            key={r}
+                            onClick={() => setChosenRate(r)}
+                            className={clsx(
+                                'py-1.5 rounded-lg text-xs font-medium transition-all',
+                                rate === r ? 'bg-emerald-500 text-zinc-900' : 'text-th-secondary hover:text-th-primary'
+                            )}
+                        >
+                            {rateLabel(r)}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="grid grid-cols-5 gap-2 text-center">
+                {GOAL_FIELDS.map(f => (
+                    <div key={f.key}>
+                        <p className="text-[10px] text-th-muted">{f.label}</p>
+                        <p className="text-sm font-semibold text-th-primary">{proposed[f.key]}</p>
+                        <p className="text-[10px] text-th-faint">now {settings[f.key]}</p>
+                    </div>
+                ))}
+            </div>
+            {settings.netCalories && (
+                <p className="text-[11px] text-th-faint">Calories are net: your average exercise ({Math.round(burnedPerDay)} kcal/day) is already taken off.</p>
+            )}
+            {atFloor && (
+                <p className="text-[11px] text-amber-400">Capped at {MIN_CALORIES} kcal — go slower, or talk to a professional before eating less.</p>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <button
+                onClick={handleApply}
+                disabled={unchanged}
+                className="w-full py-2 rounded-xl bg-emerald-500 text-zinc-900 text-sm font-semibold active:scale-[0.98] transition-transform disabled:opacity-40"
+            >
+                {unchanged ? 'These are your goals' : 'Use these goals'}
+            </button>
+        </div>
+    );
+};
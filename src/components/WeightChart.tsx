@@ -0,0 +1,89 @@
+import { format } from 'date-fns';
+import type { TrendPoint } from '../lib/weight-trend';
+
+interface WeightChartProps {
+    points: TrendPoint[];
+    goalWeight?: number;
+    height?: number;
+}
+
+// Goals further than this outside the plotted weights would flatten the chart, so they aren't drawn
+const GOAL_MARGIN_KG = 3;
+
+const toTime = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+/** Daily weigh-ins as dots with the smoothed trend as a line, spaced by date. */
+export const WeightChart = ({ points, goalWeight = 0, height = 140 }: WeightChartProps) => {
+    if (points.length === 0) return null;
+
+    const values = points.flatMap(p => [p.weight, p.trend]);
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    const showGoal = goalWeight > 0 && goalWeight >= min - GOAL_MARGIN_KG && goalWeight <= max + GOAL_MARGIN_KG;
+    if (showGoal) {
+        min = Math.min(min, goalWeight);
+        max = Math.max(max, goalWeight);
+    }
+    min -= 0.5;
+    max += 0.5;
+    const range = max - min || 1;
+
+    const chartW = 280;
+    const chartH = 120;
+    const padTop = 12;
+    const padBottom = 25;
+    const innerH = chartH - padTop - padBottom;
+
+    const first = toTime(points[0].date);
+    const span = toTime(points[points.length - 1].date) - first;
+    const getX = (date: string) => (span === 0 ? chartW / 2 : ((toTime(date) - first) / span) * chartW);
+    const getY = (v: number) => padTop + innerH - ((v - min) / range) * innerH;
+
+    const trendLine = points.map(p => `${getX(p.date)},${getY(p.trend)}`).join(' ');
+    const ySteps = 4;
+    const yLabels = Array.from({ length: ySteps + 1 }, (_, i) => min + (range / ySteps) * i);
+
+    return (
+        <svg viewBox={`-35 0 ${chartW + 40} ${chartH}`} className="w-full" style={{ height: `${height}px` }}>
+            {/* Grid lines and Y labels */}
+            {yLabels.map((v, i) => (
+                <g key={i}>
+                    <line x1="0" x2={chartW} y1={getY(v)} y2={getY(v)} stroke="var(--color-chart-grid)" strokeWidth="0.5" />
+                    <text x="-8" y={getY(v) + 3} textAnchor="end" fill="var(--color-chart-label)" fontSize="8">{v.toFixed(1)}</text>
+                </g>
+            ))}
+
+            {/* Goal line */}
+            {showGoal && (
+                <>
+                    <line x1={0} x2={chartW} y1={getY(goalWeight)} y2={getY(goalWeight)}
+                        stroke="#60a5fa" strokeWidth="1" strokeDasharray="4 3" opacity="0.6" />
+                    <text x={chartW - 2} y={getY(goalWeight) - 3} textAnchor="end"
+                        fill="var(--color-chart-label)" fontSize="7" opacity="0.7">goal</text>
+                </>
+            )}
+
+            {/* Raw weigh-ins: faint, since day-to-day swings are mostly water */}
+            {points.map(p => (
+                <circle key={p.date} cx={getX(p.date)} cy={getY(p.weight)} r="2" fill="var(--color-chart-axis)" opacity="0.6" />
+            ))}
+
+            {/* Trend */}
+            <polyline points={trendLine} fill="none" stroke="#10b981" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+            <circle cx={getX(points[points.length - 1].date)} cy={getY(points[points.length - 1].trend)} r="3"
+                fill="#10b981" stroke="var(--color-chart-dot-stroke)" strokeWidth="1.5" />
+
+            {/* X-axis date labels */}
+            {points.length > 1 && (
+                <>
+                    <text x={0} y={chartH - 5} textAnchor="start" fill="var(--color-chart-axis)" fontSize="7">
+                        {format(toTime(points[0].date), 'MMM d')}
+                    </text>
+                    <text x={chartW} y={chartH - 5} textAnchor="end" fill="var(--color-chart-axis)" fontSize="7">
+                        {format(toTime(points[points.length - 1].date), 'MMM d')}
+                    </text>
+                </>
+            )}
+        </svg>
+    );
+};
@@ -7,7 +7,7 @@ import {
 } from 'firebase/auth';
 import { auth, googleProvider } from '../lib/firebase';
 import { setCurrentUser } from '../lib/db';
-import { mergeLocalDataToFirestore } from '../lib/merge';
+import { waitForInitialSync } from '../lib/sync';
 
 interface AuthContextValue {
     user: User | null;
@@ -28,8 +28,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             setCurrentUser(firebaseUser?.uid ?? null);
 
             if (firebaseUser) {
-                // One-time migration: local IDB → Firestore (no-ops if already done)
-                await mergeLocalDataToFirestore(firebaseUser.uid);
+                // First pull + guest data import, so the UI doesn't render an empty account
+                await waitForInitialSync();
             }
 
             setUser(firebaseUser);
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { subscribeSettings, saveSetting, getSettings, type UserSettings } from '../lib/db';
+import { assertValidSetting } from '../lib/settings';
+import { SettingsContext } from '../hooks/useSettings';
+
+/**
+ * The one copy of the user's settings. Subscribed to the db layer, so changes
+ * saved in another tab, synced from another device or written directly with
+ * saveSetting() reach every mounted component.
+ */
+export const SettingsProvider = ({ children }: { children: ReactNode }) => {
+    const [settings, setSettings] = useState<UserSettings | null>(null);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => subscribeSettings(s => {
+        setSettings(s);
+        setLoading(false);
+    }), []);
+
+    const updateSetting = useCallback(async <K extends keyof UserSettings>(key: K, value: UserSettings[K]) => {
+        assertValidSetting(key, value);
+        setSettings(prev => prev && { ...prev, [key]: value });
+        try {
+            await saveSetting(key, value);
+        } catch (err) {
+            // Put back whatever is actually stored
+            setSettings(await getSettings());
+            throw err;
+        }
+    }, []);
+
+    return (
+        <SettingsContext.Provider value={{ settings, loading, updateSetting }}>
+            {children}
+        </SettingsContext.Provider>
+    );
+};
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { Undo2 } from 'lucide-react';
+import { UndoContext } from '../hooks/useUndo';
+
+const UNDO_TIMEOUT_MS = 6000;
+
+interface Snack {
+    key: number;
+    message: string;
+    undo?: () => Promise<unknown>;
+}
+
+export const UndoProvider = ({ children }: { children: ReactNode }) => {
+    const [snack, setSnack] = useState<Snack | null>(null);
+    const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+    const show = useCallback((next: Omit<Snack, 'key'>) => {
+        clearTimeout(timer.current);
+        setSnack({ ...next, key: Date.now() });
+        timer.current = setTimeout(() => setSnack(null), UNDO_TIMEOUT_MS);
+    }, []);
+
+    const showUndo = useCallback((message: string, undo: () => Promise<unknown>) => show({ message, undo }), [show]);
+
+    useEffect(() => () => clearTimeout(timer.current), []);
+
+    const handleUndo = async () => {
+        if (!snack?.undo) return;
+        clearTimeout(timer.current);
+        setSnack(null);
+        try {
+            await snack.undo();
+        } catch (err) {
+            console.error('Undo failed:', err);
+            show({ message: err instanceof Error ? err.message : 'Could not undo. You can still restore it from Trash.' });
+        }
+    };
+
+    return (
+        <UndoContext.Provider value={{ showUndo }}>
+            {children}
+            <AnimatePresence>
+                {snack && (
+                    <motion.div
+                        key={snack.key}
+                        initial={{ y: 20, opacity: 0 }}
+                        animate={{ y: 0, opacity: 1 }}
+                        exit={{ y: 20, opacity: 0 }}
+                        className="fixed bottom-24 inset-x-0 z-[75] flex justify-center px-4 pointer-events-none"
+                    >
+                        <div className="w-full max-w-sm bg-surface border border-th-border-strong rounded-xl shadow-lg px-4 py-3 flex items-center justify-between gap-3 pointer-events-auto">
+                            <span className="text-sm text-th-primary">{snack.message}</span>
+                            {snack.undo && (
+                                <button
+                                    onClick={handleUndo}
+                                    className="flex items-center gap-1.5 text-sm font-semibold text-emerald-400 active:scale-95 transition-transform shrink-0"
+                                >
+                                    <Undo2 className="w-4 h-4" /> Undo
+                                </button>
+                            )}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </UndoContext.Provider>
+    );
+};
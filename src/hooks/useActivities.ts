@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+import { subscribeActivitiesInRange, DEFAULT_SETTINGS, type Activity } from '../lib/db';
+import { useSettings } from './useSettings';
+import { totalBurned } from '../lib/activity';
+import { todayKey } from '../lib/days';
+
+/** Today's activities and the kcal they burned, kept live like useWater. */
+export const useActivities = () => {
+    const [entries, setEntries] = useState<Activity[]>([]);
+    const { settings } = useSettings();
+    const dayStartHour = settings?.dayStartHour ?? DEFAULT_SETTINGS.dayStartHour;
+
+    useEffect(() => {
+        const today = todayKey({ dayStartHour });
+        return subscribeActivitiesInRange(today, today, setEntries);
+    }, [dayStartHour]);
+
+    return { entries, burned: totalBurned(entries) };
+};
@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { subscribeEncryption, type EncryptionStatus } from '../lib/e2e';
+
+/** End-to-end encryption status for a signed-in user; null until first read or when signed out. */
+export const useEncryption = (uid: string | null) => {
+    const [status, setStatus] = useState<EncryptionStatus | null>(null);
+    useEffect(() => (uid ? subscribeEncryption(uid, setStatus) : undefined), [uid]);
+    return uid ? status : null;
+};
@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { addMeal, getAllMeals, setBackend, type Meal, type MealItem } from '../lib/db';
+import { createMemoryBackend, type MemorySeed } from '../lib/db.memory';
+import { SettingsProvider } from '../contexts/SettingsContext';
+import { shiftDay, todayKey } from '../lib/days';
+import { withItems } from '../lib/items';
+import { useMeals } from './useMeals';
+
+const DAL: MealItem = { food: 'Dal', calories: 300, protein: 15, fat: 8, carbs: 40, fiber: 9 };
+const RICE: MealItem = { food: 'Rice', calories: 200, protein: 4, fat: 1, carbs: 45, fiber: 1, nutrients: { sodium: 5 } };
+
+const meal = (date: string, items: MealItem[]): Meal => ({ date, timestamp: Date.now(), content: items.map(i => i.food).join(' and '), ...withItems(items) });
+
+const wrapper = ({ children }: { children: ReactNode }) => <SettingsProvider>{children}</SettingsProvider>;
+
+const render = async (seed?: MemorySeed) => {
+    setBackend(createMemoryBackend(seed));
+    const hook = renderHook(() => useMeals(), { wrapper });
+    await waitFor(() => expect(hook.result.current.loading).toBe(false));
+    return hook;
+};
+
+afterEach(cleanup);
+
+describe('useMeals', () => {
+    it("loads today's meals and totals, leaving other days out", async () => {
+        const today = todayKey();
+        const { result } = await render({ meals: [meal(today, [DAL, RICE]), meal(shiftDay(today, -1), [DAL])] });
+
+        expect(result.current.meals).toHaveLength(1);
+        await waitFor(() => expect(result.current.stats.calories).toBe(500));
+        expect(result.current.stats).toEqual({ calories: 500, protein: 19, fat: 9, carbs: 85, fiber: 10, nutrients: { sodium: 5 } });
+    });
+
+    it('starts empty', async () => {
+        const { result } = await render();
+        expect(result.current.meals).toEqual([]);
+        expect(result.current.stats.calories).toBe(0);
+    });
+
+    it('adds a meal with its date, zone and slot, and shows it straight away', async () => {
+        const { result } = await render();
+        const noon = new Date();
+        noon.setHours(12, 0, 0, 0);
+
+        let id = '';
+        await act(async () => { id = await result.current.addMeal('dal', [DAL], noon.getTime()); });
+
+        expect(result.current.meals.map(m => m.id)).toEqual([id]);
+        expect(result.current.stats.calories).toBe(300);
+        const [stored] = await getAllMeals();
+        expect(stored).toMatchObject({ date: todayKey(), timestamp: noon.getTime(), slot: 'lunch', content: 'dal', parsed: [DAL], totalCalories: 300 });
+        expect(stored.timeZone).toBeTruthy();
+    });
+
+    it('keeps a given slot and files a backdated meal under its own day', async () => {
+        const { result } = await render();
+        const yesterday = Date.now() - 24 * 60 * 60 * 1000;
+
+        await act(async () => { await result.current.addMeal('rice', [RICE], yesterday, 'dinner'); });
+
+        expect(result.current.meals).toEqual([]);
+        const [stored] = await getAllMeals();
+        expect(stored).toMatchObject({ date: shiftDay(todayKey(), -1), timestamp: yesterday, slot: 'dinner' });
+    });
+
+    it('picks up meals written elsewhere through the change feed', async () => {
+        const { result } = await render();
+
+        await act(async () => { await addMeal(meal(todayKey(), [RICE])); });
+
+        await waitFor(() => expect(result.current.meals).toHaveLength(1));
+        await waitFor(() => expect(result.current.stats.calories).toBe(200));
+    });
+});
@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
-import { getMealsByDate, addMeal as addMealToDB } from '../lib/db';
-import { format } from 'date-fns';
+import { getMealsByDate, getDailySummaries, subscribeMealsByDate, subscribeDailySummaries, addMeal as addMealToDB, DEFAULT_SETTINGS, type DailySummary, type MealItem, type Nutrients, type MealSlot, type RecordId } from '../lib/db';
+import { useSettings } from './useSettings';
+import { inferSlot } from '../lib/slots';
+import { withItems } from '../lib/items';
+import { dayKey, todayKey, zoneAt } from '../lib/days';
 
 export interface DailyStats {
     calories: number;
@@ -8,52 +11,64 @@ export interface DailyStats {
     fat: number;
     carbs: number;
     fiber: number;
+    nutrients: Nutrients;
 }
 
+const toStats = (summary: DailySummary | undefined): DailyStats => ({
+    calories: summary?.calories ?? 0,
+    protein: summary?.protein ?? 0,
+    fat: summary?.fat ?? 0,
+    carbs: summary?.carbs ?? 0,
+    fiber: summary?.fiber ?? 0,
+    nutrients: summary?.nutrients ?? {},
+});
+
+/** Today's meals and totals, kept live as meals change here, in other tabs or on other devices. */
 export const useMeals = () => {
     const [todayMeals, setTodayMeals] = useState<any[]>([]);
-    const [stats, setStats] = useState<DailyStats>({ calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0 });
+    const [stats, setStats] = useState<DailyStats>(toStats(undefined));
     const [loading, setLoading] = useState(true);
+    const { settings } = useSettings();
+    const dayStartHour = settings?.dayStartHour ?? DEFAULT_SETTINGS.dayStartHour;
+
+    useEffect(() => {
+        const today = todayKey({ dayStartHour });
+        const stopMeals = subscribeMealsByDate(today, meals => {
+            setTodayMeals(meals);
+            setLoading(false);
+        });
+        const stopStats = subscribeDailySummaries(today, today, ([summary]) => setStats(toStats(summary)));
+        return () => { stopMeals(); stopStats(); };
+    }, [dayStartHour]);
 
+    // Re-reads straight away, for callers that need the new state before the change feed delivers it
     const refreshMeals = useCallback(async () => {
-        setLoading(true);
-        const today = format(new Date(), 'yyyy-MM-dd');
+        const today = todayKey({ dayStartHour });
         try {
-            const meals = await getMealsByDate(today);
+            const [meals, [summary]] = await Promise.all([
+                getMealsByDate(today),
+                getDailySummaries(today, today),
+            ]);
             setTodayMeals(meals);
-
-            const newStats = meals.reduce((acc, meal) => ({
-                calories: acc.calories + (meal.totalCalories || 0),
-                protein: acc.protein + (meal.parsed?.[0]?.protein || 0),
-                fat: acc.fat + (meal.parsed?.[0]?.fat || 0),
-                carbs: acc.carbs + (meal.parsed?.[0]?.carbs || 0),
-                fiber: acc.fiber + (meal.parsed?.[0]?.fiber || 0),
-            }), { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0 });
-
-            setStats(newStats);
+            setStats(toStats(summary));
         } catch (error) {
             console.error('Failed to fetch meals', error);
-        } finally {
-            setLoading(false);
         }
-    }, []);
-
-    useEffect(() => {
-        refreshMeals();
-    }, [refreshMeals]);
+    }, [dayStartHour]);
 
-    const addMeal = async (text: string, parsedData: any): Promise<number> => {
-        const today = format(new Date(), 'yyyy-MM-dd');
+    // `at` backdates the meal (see when.ts); the date follows from it, and the slot too unless given
+    const addMeal = async (text: string, items: MealItem[], at = Date.now(), slot?: MealSlot): Promise<RecordId> => {
         const meal = {
-            date: today,
-            timestamp: Date.now(),
+            date: dayKey(at, { dayStartHour }),
+            timestamp: at,
+            ...zoneAt(at),
+            slot: slot ?? inferSlot(at, settings?.slotStarts ?? DEFAULT_SETTINGS.slotStarts),
             content: text,
-            parsed: [parsedData],
-            totalCalories: parsedData.calories,
+            ...withItems(items),
         };
         const id = await addMealToDB(meal);
         await refreshMeals();
-        return id as number;
+        return id;
     };
 
     return { meals: todayMeals, stats, loading, addMeal, refreshMeals };
@@ -1,25 +1,19 @@
-import { useState, useEffect } from 'react';
-import { getSettings, saveSetting, type UserSettings } from '../lib/db';
+import { createContext, useContext } from 'react';
+import type { UserSettings } from '../lib/db';
 
-export const useSettings = () => {
-    const [settings, setSettings] = useState<UserSettings | null>(null);
-    const [loading, setLoading] = useState(true);
-
-    useEffect(() => {
-        const load = async () => {
-            const s = await getSettings();
-            setSettings(s);
-            setLoading(false);
-        };
-        load();
-    }, []);
+export interface SettingsContextValue {
+    settings: UserSettings | null;
+    loading: boolean;
+    /** Validates and saves one setting. Every component sees the new value at once; rejects if it's invalid or can't be saved. */
+    updateSetting: <K extends keyof UserSettings>(key: K, value: UserSettings[K]) => Promise<void>;
+}
 
-    const updateSetting = async (key: keyof UserSettings, value: any) => {
-        if (!settings) return;
-        const newSettings = { ...settings, [key]: value };
-        setSettings(newSettings);
-        await saveSetting(key, value);
-    };
+// Provided by SettingsProvider (contexts/SettingsContext.tsx)
+export const SettingsContext = createContext<SettingsContextValue | null>(null);
 
-    return { settings, loading, updateSetting };
+/** The user's settings from the one SettingsProvider, and updateSetting() to change them. */
+export const useSettings = () => {
+    const ctx = useContext(SettingsContext);
+    if (!ctx) throw new Error('useSettings must be used inside SettingsProvider');
+    return ctx;
 };
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { getSyncStatus, subscribeSyncStatus } from '../lib/sync';
+
+export const useSyncStatus = () => useSyncExternalStore(subscribeSyncStatus, getSyncStatus);
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+
+export interface UndoContextValue {
+    /** Shows a snackbar with an Undo button; `undo` runs if the user taps it before it times out. */
+    showUndo: (message: string, undo: () => Promise<unknown>) => void;
+}
+
+// Provided by UndoProvider (contexts/UndoContext.tsx), which also draws the snackbar
+export const UndoContext = createContext<UndoContextValue | null>(null);
+
+export const useUndo = () => {
+    const ctx = useContext(UndoContext);
+    if (!ctx) throw new Error('useUndo must be used inside UndoProvider');
+    return ctx;
+};
@@ -0,0 +1,9 @@
+import { useEffect, useState } from 'react';
+import { subscribeVault, type VaultState } from '../lib/secrets';
+
+/** The device-local API key vault; null until first read. */
+export const useVault = () => {
+    const [vault, setVault] = useState<VaultState | null>(null);
+    useEffect(() => subscribeVault(setVault), []);
+    return vault;
+};
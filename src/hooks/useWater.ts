@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+import { subscribeWaterInRange, DEFAULT_SETTINGS, type WaterEntry } from '../lib/db';
+import { useSettings } from './useSettings';
+import { totalWater } from '../lib/water';
+import { todayKey } from '../lib/days';
+
+/** Today's water entries and total (ml), kept live like useMeals. */
+export const useWater = () => {
+    const [entries, setEntries] = useState<WaterEntry[]>([]);
+    const { settings } = useSettings();
+    const dayStartHour = settings?.dayStartHour ?? DEFAULT_SETTINGS.dayStartHour;
+
+    useEffect(() => {
+        const today = todayKey({ dayStartHour });
+        return subscribeWaterInRange(today, today, setEntries);
+    }, [dayStartHour]);
+
+    return { entries, total: totalWater(entries) };
+};
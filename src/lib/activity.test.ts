@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { Activity } from './db';
+import { burnedByDay, metCalories, parseActivity, totalBurned } from './activity';
+
+describe('parseActivity', () => {
+    it('works out the burn from the time and profile weight', () => {
+        expect(parseActivity('ran 5k in 30 min', 70)).toEqual({ name: 'Running', minutes: 30, calories: 360, source: 'met' });
+        expect(parseActivity('walked for an hour', 70)).toEqual({ name: 'Walking', minutes: 60, calories: 257, source: 'met' });
+        expect(parseActivity('1 hr 30 min cycling', 70)).toMatchObject({ minutes: 90, calories: 827 });
+    });
+
+    it('uses a typical pace for a distance without a time', () => {
+        expect(parseActivity('ran 5k', 70)).toMatchObject({ name: 'Running', minutes: 30, calories: 360 });
+        expect(parseActivity('walked 2 miles', 70)).toMatchObject({ name: 'Walking', minutes: 39 });
+    });
+
+    it('assumes 70 kg without a profile weight', () => {
+        expect(parseActivity('45 min gym', 0)?.calories).toBe(metCalories(5, 45, 70));
+    });
+
+    it('keeps a burn the user states', () => {
+        expect(parseActivity('yoga 1 hour, burned 200 cal', 70)).toEqual({ name: 'Yoga', minutes: 60, calories: 200, source: 'user' });
+    });
+
+    it('leaves anything it only half understands to the LLM', () => {
+        expect(parseActivity('went for a run with friends', 70)).toBeNull();
+        expect(parseActivity('ran', 70)).toBeNull();
+        expect(parseActivity('walked 30 hours', 70)).toBeNull();
+        expect(parseActivity('had a banana', 70)).toBeNull();
+    });
+});
+
+describe('burn totals', () => {
+    const activities: Activity[] = [
+        { id: 'a', date: '2026-03-01', timestamp: 0, name: 'Running', minutes: 30, calories: 360, source: 'met' },
+        { id: 'b', date: '2026-03-01', timestamp: 0, name: 'Yoga', minutes: 60, calories: 200, source: 'user' },
+        { id: 'c', date: '2026-03-02', timestamp: 0, name: 'Walking', minutes: 60, calories: 257, source: 'met' },
+    ];
+
+    it('adds up what was burned, in total and per day', () => {
+        expect(totalBurned(activities)).toBe(817);
+        expect(burnedByDay(activities)).toEqual({ '2026-03-01': 560, '2026-03-02': 257 });
+    });
+});
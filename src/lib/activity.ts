@@ -0,0 +1,134 @@
+/**
+ * activity.ts — exercise and calories burned
+ *
+ * Workouts have their own store (`activities`, one Activity per session,
+ * synced and trashed like water). The chat picks up "ran 5k in 30 min",
+ * "45 min gym" or "walked for an hour" without the LLM via parseActivity(),
+ * which estimates the burn from a MET table and the profile weight:
+ *
+ *   kcal = MET × 3.5 × kg / 200 × minutes
+ *
+ * A distance without a time uses a typical pace for the activity. A burn the
+ * user states ("yoga 1 hour, burned 200 cal") is kept as given. Anything else
+ * goes to the LLM, which estimates the burn itself (source 'ai').
+ *
+ * With `netCalories` on, what's burned is taken off what's eaten wherever
+ * progress against the calorie goal is shown: the Home ring, badges, streaks
+ * and History.
+ */
+import type { Activity, ActivitySource } from './db.idb';
+
+export interface ParsedActivity {
+    name: string;
+    minutes: number;
+    calories: number;
+    source: ActivitySource;
+}
+
+interface ActivityDef {
+    name: string;
+    met: number;
+    kmh?: number;   // typical pace, for a distance given without a time
+    words: RegExp;
+}
+
+// Compendium of Physical Activities values for a moderate effort. Checked in order, so specific before generic.
+const ACTIVITIES: ActivityDef[] = [
+    { name: 'Running', met: 9.8, kmh: 10, words: /\b(?:ran|run|running|jog|jogged|jogging)\b/ },
+    { name: 'Hiking', met: 6, kmh: 4, words: /\b(?:hike|hiked|hiking|trek|trekked|trekking)\b/ },
+    { name: 'Walking', met: 3.5, kmh: 5, words: /\b(?:walk|walked|walking)\b/ },
+    { name: 'Cycling', met: 7.5, kmh: 20, words: /\b(?:cycle|cycled|cycling|bike|biked|biking|bike ride)\b/ },
+    { name: 'Swimming', met: 7, kmh: 2, words: /\b(?:swim|swam|swimming)\b/ },
+    { name: 'Rowing', met: 7, words: /\b(?:row|rowed|rowing)\b/ },
+    { name: 'Skipping', met: 11, words: /\b(?:skipping|jump rope|jumped rope|skipped rope)\b/ },
+    { name: 'HIIT', met: 8, words: /\b(?:hiit|circuits?|crossfit)\b/ },
+    { name: 'Strength training', met: 5, words: /\b(?:gym|weights|weight training|lifting|lifted|strength)\b/ },
+    { name: 'Elliptical', met: 5, words: /\b(?:elliptical|cross trainer)\b/ },
+    { name: 'Yoga', met: 2.5, words: /\byoga\b/ },
+    { name: 'Pilates', met: 3, words: /\bpilates\b/ },
+    { name: 'Dancing', met: 5, words: /\b(?:dance|danced|dancing|zumba)\b/ },
+    { name: 'Football', met: 7, words: /\b(?:football|soccer)\b/ },
+    { name: 'Cricket', met: 4.8, words: /\bcricket\b/ },
+    { name: 'Badminton', met: 5.5, words: /\bbadminton\b/ },
+    { name: 'Tennis', met: 7.3, words: /\btennis\b/ },
+    { name: 'Basketball', met: 6.5, words: /\bbasketball\b/ },
+    { name: 'Workout', met: 5, words: /\b(?:workout|worked out|exercise|exercised)\b/ },
+];
+
+// Used when no weight is set in the profile
+const DEFAULT_WEIGHT_KG = 70;
+
+const MAX_MINUTES = 24 * 60;
+const MAX_KCAL = 5000;
+
+const HOURS = /\b(\d+(?:\.\d+)?) ?(?:h|hrs?|hours?)(?: (?:and )?(\d+) ?(?:mins?|minutes?))?\b/;
+const MINUTES = /\b(\d+) ?(?:mins?|minutes?)\b/;
+const WORDY_HOURS = /\b(half an|an|one|two|three) hours?\b/;
+const WORDY: Record<string, number> = { 'half an': 0.5, an: 1, one: 1, two: 2, three: 3 };
+const DISTANCE = /\b(\d+(?:\.\d+)?) ?(km|kms|k|kilometres?|kilometers?|mi|miles?|m|metres?|meters?)\b/;
+const STATED = /\b(?:(?:burned|burnt) )?(\d+) ?(?:kcal|cals?|calories)(?: (?:burned|burnt))?\b/;
+
+// Words that can sit around an activity without changing it
+const FILLER = new Set([
+    'i', 'went', 'go', 'did', 'do', 'done', 'had', 'played', 'play', 'a', 'an', 'the', 'for', 'of', 'in', 'my', 'and', 'then',
+    'just', 'some', 'quick', 'long', 'easy', 'session', 'class', 'training', 'workout', 'burned', 'burnt', 'about', 'around',
+]);
+
+const toKm = (value: number, unit: string): number => {
+    if (unit.startsWith('mi')) return value * 1.609;
+    if (unit === 'm' || unit.startsWith('met')) return value / 1000;
+    return value;
+};
+
+/** Calories burned doing an activity with the given MET for `minutes`. */
+export const metCalories = (met: number, minutes: number, weightKg: number): number =>
+    Math.round(met * 3.5 * (weightKg || DEFAULT_WEIGHT_KG) / 200 * minutes);
+
+/**
+ * The activity a message logs, with its burn worked out — or null if it isn't
+ * only about one activity with a time, a distance or a stated burn.
+ */
+export const parseActivity = (text: string, weightKg: number): ParsedActivity | null => {
+    let rest = ` ${text.toLowerCase().replace(/[.!]+$/, '').replace(/[-,]/g, ' ').replace(/\s{2,}/g, ' ').trim()} `;
+    const take = (pattern: RegExp): RegExpMatchArray | null => {
+        const m = rest.match(pattern);
+        if (m) rest = rest.replace(m[0], ' ');
+        return m;
+    };
+
+    const def = ACTIVITIES.find(a => a.words.test(rest));
+    if (!def) return null;
+    rest = rest.replace(new RegExp(def.words.source, 'g'), ' ');   // "lifted weights" names it twice
+
+    const stated = take(STATED);
+    let minutes: number | undefined;
+    const hours = take(HOURS);
+    if (hours) minutes = parseFloat(hours[1]) * 60 + (hours[2] ? parseInt(hours[2], 10) : 0);
+    const wordy = minutes === undefined ? take(WORDY_HOURS) : null;
+    if (wordy) minutes = WORDY[wordy[1]] * 60;
+    const mins = minutes === undefined ? take(MINUTES) : null;
+    if (mins) minutes = parseInt(mins[1], 10);
+    const distance = take(DISTANCE);
+
+    // Anything left that isn't filler means the message says more than this parser understands
+    if (rest.split(/\s+/).some(word => word && !FILLER.has(word))) return null;
+
+    if (minutes === undefined && distance && def.kmh) minutes = toKm(parseFloat(distance[1]), distance[2]) / def.kmh * 60;
+    if (minutes === undefined && !stated) return null;
+    minutes = Math.round(minutes ?? 0);
+    if (minutes > MAX_MINUTES) return null;
+
+    const calories = stated ? parseInt(stated[1], 10) : metCalories(def.met, minutes, weightKg);
+    if (calories <= 0 || calories > MAX_KCAL) return null;
+    return { name: def.name, minutes, calories, source: stated ? 'user' : 'met' };
+};
+
+/** Total kcal burned by the given activities. */
+export const totalBurned = (activities: Activity[]): number => activities.reduce((n, a) => n + a.calories, 0);
+
+/** kcal burned per day key. */
+export const burnedByDay = (activities: Activity[]): Record<string, number> => {
+    const byDay: Record<string, number> = {};
+    for (const a of activities) byDay[a.date] = (byDay[a.date] ?? 0) + a.calories;
+    return byDay;
+};
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setBackend, type Meal } from './db';
+import { createMemoryBackend, type MemorySeed } from './db.memory';
+import { lock, resetVault, setApiKey, setPasscode } from './secrets';
+import { dayKey, shiftDay, todayKey } from './days';
+import { withItems } from './items';
+import { mealItems, processInput } from './ai-parser';
+
+const use = (seed?: MemorySeed) => setBackend(createMemoryBackend(seed));
+
+// Answers every LLM call with `reply` and records the prompts it was sent
+const stubGemini = (reply: object) => {
+    const prompts: string[] = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+        prompts.push(JSON.parse(init.body as string).contents[0].parts.at(-1).text);
+        return new Response(JSON.stringify({ candidates: [{ content: { parts: [{ text: JSON.stringify(reply) }] } }] }));
+    }));
+    return prompts;
+};
+
+beforeEach(async () => {
+    use();
+    await resetVault();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('processInput without a key', () => {
+    it('logs water in glasses of the configured size', async () => {
+        use({ settings: { unitGlass: 300 } });
+        expect(await processInput('2 glasses of water')).toEqual({ type: 'water', ml: 600, at: undefined });
+        expect(await processInput('500ml water')).toMatchObject({ type: 'water', ml: 500 });
+    });
+
+    it('logs a timed workout from the MET table', async () => {
+        use({ settings: { profileWeight: 70 } });
+        const result = await processInput('walked for an hour');
+        expect(result).toMatchObject({ type: 'activity', activity: { name: 'Walking', minutes: 60, source: 'met' } });
+    });
+
+    it('works out a food DB quantity by itself', async () => {
+        const result = await processInput('200g banana');
+        expect(result.type).toBe('meal');
+        expect(mealItems(result)).toEqual([{
+            food: '200g banana', calories: 178, protein: 2, fat: 0, carbs: 46, fiber: 6,
+            nutrients: { sugar: 24, sodium: 2, potassium: 716 },
+        }]);
+    });
+
+    it('counts servings of foods that have one', async () => {
+        const [item] = mealItems(await processInput('2 banana'))!;
+        expect(item.calories).toBe(214);
+    });
+
+    it('uses the configured portion sizes', async () => {
+        use({ settings: { unitBowlSolid: 200 } });
+        const [item] = mealItems(await processInput('1 bowl banana'))!;
+        expect(item.calories).toBe(178);
+    });
+
+    it('moves a meal to the day and slot the message names', async () => {
+        const result = await processInput('yesterday lunch 200g banana');
+        expect(result).toMatchObject({ type: 'meal', slot: 'lunch' });
+        const at = (result as { at: number }).at;
+        expect(dayKey(at)).toBe(shiftDay(todayKey(), -1));
+        expect(new Date(at).getHours()).toBe(13);
+        expect(mealItems(result)![0].food).toBe('200g banana');
+    });
+
+    it('asks for a key when a known food has no usable quantity', async () => {
+        expect(await processInput('some banana')).toEqual({ type: 'error', message: 'qty_needs_key' });
+    });
+
+    it('asks to sign in for anything else', async () => {
+        expect(await processInput('a big bowl of ramen')).toEqual({ type: 'error', message: 'sign_in_for_hosted_key' });
+    });
+});
+
+describe('processInput with a key', () => {
+    it('sends the day so far and reads back a list of foods', async () => {
+        const today = todayKey();
+        const breakfast: Meal = {
+            date: today, timestamp: Date.now(), content: 'poha',
+            ...withItems([{ food: 'Poha', calories: 250, protein: 5, fat: 8, carbs: 40, fiber: 2 }]),
+        };
+        use({ meals: [breakfast] });
+        await setApiKey('test-key');
+        const prompts = stubGemini({
+            type: 'meal_list',
+            items: [
+                { food: 'Ramen', calories: '450', protein: 18, fat: 15, carbs: 60, fiber: 3 },
+                { food: 'Gyoza', calories: 200, protein: 8, fat: 9, carbs: 22, fiber: 1, nutrients: { sodium: 400 } },
+            ],
+        });
+
+        const result = await processInput('ramen and gyoza');
+        expect(mealItems(result)).toEqual([
+            { food: 'Ramen', calories: 450, protein: 18, fat: 15, carbs: 60, fiber: 3 },
+            { food: 'Gyoza', calories: 200, protein: 8, fat: 9, carbs: 22, fiber: 1, nutrients: { sodium: 400 } },
+        ]);
+        expect(prompts).toHaveLength(1);
+        expect(prompts[0]).toContain('- Poha: 250 kcal');
+        expect(prompts[0]).toContain('User says: ramen and gyoza');
+    });
+
+    it('turns a rejected key into an invalid-key error', async () => {
+        await setApiKey('bad-key');
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('bad key', { status: 400 })));
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        expect(await processInput('a big bowl of ramen')).toEqual({ type: 'error', message: 'invalid_key_gemini' });
+    });
+
+    it('stops at a locked vault instead of calling out', async () => {
+        await setApiKey('test-key');
+        await setPasscode('1234');
+        lock();
+        const fetch = vi.fn();
+        vi.stubGlobal('fetch', fetch);
+        expect(await processInput('a big bowl of ramen')).toEqual({ type: 'error', message: 'api_key_locked' });
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
@@ -1,7 +1,13 @@
-import { getSettings, getMealsByDate, getAllMeals, getAllRecipes, type RecipeIngredient, type UserSettings } from './db';
-import { format, subDays } from 'date-fns';
+import { getSettings, getMealsByDate, getDailySummaries, getAllRecipes, getWaterInRange, getActivitiesInRange, type MealSlot, type Nutrients, type RecipeIngredient, type UserSettings } from './db';
+import { recentDays, todayKey } from './days';
 import { findFood, type FoodItem } from './food-db';
 import { auth } from './firebase';
+import { readVault } from './secrets';
+import { parseWhen } from './when';
+import { parseWater, totalWater } from './water';
+import { parseActivity, totalBurned, type ParsedActivity } from './activity';
+import { itemTotals, mealTitle } from './items';
+import { NUTRIENTS, NUTRIENTS_FIELD, NUTRIENTS_RULE, readNutrients, scaleNutrients, withNutrients } from './nutrients';
 
 export interface ParsedMeal {
     food: string;
@@ -10,18 +16,27 @@ export interface ParsedMeal {
     fat: number;
     carbs: number;
     fiber: number;
+    nutrients?: Nutrients;
+}
+
+/** Set when the message said when, or named the meal (see when.ts); otherwise it's for now. */
+export interface LoggedWhen {
+    at?: number;
+    slot?: MealSlot;
 }
 
 export type AIResponse =
-    | { type: 'meal'; data: ParsedMeal }
-    | { type: 'meal_list'; items: ParsedMeal[] }
+    | ({ type: 'meal'; data: ParsedMeal } & LoggedWhen)
+    | ({ type: 'meal_list'; items: ParsedMeal[] } & LoggedWhen)
     | { type: 'chat'; message: string }
     | { type: 'favourite_save'; name: string }
-    | { type: 'favourite_log'; name: string }
-    | { type: 'weight'; weight: number }
+    | ({ type: 'favourite_log'; name: string } & LoggedWhen)
+    | { type: 'weight'; weight: number; at?: number }
+    | { type: 'water'; ml: number; at?: number }
+    | { type: 'activity'; activity: ParsedActivity; at?: number }
     | { type: 'height'; height: number }
     | { type: 'age'; age: number }
-    | { type: 'recipe_log'; name: string; weight: number }
+    | ({ type: 'recipe_log'; name: string; weight: number } & LoggedWhen)
     | { type: 'error'; message: string };
 
 const PROVIDER_CONFIG = {
@@ -177,6 +192,7 @@ function parseQuantityNoLLM(
         fat: Math.round(food.fat * ratio),
         carbs: Math.round(food.carbs * ratio),
         fiber: Math.round(food.fiber * ratio),
+        ...withNutrients(scaleNutrients(food.nutrients, ratio)),
     };
 }
 
@@ -188,16 +204,24 @@ function parseMealData(parsed: any, fallbackFood: string): ParsedMeal {
         fat: parseInt(parsed.fat) || 0,
         carbs: parseInt(parsed.carbs) || 0,
         fiber: parseInt(parsed.fiber) || 0,
+        ...withNutrients(readNutrients(parsed.nutrients)),
     };
 }
 
+// Settings plus the BYO key, which lives in the device-local vault (secrets.ts)
+const getAIConfig = async () => {
+    const [settings, vault] = await Promise.all([getSettings(), readVault()]);
+    return { ...settings, apiKey: vault.apiKey, apiKeyLocked: vault.hasApiKey && vault.locked };
+};
+
 export const processLabelImage = async (
     imageBase64: string,
     mimeType: string,
     quantity: string
 ): Promise<AIResponse> => {
-    const settings = await getSettings();
+    const settings = await getAIConfig();
     const { apiKey, provider } = settings;
+    if (settings.apiKeyLocked) return { type: 'error', message: 'api_key_locked' };
     const useHosted = !apiKey && !!auth.currentUser;
 
     if (!apiKey && !auth.currentUser) return { type: 'error', message: 'sign_in_for_hosted_key' };
@@ -209,8 +233,8 @@ The user consumed: ${quantity}
 2. Identify the reference quantity (per 100g, per 100ml, per serving, etc.).
 3. Calculate proportional values for what the user consumed.
 4. Respond ONLY with JSON:
-{"type":"meal","food":"product name + ${quantity}","calories":n,"protein":n,"fat":n,"carbs":n,"fiber":n}
-All values as integers.`;
+{"type":"meal","food":"product name + ${quantity}","calories":n,"protein":n,"fat":n,"carbs":n,"fiber":n,${NUTRIENTS_FIELD}}
+Macro values as integers. ${NUTRIENTS_RULE}`;
 
     try {
         const raw = useHosted
@@ -234,17 +258,17 @@ All values as integers.`;
 };
 
 export const parseIngredients = async (text: string): Promise<RecipeIngredient[] | null> => {
-    const settings = await getSettings();
+    const settings = await getAIConfig();
     if (!settings.apiKey) return null;
 
     const prompt = `You are a nutrition assistant. Extract all ingredients from the following text and return their nutritional information.
 
 Respond ONLY with valid JSON in this exact format:
 {"type":"ingredients","items":[
-  {"name":"ingredient name","weight":number_grams,"calories":number,"protein":number,"fat":number,"carbs":number,"fiber":number}
+  {"name":"ingredient name","weight":number_grams,"calories":number,"protein":number,"fat":number,"carbs":number,"fiber":number,${NUTRIENTS_FIELD}}
 ]}
 
-All nutritional values must be integers based on the specified weight.
+All macro values must be integers based on the specified weight. ${NUTRIENTS_RULE}
 If no weight is given for an ingredient, estimate a reasonable serving size in grams.
 Use standard nutritional databases for accuracy.
 
@@ -262,6 +286,7 @@ Text: ${text}`;
                 fat: parseInt(item.fat) || 0,
                 carbs: parseInt(item.carbs) || 0,
                 fiber: parseInt(item.fiber) || 0,
+                ...withNutrients(readNutrients(item.nutrients)),
             }));
         }
         return null;
@@ -270,18 +295,38 @@ Text: ${text}`;
     }
 };
 
-export const processInput = async (input: string): Promise<AIResponse> => {
-    const settings = await getSettings();
+/** The foods a meal response describes, or null if it isn't one. */
+export const mealItems = (result: AIResponse): ParsedMeal[] | null =>
+    result.type === 'meal' ? [result.data] : result.type === 'meal_list' ? result.items : null;
+
+/**
+ * Works out what a chat message means. Temporal phrases are read first (when.ts)
+ * and taken out for food lookup; `base` (the composer's picked time) fills in
+ * whatever the phrase leaves open. The full prompt still gets the whole message,
+ * so questions like "what did I eat yesterday?" keep their meaning.
+ */
+export const processInput = async (message: string, base?: number): Promise<AIResponse> => {
+    const settings = await getAIConfig();
     const { apiKey, provider } = settings;
+    const { text: input, ...when } = parseWhen(message, base, settings.dayStartHour);
+
+    // Water never needs the LLM when the amount is given
+    const ml = parseWater(input, settings.unitGlass);
+    if (ml) return { type: 'water', ml, at: when.at };
+
+    // Nor do workouts with a time or distance: the burn comes from the MET table
+    const activity = parseActivity(input, settings.profileWeight);
+    if (activity) return { type: 'activity', activity, at: when.at };
 
     // Feature B + E: Try food DB first — works without any LLM for parseable quantities
     const dbFood = findFood(input);
     if (dbFood) {
         const direct = parseQuantityNoLLM(input, dbFood, settings);
-        if (direct) return { type: 'meal', data: direct };
+        if (direct) return { type: 'meal', data: direct, ...when };
         // ambiguous quantity — fall through to LLM
     }
 
+    if (settings.apiKeyLocked) return { type: 'error', message: 'api_key_locked' };
     const useHosted = !apiKey && !!auth.currentUser;
     if (!apiKey && !auth.currentUser) {
         return { type: 'error', message: dbFood ? 'qty_needs_key' : 'sign_in_for_hosted_key' };
@@ -299,12 +344,19 @@ export const processInput = async (input: string): Promise<AIResponse> => {
 I know this food: ${dbFood.name} has ${dbFood.per100} kcal per 100${dbFood.unit}, ${dbFood.protein}g protein, ${dbFood.fat}g fat, ${dbFood.carbs}g carbs, ${dbFood.fiber}g fiber per 100${dbFood.unit}.
 User portion sizes: bowl (liquid) ${settings.unitBowlLiquid}ml, bowl (solid) ${settings.unitBowlSolid}g, tbsp ${settings.unitTbsp}g, tsp ${settings.unitTsp}g.
 Parse the quantity they consumed and return ONLY valid JSON:
-{"type":"meal","food":"food name + quantity description","calories":n,"protein":n,"fat":n,"carbs":n,"fiber":n}
-All values as integers.`;
+{"type":"meal","food":"food name + quantity description","grams":n,"calories":n,"protein":n,"fat":n,"carbs":n,"fiber":n}
+"grams" is the amount eaten in ${dbFood.unit}. All values as integers.`;
                 const raw = await llm(shortPrompt);
                 const parsed = JSON.parse(raw);
                 if (parsed.type === 'meal') {
-                    return { type: 'meal', data: parseMealData(parsed, input) };
+                    // Other nutrients come from the food DB, scaled by the amount the LLM worked out
+                    const data = parseMealData(parsed, input);
+                    const grams = parseFloat(parsed.grams);
+                    return {
+                        type: 'meal',
+                        data: { ...data, ...(grams > 0 && withNutrients(scaleNutrients(dbFood.nutrients, grams / 100))) },
+                        ...when,
+                    };
                 }
             } catch (e: any) {
                 // Re-throw hosted errors so the outer catch handles them correctly
@@ -313,24 +365,28 @@ All values as integers.`;
             }
         }
 
-        const today = format(new Date(), 'yyyy-MM-dd');
-        const [todayMeals, allRecipes] = await Promise.all([
+        const today = todayKey({ dayStartHour: settings.dayStartHour });
+        const [todayMeals, allRecipes, todayWater, todayActivities] = await Promise.all([
             getMealsByDate(today),
             getAllRecipes(),
+            getWaterInRange(today, today),
+            getActivitiesInRange(today, today),
         ]);
 
         const mealContext = todayMeals.length > 0
-            ? todayMeals.map(m =>
-                `- ${m.parsed[0]?.food || m.content}: ${m.totalCalories} kcal, ${m.parsed[0]?.protein || 0}g protein, ${m.parsed[0]?.carbs || 0}g carbs, ${m.parsed[0]?.fiber || 0}g fiber`
-            ).join('\n')
+            ? todayMeals.map(m => {
+                const t = itemTotals(m.parsed);
+                return `- ${mealTitle(m)}: ${m.totalCalories} kcal, ${t.protein}g protein, ${t.carbs}g carbs, ${t.fiber}g fiber`;
+            }).join('\n')
             : 'Nothing logged yet today.';
 
-        const totals = todayMeals.reduce((acc, m) => ({
-            calories: acc.calories + (m.totalCalories || 0),
-            protein: acc.protein + (m.parsed[0]?.protein || 0),
-            carbs: acc.carbs + (m.parsed[0]?.carbs || 0),
-            fiber: acc.fiber + (m.parsed[0]?.fiber || 0),
-        }), { calories: 0, protein: 0, carbs: 0, fiber: 0 });
+        const totals = itemTotals(todayMeals.flatMap(m => m.parsed ?? []));
+
+        // Only the nutrients the user has set a goal or limit for
+        const tracked = NUTRIENTS.filter(n => settings.nutrientTargets[n.key] > 0);
+        const trackedContext = tracked.length > 0
+            ? `Also tracked today: ${tracked.map(n => `${n.label} ${totals.nutrients?.[n.key] ?? 0}${n.unit} (${n.kind} ${settings.nutrientTargets[n.key]}${n.unit})`).join(', ')}`
+            : '';
 
         const recipeContext = allRecipes.length > 0
             ? allRecipes.map(r => `${r.name} (${r.totalWeight}g total)`).join(', ')
@@ -345,14 +401,16 @@ Your job — determine the user's intent and respond with the correct JSON forma
 
 1. LOGGING A MEAL:
    If the user describes ONE food item, respond:
-   {"type":"meal","food":"descriptive name","calories":number,"protein":number,"fat":number,"carbs":number,"fiber":number}
+   {"type":"meal","food":"descriptive name","calories":number,"protein":number,"fat":number,"carbs":number,"fiber":number,${NUTRIENTS_FIELD}}
 
    If the user describes MULTIPLE food items in one message, respond with a list — one object per food, each with its own macros (do NOT sum them together):
    {"type":"meal_list","items":[
-     {"food":"food name + quantity","calories":number,"protein":number,"fat":number,"carbs":number,"fiber":number},
-     {"food":"food name + quantity","calories":number,"protein":number,"fat":number,"carbs":number,"fiber":number}
+     {"food":"food name + quantity","calories":number,"protein":number,"fat":number,"carbs":number,"fiber":number,${NUTRIENTS_FIELD}},
+     {"food":"food name + quantity","calories":number,"protein":number,"fat":number,"carbs":number,"fiber":number,${NUTRIENTS_FIELD}}
    ]}
 
+   ${NUTRIENTS_RULE}
+
 2. SAVING A FAVOURITE: If the user says something like "save as favourite X" or "mark this as favourite X".
    Respond: {"type":"favourite_save","name":"the name they gave"}
 
@@ -373,6 +431,13 @@ Your job — determine the user's intent and respond with the correct JSON forma
 
 8. LOGGING A RECIPE: If user says they ate a specific weight of a saved recipe name listed below, respond: {"type":"recipe_log","name":"exact recipe name","weight":number_in_grams}
 
+9. LOGGING WATER: If the user says they drank plain water ("a bottle of water", "3 glasses of water"), respond: {"type":"water","ml":number}
+   A glass is ${settings.unitGlass}ml; assume 500ml for a bottle unless they say otherwise. Other drinks are meals.
+
+10. LOGGING EXERCISE: If the user says they did a workout, sport or other exercise ("played badminton for an hour", "did a spin class"), respond:
+   {"type":"activity","name":"short activity name","minutes":number,"calories":number_burned}
+   Estimate calories burned for someone weighing ${settings.profileWeight || 70}kg; if they state the calories burned, use that number.
+
 User's portion sizes: bowl (liquid) ${settings.unitBowlLiquid}ml, bowl (solid) ${settings.unitBowlSolid}g, tbsp ${settings.unitTbsp}g, tsp ${settings.unitTsp}g
 
 Saved recipes: ${recipeContext}
@@ -382,24 +447,34 @@ ${mealContext}
 
 Today's totals: ${totals.calories} kcal, ${totals.protein}g protein, ${totals.carbs}g carbs, ${totals.fiber}g fiber
 Goals: ${settings.dailyCalories} kcal, ${settings.dailyProtein}g protein, ${settings.dailyCarbs}g carbs, ${settings.dailyFiber}g fiber
+Water today: ${totalWater(todayWater)}ml of ${settings.dailyWater}ml
+Burned today: ${totalBurned(todayActivities)} kcal${settings.netCalories ? ' (the calorie goal counts net of exercise)' : ''}
+${trackedContext}
+
+When the user says when they ate ("yesterday lunch", "at 8am", "last night"), the app records the time itself — leave those words out of food names.
 
 Respond ONLY with valid JSON. No markdown, no explanation outside JSON. All nutritional values as integers.
 
-User says: ${input}`;
+User says: ${message}`;
 
         const raw = await llm(systemPrompt);
         const parsed = JSON.parse(raw);
 
-        if (parsed.type === 'meal') return { type: 'meal', data: parseMealData(parsed, input) };
+        if (parsed.type === 'meal') return { type: 'meal', data: parseMealData(parsed, input), ...when };
         if (parsed.type === 'meal_list' && Array.isArray(parsed.items)) {
-            return { type: 'meal_list', items: parsed.items.map((item: any) => parseMealData(item, input)) };
+            return { type: 'meal_list', items: parsed.items.map((item: any) => parseMealData(item, input)), ...when };
         }
         if (parsed.type === 'favourite_save') return { type: 'favourite_save', name: parsed.name };
-        if (parsed.type === 'favourite_log') return { type: 'favourite_log', name: parsed.name };
-        if (parsed.type === 'weight') return { type: 'weight', weight: parseFloat(parsed.weight) || 0 };
+        if (parsed.type === 'favourite_log') return { type: 'favourite_log', name: parsed.name, ...when };
+        if (parsed.type === 'water') return { type: 'water', ml: parseInt(parsed.ml) || 0, at: when.at };
+        if (parsed.type === 'activity') {
+            const activity = { name: String(parsed.name || ''), minutes: parseInt(parsed.minutes) || 0, calories: parseInt(parsed.calories) || 0, source: 'ai' as const };
+            return { type: 'activity', activity, at: when.at };
+        }
+        if (parsed.type === 'weight') return { type: 'weight', weight: parseFloat(parsed.weight) || 0, at: when.at };
         if (parsed.type === 'height') return { type: 'height', height: parseInt(parsed.height) || 0 };
         if (parsed.type === 'age') return { type: 'age', age: parseInt(parsed.age) || 0 };
-        if (parsed.type === 'recipe_log') return { type: 'recipe_log', name: parsed.name, weight: parseInt(parsed.weight) || 0 };
+        if (parsed.type === 'recipe_log') return { type: 'recipe_log', name: parsed.name, weight: parseInt(parsed.weight) || 0, ...when };
         if (parsed.type === 'chat') return { type: 'chat', message: parsed.message };
 
         throw new Error('Unexpected response format');
@@ -413,21 +488,18 @@ User says: ${input}`;
 };
 
 export const getMealSuggestion = async (): Promise<string | null> => {
-    const settings = await getSettings();
+    const settings = await getAIConfig();
+    // Optional extras: skip them rather than ask for the passcode
+    if (settings.apiKeyLocked) return null;
     const useHosted = !settings.apiKey && !!auth.currentUser;
     if (!settings.apiKey && !auth.currentUser) return null;
 
     try {
-        const today = format(new Date(), 'yyyy-MM-dd');
+        const today = todayKey({ dayStartHour: settings.dayStartHour });
         const todayMeals = await getMealsByDate(today);
         if (todayMeals.length === 0) return null;
 
-        const totals = todayMeals.reduce((acc, m) => ({
-            calories: acc.calories + (m.totalCalories || 0),
-            protein: acc.protein + (m.parsed[0]?.protein || 0),
-            carbs: acc.carbs + (m.parsed[0]?.carbs || 0),
-            fiber: acc.fiber + (m.parsed[0]?.fiber || 0),
-        }), { calories: 0, protein: 0, carbs: 0, fiber: 0 });
+        const totals = itemTotals(todayMeals.flatMap(m => m.parsed ?? []));
 
         const remaining = {
             calories: Math.max(0, settings.dailyCalories - totals.calories),
@@ -452,26 +524,22 @@ Suggest ONE simple Indian or general meal that helps fill the biggest gap. Keep
 };
 
 export const getSmartObservations = async (): Promise<string | null> => {
-    const settings = await getSettings();
+    const settings = await getAIConfig();
+    // Optional extras: skip them rather than ask for the passcode
+    if (settings.apiKeyLocked) return null;
     const useHosted = !settings.apiKey && !!auth.currentUser;
     if (!settings.apiKey && !auth.currentUser) return null;
 
     try {
-        const allMeals = await getAllMeals();
-        const today = new Date();
-        const last7Dates = Array.from({ length: 7 }, (_, i) => format(subDays(today, i), 'yyyy-MM-dd'));
+        const last7Dates = recentDays(7, { dayStartHour: settings.dayStartHour });
 
-        const recentMeals = allMeals.filter(m => last7Dates.includes(m.date));
-        if (recentMeals.length < 3) return null;
+        const summaries = await getDailySummaries(last7Dates[6], last7Dates[0]);
+        if (summaries.reduce((n, s) => n + s.mealCount, 0) < 3) return null;
 
         const daySummaries = last7Dates.map(date => {
-            const dayMeals = recentMeals.filter(m => m.date === date);
-            if (dayMeals.length === 0) return `${date}: No meals logged`;
-            const cals = dayMeals.reduce((s, m) => s + (m.totalCalories || 0), 0);
-            const pro = dayMeals.reduce((s, m) => s + (m.parsed?.[0]?.protein || 0), 0);
-            const carbs = dayMeals.reduce((s, m) => s + (m.parsed?.[0]?.carbs || 0), 0);
-            const fiber = dayMeals.reduce((s, m) => s + (m.parsed?.[0]?.fiber || 0), 0);
-            return `${date}: ${cals} kcal, ${pro}g pro, ${carbs}g carbs, ${fiber}g fiber (${dayMeals.length} meals)`;
+            const day = summaries.find(s => s.date === date);
+            if (!day || day.mealCount === 0) return `${date}: No meals logged`;
+            return `${date}: ${day.calories} kcal, ${day.protein}g pro, ${day.carbs}g carbs, ${day.fiber}g fiber (${day.mealCount} meals)`;
         }).join('\n');
 
         const prompt = `You are a nutrition analyst. Analyze this user's last 7 days of eating:
@@ -0,0 +1,251 @@
+/**
+ * backup.ts — full backup and restore
+ *
+ * A backup is a single JSON file holding every store (meals, favourites,
+ * weights, recipes, water, activities, settings). Everything goes through db.ts, so backups and
+ * restores behave the same for guests and signed-in users.
+ *
+ * Restore modes:
+ * - merge:   adds records the current data doesn't already have (see dedupe.ts);
+ *            settings are only taken for keys still at their default
+ * - replace: resets all data first, then loads the backup as-is
+ */
+import {
+    getAllMeals, getAllFavourites, getAllWeights, getAllRecipes, getAllWater, getAllActivities, getSettings,
+    putMany, saveSetting,
+    resetAllData, rebuildDailySummaries, DEFAULT_SETTINGS,
+    type Meal, type Favourite, type WeightEntry, type WaterEntry, type Activity, type Recipe, type UserSettings,
+} from './db';
+import { naturalKey } from './dedupe';
+import { settingError } from './settings';
+import { migrateRecord, SCHEMA_VERSION, BASE_SCHEMA_VERSION } from './migrations';
+import type { SyncedCollection } from './db.firestore';
+import { newId, type RecordId } from './ids';
+import { assertComplete } from './bulk';
+
+export const BACKUP_FORMAT = 'meal-tracker-backup';
+export const BACKUP_VERSION = 1;
+
+const STORES: SyncedCollection[] = ['meals', 'favourites', 'weights', 'recipes', 'water', 'activities'];
+
+// Backups are plain files that get emailed and shared. The API key can't end up in
+// one: it lives in the device-local vault (secrets.ts), not in settings.
+
+export interface Backup {
+    format: typeof BACKUP_FORMAT;
+    version: number;         // backup file layout
+    schemaVersion: number;   // record shape (see migrations.ts)
+    exportedAt: number;
+    data: {
+        meals: Meal[];
+        favourites: Favourite[];
+        weights: WeightEntry[];
+        recipes: Recipe[];
+        water: WaterEntry[];
+        activities: Activity[];
+        settings: Partial<UserSettings>;
+    };
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type StoreCounts = Record<SyncedCollection, number>;
+
+export interface RestorePreview {
+    total: StoreCounts;
+    /** Records merge would add — the rest already exist. */
+    new: StoreCounts;
+    settings: number;
+}
+
+// --- Export ---
+export const createBackup = async (): Promise<Backup> => {
+    const [meals, favourites, weights, recipes, water, activities, settings] = await Promise.all([
+        getAllMeals(), getAllFavourites(), getAllWeights(), getAllRecipes(), getAllWater(), getAllActivities(), getSettings(),
+    ]);
+    return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        schemaVersion: SCHEMA_VERSION,
+        exportedAt: Date.now(),
+        data: { meals, favourites, weights, recipes, water, activities, settings },
+    };
+};
+
+export const downloadBackup = async (): Promise<void> => {
+    const backup = await createBackup();
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `meal-tracker-backup-${new Date().toISOString().slice(0, 10)}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- Validation ---
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isDate = (v: unknown) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+const isNumber = (v: unknown) => typeof v === 'number' && Number.isFinite(v);
+
+const VALIDATORS: Record<SyncedCollection, (r: Record<string, unknown>) => boolean> = {
+    meals: r => isDate(r.date) && isNumber(r.timestamp) && typeof r.content === 'string'
+        && Array.isArray(r.parsed) && isNumber(r.totalCalories),
+    favourites: r => typeof r.name === 'string' && typeof r.content === 'string'
+        && Array.isArray(r.parsed) && isNumber(r.totalCalories),
+    weights: r => isDate(r.date) && isNumber(r.weight) && isNumber(r.timestamp),
+    recipes: r => typeof r.name === 'string' && Array.isArray(r.ingredients) && isNumber(r.totalCalories),
+    water: r => isDate(r.date) && isNumber(r.ml) && isNumber(r.timestamp),
+    activities: r => isDate(r.date) && isNumber(r.timestamp) && typeof r.name === 'string' && isNumber(r.minutes) && isNumber(r.calories),
+};
+
+/**
+ * Parses and validates a backup file. Also accepts the old meals-only export
+ * (a bare array of meals). Throws an Error with a user-facing message if the
+ * file can't be restored.
+ */
+export const parseBackup = (text: string): Backup => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error("This file isn't valid JSON.");
+    }
+
+    if (Array.isArray(raw)) {
+        raw = {
+            format: BACKUP_FORMAT, version: 1, schemaVersion: BASE_SCHEMA_VERSION, exportedAt: 0,
+            data: { meals: raw, favourites: [], weights: [], recipes: [], water: [], activities: [], settings: {} },
+        };
+    }
+    if (!isObject(raw) || raw.format !== BACKUP_FORMAT || !isObject(raw.data)) {
+        throw new Error("This doesn't look like a Meal Tracker backup.");
+    }
+    if (!isNumber(raw.version) || (raw.version as number) > BACKUP_VERSION) {
+        throw new Error('This backup was made by a newer version of the app. Update the app and try again.');
+    }
+    const schemaVersion = isNumber(raw.schemaVersion) ? raw.schemaVersion as number : BASE_SCHEMA_VERSION;
+    if (schemaVersion > SCHEMA_VERSION) {
+        throw new Error('This backup was made by a newer version of the app. Update the app and try again.');
+    }
+
+    const data = raw.data;
+    const out = {} as Backup['data'];
+    for (const store of STORES) {
+        const rows = data[store] ?? [];
+        if (!Array.isArray(rows)) throw new Error(`The backup's ${store} section is damaged.`);
+        const bad = rows.findIndex(r => !isObject(r) || !VALIDATORS[store](r));
+        if (bad !== -1) throw new Error(`The backup's ${store} section is damaged (entry ${bad + 1}).`);
+        (out as Record<string, unknown>)[store] = rows.map(r => migrateRecord(store, r, schemaVersion));
+    }
+    const settings = isObject(data.settings) ? data.settings : {};
+    out.settings = Object.fromEntries(Object.entries(settings)
+        .filter(([key]) => key in DEFAULT_SETTINGS)
+        .filter(([key, value]) => settingError(key as keyof UserSettings, value) === null)) as Partial<UserSettings>;
+
+    return {
+        format: BACKUP_FORMAT,
+        version: raw.version as number,
+        schemaVersion: SCHEMA_VERSION,
+        exportedAt: isNumber(raw.exportedAt) ? raw.exportedAt as number : 0,
+        data: out,
+    };
+};
+
+// --- Restore ---
+type AnyRecord = Meal | Favourite | WeightEntry | Recipe | WaterEntry | Activity;
+
+const getAll: Record<SyncedCollection, () => Promise<AnyRecord[]>> = {
+    meals: getAllMeals, favourites: getAllFavourites, weights: getAllWeights, recipes: getAllRecipes, water: getAllWater,
+    activities: getAllActivities,
+};
+
+// Records the current data doesn't have yet, deduplicated within the backup too
+const newRecords = async <S extends SyncedCollection>(store: S, rows: Backup['data'][S]) => {
+    const known = new Set((await getAll[store]()).map(r => naturalKey(store, r)));
+    return (rows as AnyRecord[]).filter(r => {
+        const key = naturalKey(store, r);
+        if (known.has(key)) return false;
+        known.add(key);
+        return true;
+    }) as Backup['data'][S];
+};
+
+// Object-valued settings (slotStarts, nutrientTargets…) are always copies, so they're compared by value
+const stableJson = (value: unknown) => JSON.stringify(value, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b))) : v);
+const sameValue = (a: unknown, b: unknown) => stableJson(a) === stableJson(b);
+
+// Merge only fills keys the user never changed. Replace takes everything.
+const settingsToApply = async (backup: Backup, mode: RestoreMode) => {
+    const entries = Object.entries(backup.data.settings) as [keyof UserSettings, unknown][];
+    if (mode === 'replace') return entries;
+    const current = await getSettings();
+    return entries.filter(([key, value]) =>
+        sameValue(current[key], DEFAULT_SETTINGS[key]) && !sameValue(value, DEFAULT_SETTINGS[key]));
+};
+
+export const previewRestore = async (backup: Backup): Promise<RestorePreview> => {
+    const total = {} as StoreCounts;
+    const added = {} as StoreCounts;
+    for (const store of STORES) {
+        total[store] = backup.data[store].length;
+        added[store] = (await newRecords(store, backup.data[store])).length;
+    }
+    return { total, new: added, settings: Object.keys(backup.data.settings).length };
+};
+
+// Strips the ids and sync bookkeeping from the source device
+const withoutIds = <T extends { id?: RecordId; updatedAt?: number; rev?: string; deleted?: boolean }>(record: T) => {
+    const copy = { ...record };
+    delete copy.id;
+    delete copy.updatedAt;
+    delete copy.rev;
+    delete copy.deleted;
+    return copy as Omit<T, 'id'>;
+};
+
+/**
+ * Restores a parsed backup. Reports progress as records are written and
+ * returns how many records of each kind were added.
+ */
+export const restoreBackup = async (
+    backup: Backup,
+    mode: RestoreMode,
+    onProgress?: (done: number, total: number) => void,
+): Promise<StoreCounts> => {
+    const settings = await settingsToApply(backup, mode);
+    if (mode === 'replace') await resetAllData();
+
+    // After a reset nothing is known, so this only drops duplicates within the backup
+    const rows = {
+        meals: await newRecords('meals', backup.data.meals),
+        favourites: await newRecords('favourites', backup.data.favourites),
+        weights: await newRecords('weights', backup.data.weights),
+        recipes: await newRecords('recipes', backup.data.recipes),
+        water: await newRecords('water', backup.data.water),
+        activities: await newRecords('activities', backup.data.activities),
+    };
+    const total = STORES.reduce((n, s) => n + rows[s].length, 0) + settings.length;
+    let done = 0;
+    const added = {} as StoreCounts;
+    const failed: unknown[] = [];
+
+    // Records get fresh ids up front, so a retried chunk rewrites rather than duplicates
+    const put = async <S extends SyncedCollection>(store: S, records: AnyRecord[]) => {
+        const fresh = records.map(r => ({ ...withoutIds(r), id: newId() })) as Backup['data'][S];
+        const report = await putMany(store, fresh, { onProgress: n => onProgress?.(done + n, total) });
+        done += fresh.length;
+        added[store] = report.written;
+        failed.push(...report.failed);
+    };
+    for (const store of STORES) await put(store, rows[store]);
+    for (const [key, value] of settings) {
+        await saveSetting(key, value as UserSettings[typeof key]);
+        onProgress?.(++done, total);
+    }
+
+    await rebuildDailySummaries();
+    assertComplete({ total, written: total - failed.length, failed }, 'records');
+    return added;
+};
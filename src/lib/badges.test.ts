@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { getDailySummaries, getSettings, setBackend, DEFAULT_SETTINGS, type Meal, type MealItem, type UserSettings } from './db';
+import { createMemoryBackend } from './db.memory';
+import { recentDays } from './days';
+import { withItems } from './items';
+import { computeStreaks, evaluateBadges, lookbackRange, STREAK_WINDOW_DAYS } from './badges';
+
+// Exactly the default goals, so every macro is on target
+const ON_TARGET: MealItem = { food: 'Thali', calories: 2000, protein: 120, fat: 65, carbs: 250, fiber: 30 };
+const OVER: MealItem = { ...ON_TARGET, food: 'Feast', calories: 2600 };
+
+const days = recentDays(STREAK_WINDOW_DAYS);
+
+const meal = (daysAgo: number, item: MealItem): Meal => ({
+    date: days[daysAgo],
+    timestamp: new Date(`${days[daysAgo]}T12:00:00`).getTime(),
+    content: item.food,
+    ...withItems([item]),
+});
+
+// Seeds the meals, then reads back what the badge views would load
+const load = async (meals: Meal[], settings?: Partial<UserSettings>) => {
+    setBackend(createMemoryBackend({ meals, settings }));
+    const [from, to] = lookbackRange(STREAK_WINDOW_DAYS);
+    return { summaries: await getDailySummaries(from, to), settings: await getSettings() };
+};
+
+const badge = (badges: ReturnType<typeof evaluateBadges>, id: string) => badges.find(b => b.id === id)!;
+
+describe('evaluateBadges', () => {
+    it('earns nothing without meals', async () => {
+        const { summaries, settings } = await load([]);
+        const badges = evaluateBadges(summaries, settings);
+        expect(badges.every(b => !b.earned)).toBe(true);
+        expect(badge(badges, 'cal_count_crusader').progress).toBe('0/5 days');
+    });
+
+    it('earns the goal badges for 5 of the last 7 days on target', async () => {
+        const { summaries, settings } = await load([0, 1, 2, 4, 6].map(d => meal(d, ON_TARGET)));
+        const badges = evaluateBadges(summaries, settings);
+        for (const id of ['cal_count_crusader', 'protein_putra', 'fiber_finicky', 'macro_manager']) {
+            expect(badge(badges, id)).toMatchObject({ earned: true, progress: '5/5 days' });
+        }
+        // Days 3 and 5 have no meals, so they don't break the run of logged days
+        expect(badge(badges, 'streak_3')).toMatchObject({ earned: true, progress: '3/3 days' });
+        expect(badge(badges, 'streak_6')).toMatchObject({ earned: false, progress: '5/6 days' });
+    });
+
+    it('only looks at the last week', async () => {
+        const { summaries, settings } = await load([7, 8, 9, 10, 11].map(d => meal(d, ON_TARGET)));
+        expect(badge(evaluateBadges(summaries, settings), 'cal_count_crusader').earned).toBe(false);
+    });
+
+    it('ends the streak at a logged day off target', async () => {
+        const { summaries, settings } = await load([meal(0, ON_TARGET), meal(1, ON_TARGET), meal(2, OVER), meal(3, ON_TARGET)]);
+        const badges = evaluateBadges(summaries, settings);
+        expect(badge(badges, 'streak_3')).toMatchObject({ earned: false, progress: '2/3 days' });
+        // Over on calories only: protein and fiber still count
+        expect(badge(badges, 'protein_putra').progress).toBe('4/5 days');
+        expect(badge(badges, 'cal_count_crusader').progress).toBe('3/5 days');
+    });
+
+    it('judges against the stored goals', async () => {
+        const { summaries, settings } = await load([0, 1, 2, 3, 4].map(d => meal(d, OVER)), { dailyCalories: 2600 });
+        expect(badge(evaluateBadges(summaries, settings), 'cal_count_crusader').earned).toBe(true);
+    });
+
+    it('takes exercise off intake when goals count net calories', async () => {
+        const meals = [0, 1, 2, 3, 4].map(d => meal(d, OVER));
+        const burned = Object.fromEntries(days.slice(0, 5).map(date => [date, 600]));
+
+        const gross = await load(meals);
+        expect(badge(evaluateBadges(gross.summaries, gross.settings, burned), 'cal_count_crusader').earned).toBe(false);
+
+        const net = await load(meals, { netCalories: true });
+        expect(badge(evaluateBadges(net.summaries, net.settings, burned), 'cal_count_crusader').earned).toBe(true);
+    });
+});
+
+describe('computeStreaks', () => {
+    it('counts logged and on-target days back from today', async () => {
+        const { summaries, settings } = await load([meal(0, ON_TARGET), meal(1, OVER), meal(2, ON_TARGET), meal(4, ON_TARGET)]);
+        expect(computeStreaks(summaries, settings)).toEqual({ loggingStreak: 3, onTargetStreak: 1 });
+    });
+
+    it('has no streak until something is logged today', async () => {
+        const { summaries } = await load([meal(1, ON_TARGET), meal(2, ON_TARGET)]);
+        expect(computeStreaks(summaries, DEFAULT_SETTINGS)).toEqual({ loggingStreak: 0, onTargetStreak: 0 });
+    });
+});
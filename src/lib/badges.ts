@@ -1,5 +1,5 @@
-import { type Meal, type UserSettings } from './db';
-import { format, subDays } from 'date-fns';
+import { type DailySummary, type UserSettings } from './db';
+import { recentDays } from './days';
 
 export interface Badge {
     id: string;
@@ -19,6 +19,16 @@ const BADGE_DEFS = [
     { id: 'streak_6', name: '6-Day Streaker', image: '/badges/streak_6.png', description: 'All macros on target for 6 consecutive days' },
 ];
 
+// How far back each evaluation looks — callers only need to load this many days of summaries
+export const BADGE_WINDOW_DAYS = 7;
+export const STREAK_WINDOW_DAYS = 90;
+
+/** Inclusive 'yyyy-MM-dd' range covering the last `days` days, today included. */
+export const lookbackRange = (days: number, dayStartHour?: number): [string, string] => {
+    const keys = recentDays(days, { dayStartHour });
+    return [keys[keys.length - 1], keys[0]];
+};
+
 interface DayTotals {
     calories: number;
     protein: number;
@@ -27,17 +37,14 @@ interface DayTotals {
     hasMeals: boolean;
 }
 
-function getDayTotals(meals: Meal[], date: string): DayTotals {
-    const dayMeals = meals.filter(m => m.date === date);
-    if (dayMeals.length === 0) return { calories: 0, protein: 0, carbs: 0, fiber: 0, hasMeals: false };
-
-    return dayMeals.reduce((acc, m) => ({
-        calories: acc.calories + (m.totalCalories || 0),
-        protein: acc.protein + (m.parsed?.[0]?.protein || 0),
-        carbs: acc.carbs + (m.parsed?.[0]?.carbs || 0),
-        fiber: acc.fiber + (m.parsed?.[0]?.fiber || 0),
-        hasMeals: true,
-    }), { calories: 0, protein: 0, carbs: 0, fiber: 0, hasMeals: true });
+// kcal burned per day (activity.ts burnedByDay), taken off intake when settings.netCalories is on
+type Burned = Record<string, number>;
+
+function getDayTotals(summaries: DailySummary[], date: string, settings: UserSettings, burned: Burned): DayTotals {
+    const day = summaries.find(s => s.date === date);
+    if (!day || day.mealCount === 0) return { calories: 0, protein: 0, carbs: 0, fiber: 0, hasMeals: false };
+    const calories = settings.netCalories ? day.calories - (burned[date] ?? 0) : day.calories;
+    return { calories, protein: day.protein, carbs: day.carbs, fiber: day.fiber, hasMeals: true };
 }
 
 function caloriesOnTarget(totals: DayTotals, settings: UserSettings): boolean {
@@ -70,20 +77,19 @@ export interface StreakInfo {
     onTargetStreak: number;
 }
 
-export function computeStreaks(allMeals: Meal[], settings: UserSettings): StreakInfo {
-    const today = new Date();
-    const days = Array.from({ length: 90 }, (_, i) => format(subDays(today, i), 'yyyy-MM-dd'));
+export function computeStreaks(summaries: DailySummary[], settings: UserSettings, burned: Burned = {}): StreakInfo {
+    const days = recentDays(STREAK_WINDOW_DAYS, { dayStartHour: settings.dayStartHour });
 
     let loggingStreak = 0;
     for (const date of days) {
-        const totals = getDayTotals(allMeals, date);
+        const totals = getDayTotals(summaries, date, settings, burned);
         if (totals.hasMeals) loggingStreak++;
         else break;
     }
 
     let onTargetStreak = 0;
     for (const date of days) {
-        const totals = getDayTotals(allMeals, date);
+        const totals = getDayTotals(summaries, date, settings, burned);
         if (totals.hasMeals && allOnTarget(totals, settings)) onTargetStreak++;
         else break;
     }
@@ -91,10 +97,9 @@ export function computeStreaks(allMeals: Meal[], settings: UserSettings): Streak
     return { loggingStreak, onTargetStreak };
 }
 
-export function evaluateBadges(allMeals: Meal[], settings: UserSettings): Badge[] {
-    const today = new Date();
-    const last7 = Array.from({ length: 7 }, (_, i) => format(subDays(today, i), 'yyyy-MM-dd'));
-    const dayData = last7.map(date => ({ date, totals: getDayTotals(allMeals, date) }));
+export function evaluateBadges(summaries: DailySummary[], settings: UserSettings, burned: Burned = {}): Badge[] {
+    const last7 = recentDays(BADGE_WINDOW_DAYS, { dayStartHour: settings.dayStartHour });
+    const dayData = last7.map(date => ({ date, totals: getDayTotals(summaries, date, settings, burned) }));
     const daysWithMeals = dayData.filter(d => d.totals.hasMeals);
 
     // Count days each goal was hit
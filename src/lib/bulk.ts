@@ -0,0 +1,76 @@
+/**
+ * bulk.ts — large writes in bounded, retried chunks
+ *
+ * Bulk operations (reset, guest import, pushing a long outbox, range delete,
+ * backup restore, CSV import) split their work into chunks of at most
+ * BATCH_SIZE items — Firestore's limit for one writeBatch — and write one chunk
+ * at a time. A failed chunk is retried with backoff; if it keeps failing the
+ * rest still go ahead and its items end up in the report, so the caller can say
+ * exactly what didn't make it instead of leaving data half-written silently.
+ */
+
+export const BATCH_SIZE = 500;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 1000;   // doubled after each failed attempt
+
+export interface BulkOptions {
+    onProgress?: (done: number, total: number) => void;
+    chunkSize?: number;
+    /** A chunk still running after this long counts as failed (Firestore waits forever while offline). */
+    timeout?: number;
+}
+
+export interface BulkReport<T> {
+    total: number;
+    written: number;
+    failed: T[];
+    error?: unknown;   // the last error seen, if anything failed
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withDeadline = <T>(promise: Promise<T>, ms: number | undefined): Promise<T> => {
+    if (!ms) return promise;
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('bulk_timeout')), ms);
+        promise.then(
+            value => { clearTimeout(timer); resolve(value); },
+            err => { clearTimeout(timer); reject(err); },
+        );
+    });
+};
+
+/** Writes `items` in chunks with `writeChunk`, retrying failed chunks, and reports what was written. */
+export const runInChunks = async <T>(
+    items: T[],
+    writeChunk: (chunk: T[]) => Promise<unknown>,
+    { onProgress, chunkSize = BATCH_SIZE, timeout }: BulkOptions = {},
+): Promise<BulkReport<T>> => {
+    const report: BulkReport<T> = { total: items.length, written: 0, failed: [] };
+    for (let start = 0; start < items.length; start += chunkSize) {
+        const chunk = items.slice(start, start + chunkSize);
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await withDeadline(writeChunk(chunk), timeout);
+                report.written += chunk.length;
+                break;
+            } catch (err) {
+                report.error = err;
+                if (attempt === MAX_ATTEMPTS) {
+                    console.error(`Bulk write of ${chunk.length} items failed ${MAX_ATTEMPTS} times:`, err);
+                    report.failed.push(...chunk);
+                    break;
+                }
+                await sleep(RETRY_DELAY * 2 ** (attempt - 1));
+            }
+        }
+        onProgress?.(Math.min(start + chunkSize, items.length), items.length);
+    }
+    return report;
+};
+
+/** Throws a summary error if anything in the report failed to write. */
+export const assertComplete = (report: BulkReport<unknown>, what: string) => {
+    if (report.failed.length === 0) return;
+    throw new Error(`${report.failed.length} of ${report.total} ${what} couldn't be saved. Check your connection and try again.`);
+};
@@ -0,0 +1,48 @@
+/**
+ * changes.ts — change feed behind the db.ts subscriptions
+ *
+ * Every write through db.ts, and every remote change sync.ts pulls into the
+ * signed-in mirror, announces which kinds of data changed. Listeners in this tab
+ * hear it directly; other tabs of the app hear it over a BroadcastChannel, since
+ * they share the same IndexedDB. Announcements are coalesced briefly so a bulk
+ * import triggers a handful of re-reads rather than one per record.
+ */
+
+export type ChangeTopic = 'meals' | 'favourites' | 'weights' | 'recipes' | 'water' | 'activities' | 'settings' | 'secrets';
+
+/** Everything stored by the active backend — the device-local `secrets` vault (secrets.ts) isn't. */
+export const ALL_TOPICS: ChangeTopic[] = ['meals', 'favourites', 'weights', 'recipes', 'water', 'activities', 'settings'];
+
+const CHANNEL_NAME = 'meal-tracker-changes';
+const COALESCE_MS = 50;
+
+const listeners = new Set<(topics: Set<ChangeTopic>) => void>();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+let pending = new Set<ChangeTopic>();
+let flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+const deliver = (topics: Set<ChangeTopic>) => listeners.forEach(listener => listener(topics));
+
+channel?.addEventListener('message', (event: MessageEvent<ChangeTopic[]>) => deliver(new Set(event.data)));
+
+const flush = () => {
+    flushTimer = undefined;
+    const topics = pending;
+    pending = new Set();
+    deliver(topics);
+    channel?.postMessage([...topics]);
+};
+
+/** Announces that data of these kinds changed, in this tab and in other open tabs. */
+export const notifyChange = (...topics: ChangeTopic[]) => {
+    topics.forEach(t => pending.add(t));
+    flushTimer ??= setTimeout(flush, COALESCE_MS);
+};
+
+/** Calls `listener` whenever any of `topics` changes. Returns an unsubscribe function. */
+export const onChange = (topics: ChangeTopic[], listener: () => void): (() => void) => {
+    const wrapped = (changed: Set<ChangeTopic>) => { if (topics.some(t => changed.has(t))) listener(); };
+    listeners.add(wrapped);
+    return () => { listeners.delete(wrapped); };
+};
@@ -0,0 +1,55 @@
+/**
+ * crypto.ts — WebCrypto helpers shared by the API key vault (secrets.ts) and
+ * end-to-end encryption of synced data (e2e.ts). AES-GCM with a fresh 96-bit IV
+ * per message; passwords are stretched with PBKDF2-SHA-256.
+ */
+
+const PBKDF2_ITERATIONS = 600_000;
+
+export interface Sealed {
+    iv: Uint8Array<ArrayBuffer>;
+    data: ArrayBuffer;
+}
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const seal = async (key: CryptoKey, text: string): Promise<Sealed> => {
+    const iv = randomBytes(12);
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+    return { iv, data };
+};
+
+/** Throws if the key is wrong or the data was tampered with. */
+export const unseal = async (key: CryptoKey, sealed: Sealed): Promise<string> =>
+    new TextDecoder().decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data));
+
+/** An AES-GCM key from a password. `usages` defaults to encrypting data; pass wrap usages for key-encryption keys. */
+export const deriveKey = async (
+    password: string,
+    salt: Uint8Array<ArrayBuffer>,
+    usages: KeyUsage[] = ['encrypt', 'decrypt'],
+): Promise<CryptoKey> => {
+    const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        base,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        usages,
+    );
+};
+
+// --- Text encoding, for storing sealed values in Firestore ---
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array) =>
+    btoa(String.fromCharCode(...new Uint8Array(bytes)));
+
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> =>
+    Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+/** A Sealed value as one string: `<iv>.<ciphertext>`, both base64. */
+export const sealedToString = (sealed: Sealed) => `${toBase64(sealed.iv)}.${toBase64(sealed.data)}`;
+
+export const sealedFromString = (text: string): Sealed => {
+    const [iv, data] = text.split('.');
+    return { iv: fromBase64(iv), data: fromBase64(data).buffer };
+};
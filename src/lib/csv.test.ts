@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getAllMeals, getDailySummaries, setBackend } from './db';
+import { createMemoryBackend } from './db.memory';
+import { guessDateFormat, guessMapping, importMeals, mapRows, parseCsv, toCsv } from './csv';
+
+const EXPORT_HEADER = [
+    'Date', 'Time', 'Meal', 'Entry', 'Food', 'Calories', 'Protein (g)', 'Fat (g)', 'Carbs (g)', 'Fiber (g)',
+    'Sugar (g)', 'Added sugar (g)', 'Saturated fat (g)', 'Sodium (mg)', 'Potassium (mg)', 'Cholesterol (mg)', 'Calcium (mg)', 'Iron (mg)',
+];
+
+describe('parseCsv and toCsv', () => {
+    it('reads quoted fields, escaped quotes and CRLF line endings', () => {
+        expect(parseCsv('a,"b, c","say ""hi"""\r\n1,2,3\r\n')).toEqual([['a', 'b, c', 'say "hi"'], ['1', '2', '3']]);
+        expect(parseCsv('"two\nlines",x\n')).toEqual([['two\nlines', 'x']]);
+    });
+
+    it('round-trips what it writes', () => {
+        const rows = [['Dal, rice', 'a "big" bowl', 'plain'], ['1', '2.5', '']];
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+});
+
+describe('guessMapping', () => {
+    it('recognises the columns of our own export', () => {
+        expect(guessMapping(EXPORT_HEADER)).toEqual({
+            date: 0, time: 1, meal: 2, entry: 3, food: 4, calories: 5, protein: 6, fat: 7, carbs: 8, fiber: 9,
+            sugar: 10, addedSugar: 11, saturatedFat: 12, sodium: 13, potassium: 14, cholesterol: 15, calcium: 16, iron: 17,
+        });
+    });
+
+    it('recognises other trackers and marks missing columns', () => {
+        const mapping = guessMapping(['Day', 'Group', 'Food Name', 'Energy (kcal)', 'Protein (g)', 'Total Fat', 'Carbohydrates (g)', 'Sugars (g)', 'Sodium (mg)']);
+        expect(mapping).toMatchObject({
+            date: 0, meal: 1, food: 2, calories: 3, protein: 4, fat: 5, carbs: 6, sugar: 7, sodium: 8,
+            time: -1, entry: -1, fiber: -1, saturatedFat: -1,
+        });
+    });
+});
+
+describe('guessDateFormat', () => {
+    it('picks the format every value parses with', () => {
+        expect(guessDateFormat(['2026-03-01', '2026-03-14'])).toBe('yyyy-MM-dd');
+        expect(guessDateFormat(['03/01/2026', '03/14/2026'])).toBe('MM/dd/yyyy');
+        expect(guessDateFormat(['01/03/2026', '14/03/2026'])).toBe('dd/MM/yyyy');
+        expect(guessDateFormat(['14.03.2026'])).toBe('dd.MM.yyyy');
+    });
+});
+
+describe('mapRows', () => {
+    const mapping = guessMapping(EXPORT_HEADER);
+
+    it('groups the foods of one entry into a meal with the slot from its name', () => {
+        const [row] = mapRows([
+            ['2026-03-01', '13:05', 'Lunch', 'dal and rice', 'Dal', '300', '15', '8', '40', '9'],
+            ['2026-03-01', '13:05', 'Lunch', 'dal and rice', 'Rice', '200', '4', '1', '45', '1'],
+        ], mapping, 'yyyy-MM-dd');
+        expect(row.meal).toMatchObject({
+            date: '2026-03-01',
+            timestamp: new Date(2026, 2, 1, 13, 5).getTime(),
+            content: 'dal and rice',
+            slot: 'lunch',
+            totalCalories: 500,
+        });
+        expect(row.meal!.parsed.map(item => item.food)).toEqual(['Dal', 'Rice']);
+    });
+
+    it("keeps rows without time, meal or entry apart, in file order, and reports those it can't read", () => {
+        const byDay = guessMapping(['Date', 'Food', 'Calories']);
+        const rows = mapRows([['2026-03-01', 'Apple', '95'], ['someday', 'Pear', '100'], ['2026-03-01', 'Apple', '95']], byDay, 'yyyy-MM-dd');
+        expect(rows.map(r => r.meal?.content ?? r.error)).toEqual(['Apple', 'Unreadable date "someday"', 'Apple']);
+        // Noon, plus the row index so they stay distinct
+        expect(rows[2].meal!.timestamp - rows[0].meal!.timestamp).toBe(2);
+    });
+
+    it('reads times in either clock, and the meal name when there is none', () => {
+        const rows = mapRows([
+            ['2026-03-01', '7:30 pm', '', '', 'Soup', '100', '', '', '', ''],
+            ['2026-03-01', '', 'Breakfast', '', 'Oats', '150', '', '', '', ''],
+        ], mapping, 'yyyy-MM-dd');
+        expect(new Date(rows[0].meal!.timestamp).getHours()).toBe(19);
+        expect(rows[0].meal!.slot).toBeUndefined();
+        expect(new Date(rows[1].meal!.timestamp).getHours()).toBe(8);
+    });
+
+    it('reads the nutrients a row gives, leaving empty ones unknown', () => {
+        const [row] = mapRows([
+            ['2026-03-01', '', '', '', 'Cake', '400', '5', '20', '50', '1', '30', '', '9,5', '200', 'n/a', '', '', ''],
+        ], mapping, 'yyyy-MM-dd');
+        expect(row.meal!.parsed[0].nutrients).toEqual({ sugar: 30, saturatedFat: 9.5, sodium: 200 });
+    });
+
+    it('reads decimal commas and thousands separators', () => {
+        const [row] = mapRows([['01.03.2026', '', '', '', 'Cake', '1,234', '12,5', '1.234,5', '1,234.5', 'n/a']], mapping, 'dd.MM.yyyy');
+        expect(row.meal!.parsed[0]).toMatchObject({ calories: 1234, protein: 12.5, fat: 1234.5, carbs: 1234.5, fiber: 0 });
+    });
+});
+
+describe('importMeals', () => {
+    beforeEach(() => setBackend(createMemoryBackend()));
+
+    it('saves the meals, skips ones already logged and rebuilds the daily totals', async () => {
+        const rows = mapRows([
+            ['2026-03-01', '08:00', 'Breakfast', 'oats', 'Oats', '150', '5', '3', '27', '4'],
+            ['2026-03-01', '13:00', 'Lunch', 'dal', 'Dal', '300', '15', '8', '40', '9'],
+            ['bad date', '', '', '', 'Pear', '100', '', '', '', ''],
+        ], guessMapping(EXPORT_HEADER), 'yyyy-MM-dd');
+
+        expect(await importMeals(rows)).toEqual({ imported: 2, duplicates: 0, invalid: 1, failed: 0 });
+        expect(await importMeals(rows)).toEqual({ imported: 0, duplicates: 2, invalid: 1, failed: 0 });
+        expect(await getAllMeals()).toHaveLength(2);
+        expect(await getDailySummaries('2026-03-01', '2026-03-01')).toMatchObject([{ calories: 450, mealCount: 2 }]);
+    });
+});
@@ -0,0 +1,279 @@
+/**
+ * csv.ts — CSV import/export of meal history
+ *
+ * Import maps the columns of another tracker's export (MyFitnessPal, Cronometer,
+ * spreadsheets) onto meal fields. guessMapping() pre-fills the mapping from the
+ * header row; the user confirms or corrects it in CsvImportModal before anything
+ * is written. Rows are foods: those sharing a date, time, meal name and entry
+ * become one meal with an item each, and rows with none of those columns are
+ * a meal each.
+ *
+ * Export writes one row per food item (from Meal.parsed), with the meal's slot,
+ * what was typed for it (the entry) and a column per tracked nutrient (empty
+ * when not known), plus a separate weights file. The meals file uses headers
+ * guessMapping() recognises, so it re-imports cleanly.
+ */
+import { format, parse, isValid } from 'date-fns';
+import {
+    putMany, getAllMeals, getAllWeights, getSettings, rebuildDailySummaries,
+    type Meal, type MealItem, type MealSlot, type NutrientKey,
+} from './db';
+import { naturalKey } from './dedupe';
+import { newId } from './ids';
+import { withItems } from './items';
+import { NUTRIENTS, NUTRIENT_KEYS, readNutrients, withNutrients } from './nutrients';
+import { mealSlot, SLOT_LABELS } from './slots';
+
+// --- Parsing and formatting ---
+/** RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF line endings. */
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const src = text.replace(/^\uFEFF/, '');   // Excel adds a BOM
+
+    for (let i = 0; i < src.length; i++) {
+        const ch = src[i];
+        if (quoted) {
+            if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field); field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && src[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            if (row.some(f => f.trim() !== '')) rows.push(row);
+            row = [];
+        } else {
+            field += ch;
+        }
+    }
+    row.push(field);
+    if (row.some(f => f.trim() !== '')) rows.push(row);
+    return rows;
+};
+
+const escape = (value: string | number) => {
+    const s = String(value);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+    rows.map(r => r.map(escape).join(',')).join('\r\n') + '\r\n';
+
+const downloadCsv = (rows: (string | number)[][], name: string) => {
+    const blob = new Blob([toCsv(rows)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name}-${new Date().toISOString().slice(0, 10)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+// --- Export ---
+export const exportMealsCsv = async (): Promise<void> => {
+    const [meals, settings] = await Promise.all([getAllMeals(), getSettings()]);
+    meals.sort((a, b) => a.timestamp - b.timestamp);
+    const rows: (string | number)[][] = [[
+        'Date', 'Time', 'Meal', 'Entry', 'Food', 'Calories', 'Protein (g)', 'Fat (g)', 'Carbs (g)', 'Fiber (g)',
+        ...NUTRIENTS.map(n => `${n.label} (${n.unit})`),
+    ]];
+    meals.forEach(meal => {
+        const time = format(meal.timestamp, 'HH:mm');
+        const slot = SLOT_LABELS[mealSlot(meal, settings.slotStarts)];
+        (meal.parsed ?? []).forEach(item => {
+            rows.push([
+                meal.date, time, slot, meal.content, item.food, item.calories, item.protein, item.fat, item.carbs, item.fiber,
+                ...NUTRIENT_KEYS.map(key => item.nutrients?.[key] ?? ''),
+            ]);
+        });
+    });
+    downloadCsv(rows, 'meal-tracker-meals');
+};
+
+export const exportWeightsCsv = async (): Promise<void> => {
+    const weights = (await getAllWeights()).sort((a, b) => a.timestamp - b.timestamp);
+    const rows: (string | number)[][] = [['Date', 'Time', 'Weight (kg)']];
+    weights.forEach(w => rows.push([w.date, format(w.timestamp, 'HH:mm'), w.weight]));
+    downloadCsv(rows, 'meal-tracker-weights');
+};
+
+// --- Column mapping ---
+const ENTRY_FIELDS = ['date', 'time', 'meal', 'entry', 'food', 'calories', 'protein', 'fat', 'carbs', 'fiber'] as const;
+export type MealField = typeof ENTRY_FIELDS[number] | NutrientKey;
+export const MEAL_FIELDS: MealField[] = [...ENTRY_FIELDS, ...NUTRIENT_KEYS];
+
+/** Column index for each field, or -1 when the file has no such column. */
+export type ColumnMapping = Record<MealField, number>;
+
+export const DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy'] as const;
+export type DateFormat = typeof DATE_FORMATS[number];
+
+// Header names seen in common exports, compared after normalize()
+const ALIASES: Record<MealField, string[]> = {
+    date: ['date', 'day', 'logged date'],
+    time: ['time', 'logged time'],
+    meal: ['meal', 'group', 'meal name', 'category', 'meal type'],
+    entry: ['entry', 'meal entry', 'logged as'],
+    food: ['food', 'food name', 'description', 'item', 'name'],
+    calories: ['calories', 'energy', 'kcal', 'energy kcal', 'calories kcal'],
+    protein: ['protein', 'protein g'],
+    fat: ['fat', 'fat g', 'total fat'],
+    carbs: ['carbs', 'carbohydrates', 'carbs g', 'carbohydrates g', 'total carbohydrate'],
+    fiber: ['fiber', 'fibre', 'fiber g', 'fibre g', 'dietary fiber'],
+    sugar: ['sugar', 'sugar g', 'sugars', 'sugars g', 'total sugars'],
+    addedSugar: ['added sugar', 'added sugar g', 'added sugars', 'added sugars g'],
+    saturatedFat: ['saturated fat', 'saturated fat g', 'saturated', 'sat fat', 'fat saturated'],
+    sodium: ['sodium', 'sodium mg'],
+    potassium: ['potassium', 'potassium mg'],
+    cholesterol: ['cholesterol', 'cholesterol mg'],
+    calcium: ['calcium', 'calcium mg'],
+    iron: ['iron', 'iron mg'],
+};
+
+// "Energy (kcal)" → "energy kcal", "Protein (g)" → "protein g"
+const normalize = (header: string) => header.toLowerCase().replace(/[()[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalize);
+    return Object.fromEntries(MEAL_FIELDS.map(field => [
+        field,
+        normalized.findIndex(h => ALIASES[field].includes(h)),
+    ])) as ColumnMapping;
+};
+
+/** Picks the date format that parses every sampled value, preferring ISO. */
+export const guessDateFormat = (values: string[]): DateFormat => {
+    const sample = values.filter(Boolean).slice(0, 50);
+    return DATE_FORMATS.find(f => sample.every(v => parseDate(v, f))) ?? 'yyyy-MM-dd';
+};
+
+const parseDate = (value: string, dateFormat: DateFormat): string | null => {
+    // Some exports append a time to the date column
+    const d = parse(value.trim().split(/[ T]/)[0], dateFormat, new Date());
+    return isValid(d) ? format(d, 'yyyy-MM-dd') : null;
+};
+
+// A comma after any dot is the decimal point ("12,5", "1.234,5"), unless it only
+// groups thousands ("1,234"); otherwise commas group thousands ("1,234.5")
+const parseNumber = (value: string | undefined) => {
+    const text = (value ?? '').trim();
+    const decimalComma = text.lastIndexOf(',') > text.lastIndexOf('.') && !/^\d{1,3}(?:,\d{3})+$/.test(text);
+    const n = parseFloat(decimalComma ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, ''));
+    return Number.isFinite(n) ? n : 0;
+};
+
+// Meal names ("Breakfast", "Snacks") give the slot, and a typical time for rows without one
+const MEAL_NAMES: [RegExp, string, MealSlot][] = [
+    [/breakfast/i, '08:00', 'breakfast'],
+    [/lunch/i, '13:00', 'lunch'],
+    [/dinner|supper/i, '19:30', 'dinner'],
+    [/snack/i, '16:00', 'snack'],
+];
+
+const parseTime = (value: string | undefined, mealName: string) => {
+    const match = value?.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+    if (match) {
+        let hours = parseInt(match[1], 10);
+        const meridiem = match[3]?.toLowerCase();
+        if (meridiem === 'pm' && hours < 12) hours += 12;
+        if (meridiem === 'am' && hours === 12) hours = 0;
+        if (hours > 23) return '12:00';
+        return `${String(hours).padStart(2, '0')}:${match[2]}`;
+    }
+    return MEAL_NAMES.find(([re]) => re.test(mealName))?.[1] ?? '12:00';
+};
+
+export interface MappedRow {
+    meal: Omit<Meal, 'id'> | null;   // null when the row can't be imported
+    error?: string;
+}
+
+/**
+ * Applies a mapping to the data rows (header excluded): one entry per meal,
+ * in file order, plus one per row that can't be read.
+ */
+export const mapRows = (rows: string[][], mapping: ColumnMapping, dateFormat: DateFormat): MappedRow[] => {
+    const groups = new Map<string, { date: string; time: string; mealName: string; entry: string; index: number; items: MealItem[] }>();
+    const mapped: (MappedRow | string)[] = [];   // a string is the key of a group, filled in below
+
+    rows.forEach((row, index) => {
+        const cell = (field: MealField) => mapping[field] >= 0 ? row[mapping[field]]?.trim() ?? '' : '';
+        const date = parseDate(cell('date'), dateFormat);
+        if (!date) {
+            mapped.push({ meal: null, error: `Unreadable date "${cell('date')}"` });
+            return;
+        }
+
+        const mealName = cell('meal');
+        const entry = cell('entry');
+        const item: MealItem = {
+            food: cell('food') || entry || mealName || 'Imported entry',
+            calories: parseNumber(cell('calories')),
+            protein: parseNumber(cell('protein')),
+            fat: parseNumber(cell('fat')),
+            carbs: parseNumber(cell('carbs')),
+            fiber: parseNumber(cell('fiber')),
+            // Only cells with a number: an empty or "n/a" one means not known, not 0
+            ...withNutrients(readNutrients(Object.fromEntries(
+                NUTRIENT_KEYS.filter(key => /\d/.test(cell(key))).map(key => [key, parseNumber(cell(key))]),
+            ))),
+        };
+        // Nothing to tell meals apart by: each row is its own
+        const key = cell('time') || mealName || entry ? JSON.stringify([date, cell('time'), mealName, entry]) : `row:${index}`;
+        const group = groups.get(key);
+        if (group) {
+            group.items.push(item);
+            return;
+        }
+        groups.set(key, { date, time: parseTime(cell('time'), mealName), mealName, entry, index, items: [item] });
+        mapped.push(key);
+    });
+
+    return mapped.map(row => {
+        if (typeof row !== 'string') return row;
+        const { date, time, mealName, entry, index, items } = groups.get(row)!;
+        const slot = MEAL_NAMES.find(([re]) => re.test(mealName))?.[2];
+        return {
+            meal: {
+                date,
+                // The row index keeps entries logged at the same minute distinct and in file order
+                timestamp: parse(`${date} ${time}`, 'yyyy-MM-dd HH:mm', new Date()).getTime() + index,
+                content: entry || items.map(item => item.food).join(', '),
+                ...withItems(items),
+                // Without a meal name the slot comes from the time when shown (slots.ts)
+                ...(slot && { slot }),
+            },
+        };
+    });
+};
+
+export interface CsvImportResult {
+    imported: number;
+    duplicates: number;   // already in the log, e.g. the same file imported twice
+    invalid: number;
+    failed: number;       // couldn't be saved even after retrying
+}
+
+export const importMeals = async (
+    rows: MappedRow[],
+    onProgress?: (done: number, total: number) => void,
+): Promise<CsvImportResult> => {
+    const known = new Set((await getAllMeals()).map(m => naturalKey('meals', m)));
+    const valid = rows.flatMap(r => r.meal ? [r.meal] : []);
+    const fresh = valid.filter(m => !known.has(naturalKey('meals', m as Meal)));
+
+    const report = await putMany('meals', fresh.map(m => ({ ...m, id: newId() })), { onProgress });
+    await rebuildDailySummaries();
+    return {
+        imported: report.written,
+        duplicates: valid.length - fresh.length,
+        invalid: rows.length - valid.length,
+        failed: report.failed.length,
+    };
+};
@@ -0,0 +1,62 @@
+/**
+ * days.ts — which day a moment belongs to
+ *
+ * Every 'yyyy-MM-dd' day key in the app (a meal's `date`, today's meals on
+ * Home, History ranges, badges and streaks) comes from dayKey(), so they all
+ * agree on where one day ends.
+ *
+ * A day runs from `dayStartHour` (setting, 0–12) to the same hour the next
+ * morning: with 4, a 1am dinner still counts towards the evening before. Keys
+ * are read in the device's time zone unless one is given, and a meal's key is
+ * fixed when it is logged (together with the zone, see zoneAt()), so meals
+ * logged while travelling stay on the day they were eaten. Changing the
+ * setting doesn't move meals already logged.
+ */
+
+export interface DayOptions {
+    dayStartHour?: number;
+    timeZone?: string;   // IANA name; the device's zone when omitted
+}
+
+const HOUR = 60 * 60 * 1000;
+
+/** The 'yyyy-MM-dd' day `at` belongs to. */
+export const dayKey = (at: number | Date, { dayStartHour = 0, timeZone }: DayOptions = {}): string =>
+    // en-CA formats dates as yyyy-MM-dd
+    new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+        .format(new Date(at).getTime() - dayStartHour * HOUR);
+
+export const todayKey = (options?: DayOptions): string => dayKey(Date.now(), options);
+
+/** The key `days` days after `key` (before, if negative). */
+export const shiftDay = (key: string, days: number): string => {
+    const d = new Date(`${key}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+};
+
+/** The last `count` day keys, today first. */
+export const recentDays = (count: number, options?: DayOptions): string[] => {
+    const today = todayKey(options);
+    return Array.from({ length: count }, (_, i) => shiftDay(today, -i));
+};
+
+/** The device's IANA time zone, e.g. "Asia/Kolkata". */
+export const localTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/** Where a meal logged for `at` was logged from, stored on the meal. */
+export const zoneAt = (at: number): { timeZone: string; utcOffset: number } => ({
+    timeZone: localTimeZone(),
+    utcOffset: -new Date(at).getTimezoneOffset(),   // minutes east of UTC
+});
+
+/** Whether `timeZone` is a zone this runtime knows. */
+export const isTimeZone = (timeZone: unknown): timeZone is string => {
+    if (typeof timeZone !== 'string' || !timeZone) return false;
+    try {
+        new Intl.DateTimeFormat('en-CA', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
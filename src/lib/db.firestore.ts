@@ -3,121 +3,507 @@ import {
     doc,
     getDoc,
     getDocs,
+    onSnapshot,
     setDoc,
-    deleteDoc,
+    updateDoc,
+    deleteField,
+    runTransaction,
+    writeBatch,
     query,
     where,
+    serverTimestamp,
+    Timestamp,
+    type DocumentData,
+    type DocumentReference,
 } from 'firebase/firestore';
 import { firestore } from './firebase';
-import type { Meal, Favourite, WeightEntry, Recipe, UserSettings } from './db.idb';
+import type { Meal, Favourite, WeightEntry, WaterEntry, Activity, Recipe, UserSettings, SyncMeta, DailySummary } from './db.idb';
+import { applyMealChange, buildSummaries } from './summaries';
 import { DEFAULT_SETTINGS } from './db.idb';
+import { migrateRecord, BASE_SCHEMA_VERSION, SCHEMA_VERSION } from './migrations';
+import type { StorageBackend, Trash, TrashStore } from './storage';
+import { newId, type RecordId } from './ids';
+import { runInChunks, assertComplete, type BulkOptions, type BulkReport } from './bulk';
+import { encryptRecord, decryptRecord, encryptSetting, decryptSetting, keepsRemoteSummaries } from './e2e';
 
-// Generate a unique numeric ID usable as both a JS number and Firestore doc path
-const genId = (): number => Date.now() + Math.floor(Math.random() * 1000);
+export type SyncedCollection = 'meals' | 'favourites' | 'weights' | 'recipes' | 'water' | 'activities';
+
+// Every write carries a server-assigned syncedAt so other devices can pull
+// changes incrementally without trusting this device's clock, and the schema
+// version its shape matches so readers know which migrations to apply.
+const stamped = <T extends object>(record: T) => ({ ...record, syncedAt: serverTimestamp(), schemaVersion: SCHEMA_VERSION });
+
+// Purged records are written as tombstones rather than removed (see sync.ts)
+const tombstone = (id: RecordId) => ({ id, deleted: true, updatedAt: Date.now(), rev: crypto.randomUUID() });
+
+// Splits the stamps off a document read straight from Firestore
+const unstamp = (data: DocumentData) => {
+    const { syncedAt, schemaVersion, ...record } = data;
+    return {
+        record,
+        syncedAt: syncedAt instanceof Timestamp ? syncedAt.toMillis() : 0,
+        schemaVersion: typeof schemaVersion === 'number' ? schemaVersion : BASE_SCHEMA_VERSION,
+    };
+};
+
+// What a record looks like in Firestore: stamped, and encrypted when the user
+// has end-to-end encryption on (see e2e.ts)
+const toDoc = async (uid: string, col: SyncedCollection, record: object) => stamped(await encryptRecord(uid, col, record));
+
+// Lazy migration: documents written by older versions of the app are brought
+// up to the current shape on read, and saved in it the next time they're written
+const fromDoc = async <T>(uid: string, col: SyncedCollection, data: DocumentData) => {
+    const { record, syncedAt, schemaVersion } = unstamp(data);
+    return { record: migrateRecord<T>(col, await decryptRecord(uid, record), schemaVersion), syncedAt };
+};
+
+// --- Batched writes ---
+// Bulk work goes up in writeBatch chunks (see bulk.ts) rather than one request per document
+type BatchOp = { ref: DocumentReference; data: DocumentData } | { ref: DocumentReference; data: null };
+
+const BATCH_TIMEOUT = 30_000;
+
+const commitInBatches = (ops: BatchOp[], options: BulkOptions = {}): Promise<BulkReport<BatchOp>> =>
+    runInChunks(ops, async chunk => {
+        const batch = writeBatch(firestore);
+        chunk.forEach(op => op.data ? batch.set(op.ref, op.data) : batch.delete(op.ref));
+        await batch.commit();
+    }, { timeout: BATCH_TIMEOUT, ...options });
+
+const live = async <T extends SyncMeta>(uid: string, col: SyncedCollection, docs: { data: () => DocumentData }[]): Promise<T[]> =>
+    (await Promise.all(docs.map(async d => (await fromDoc<T>(uid, col, d.data())).record))).filter(r => !r.deleted && !r.deletedAt);
 
 // --- Meals ---
-export const addMeal = async (uid: string, meal: Omit<Meal, 'id'>): Promise<number> => {
-    const id = genId();
-    await setDoc(doc(firestore, 'users', uid, 'meals', String(id)), { ...meal, id });
+// Every meal write (including tombstones) runs in a transaction that also
+// updates /users/{uid}/dailySummaries/{date} — except with end-to-end encryption
+// on, where the server keeps no per-day totals
+const writeMeal = async (uid: string, meal: Meal) => {
+    const mealRef = doc(firestore, 'users', uid, 'meals', meal.id!);
+    const summaryRef = (date: string) => doc(firestore, 'users', uid, 'dailySummaries', date);
+    const data = await toDoc(uid, 'meals', meal);
+    if (!keepsRemoteSummaries(uid)) {
+        await setDoc(mealRef, data);
+        return;
+    }
+    await runTransaction(firestore, async tx => {
+        const before = await tx.get(mealRef);
+        await applyMealChange(before.exists() ? (await fromDoc<Meal>(uid, 'meals', before.data())).record : null, meal, {
+            get: async date => {
+                const snap = await tx.get(summaryRef(date));
+                return snap.exists() ? snap.data() as DailySummary : undefined;
+            },
+            put: async summary => tx.set(summaryRef(summary.date), summary),
+            remove: async date => tx.delete(summaryRef(date)),
+        });
+        tx.set(mealRef, data);
+    });
+};
+
+export const addMeal = async (uid: string, meal: Omit<Meal, 'id'>): Promise<RecordId> => {
+    const id = newId();
+    await writeMeal(uid, { ...meal, id });
     return id;
 };
 
 export const getMealsByDate = async (uid: string, date: string): Promise<Meal[]> => {
     const q = query(collection(firestore, 'users', uid, 'meals'), where('date', '==', date));
     const snap = await getDocs(q);
-    return snap.docs.map(d => d.data() as Meal);
+    return live<Meal>(uid, 'meals', snap.docs);
+};
+
+export const getMealsInRange = async (uid: string, from: string, to: string): Promise<Meal[]> => {
+    const q = query(collection(firestore, 'users', uid, 'meals'), where('date', '>=', from), where('date', '<=', to));
+    const snap = await getDocs(q);
+    return live<Meal>(uid, 'meals', snap.docs);
 };
 
 export const getAllMeals = async (uid: string): Promise<Meal[]> => {
     const snap = await getDocs(collection(firestore, 'users', uid, 'meals'));
-    return snap.docs.map(d => d.data() as Meal);
+    return live<Meal>(uid, 'meals', snap.docs);
 };
 
 export const updateMeal = async (uid: string, meal: Meal): Promise<void> => {
-    await setDoc(doc(firestore, 'users', uid, 'meals', String(meal.id)), meal);
+    await writeMeal(uid, meal);
+};
+
+export const deleteMeal = (uid: string, id: RecordId) => setDeletedAt(uid, 'meals', id, Date.now());
+
+// --- Daily summaries ---
+export const getDailySummaries = async (uid: string, from: string, to: string): Promise<DailySummary[]> => {
+    const q = query(collection(firestore, 'users', uid, 'dailySummaries'), where('date', '>=', from), where('date', '<=', to));
+    const snap = await getDocs(q);
+    return snap.docs.map(d => d.data() as DailySummary);
+};
+
+export const rebuildDailySummaries = async (uid: string): Promise<void> => {
+    // Per-day totals would give away what end-to-end encryption hides
+    const [summaries, existing] = await Promise.all([
+        keepsRemoteSummaries(uid) ? getAllMeals(uid).then(buildSummaries) : [],
+        getDocs(collection(firestore, 'users', uid, 'dailySummaries')),
+    ]);
+    const keep = new Set(summaries.map(s => s.date));
+    const report = await commitInBatches([
+        ...existing.docs.filter(d => !keep.has(d.id)).map(d => ({ ref: d.ref, data: null })),
+        ...summaries.map(s => ({ ref: doc(firestore, 'users', uid, 'dailySummaries', s.date), data: s })),
+    ]);
+    assertComplete(report, 'daily totals');
 };
 
-export const deleteMeal = async (uid: string, id: number): Promise<void> => {
-    await deleteDoc(doc(firestore, 'users', uid, 'meals', String(id)));
+// Firestore's limit on values in an `in` query
+const IN_QUERY_LIMIT = 30;
+
+/** Recomputes the totals of just these days from their meals — after putRecords wrote meals without them. */
+export const refreshDailySummaries = async (uid: string, dates: string[]): Promise<void> => {
+    const days = [...new Set(dates.filter(Boolean))];
+    if (days.length === 0 || !keepsRemoteSummaries(uid)) return;
+    const meals: Meal[] = [];
+    for (let i = 0; i < days.length; i += IN_QUERY_LIMIT) {
+        const q = query(collection(firestore, 'users', uid, 'meals'), where('date', 'in', days.slice(i, i + IN_QUERY_LIMIT)));
+        meals.push(...await live<Meal>(uid, 'meals', (await getDocs(q)).docs));
+    }
+    const summaries = buildSummaries(meals);
+    const keep = new Set(summaries.map(s => s.date));
+    const summaryRef = (date: string) => doc(firestore, 'users', uid, 'dailySummaries', date);
+    const report = await commitInBatches([
+        ...days.filter(date => !keep.has(date)).map(date => ({ ref: summaryRef(date), data: null })),
+        ...summaries.map(s => ({ ref: summaryRef(s.date), data: s })),
+    ]);
+    assertComplete(report, 'daily totals');
 };
 
 // --- Favourites ---
-export const addFavourite = async (uid: string, fav: Omit<Favourite, 'id'>): Promise<number> => {
-    const id = genId();
-    await setDoc(doc(firestore, 'users', uid, 'favourites', String(id)), { ...fav, id });
+export const addFavourite = async (uid: string, fav: Omit<Favourite, 'id'>): Promise<RecordId> => {
+    const id = newId();
+    await setDoc(doc(firestore, 'users', uid, 'favourites', id), await toDoc(uid, 'favourites', { ...fav, id }));
     return id;
 };
 
 export const getAllFavourites = async (uid: string): Promise<Favourite[]> => {
     const snap = await getDocs(collection(firestore, 'users', uid, 'favourites'));
-    return snap.docs.map(d => d.data() as Favourite);
+    return live<Favourite>(uid, 'favourites', snap.docs);
 };
 
 export const updateFavourite = async (uid: string, fav: Favourite): Promise<void> => {
-    await setDoc(doc(firestore, 'users', uid, 'favourites', String(fav.id)), fav);
+    await setDoc(doc(firestore, 'users', uid, 'favourites', fav.id!), await toDoc(uid, 'favourites', fav));
 };
 
-export const deleteFavourite = async (uid: string, id: number): Promise<void> => {
-    await deleteDoc(doc(firestore, 'users', uid, 'favourites', String(id)));
-};
+export const deleteFavourite = (uid: string, id: RecordId) => setDeletedAt(uid, 'favourites', id, Date.now());
 
 // --- Weights ---
-export const addWeight = async (uid: string, entry: Omit<WeightEntry, 'id'>): Promise<number> => {
-    const id = genId();
-    await setDoc(doc(firestore, 'users', uid, 'weights', String(id)), { ...entry, id });
+export const addWeight = async (uid: string, entry: Omit<WeightEntry, 'id'>): Promise<RecordId> => {
+    const id = newId();
+    await setDoc(doc(firestore, 'users', uid, 'weights', id), await toDoc(uid, 'weights', { ...entry, id }));
     return id;
 };
 
 export const getAllWeights = async (uid: string): Promise<WeightEntry[]> => {
     const snap = await getDocs(collection(firestore, 'users', uid, 'weights'));
-    return snap.docs.map(d => d.data() as WeightEntry);
+    return live<WeightEntry>(uid, 'weights', snap.docs);
+};
+
+export const getWeightsInRange = async (uid: string, from: string, to: string): Promise<WeightEntry[]> => {
+    const q = query(collection(firestore, 'users', uid, 'weights'), where('date', '>=', from), where('date', '<=', to));
+    const snap = await getDocs(q);
+    return live<WeightEntry>(uid, 'weights', snap.docs);
+};
+
+export const updateWeight = async (uid: string, entry: WeightEntry): Promise<void> => {
+    await setDoc(doc(firestore, 'users', uid, 'weights', entry.id!), await toDoc(uid, 'weights', entry));
+};
+
+export const deleteWeight = (uid: string, id: RecordId) => setDeletedAt(uid, 'weights', id, Date.now());
+
+// --- Water ---
+export const addWater = async (uid: string, entry: Omit<WaterEntry, 'id'>): Promise<RecordId> => {
+    const id = newId();
+    await setDoc(doc(firestore, 'users', uid, 'water', id), await toDoc(uid, 'water', { ...entry, id }));
+    return id;
+};
+
+export const getAllWater = async (uid: string): Promise<WaterEntry[]> => {
+    const snap = await getDocs(collection(firestore, 'users', uid, 'water'));
+    return live<WaterEntry>(uid, 'water', snap.docs);
 };
 
-export const deleteWeight = async (uid: string, id: number): Promise<void> => {
-    await deleteDoc(doc(firestore, 'users', uid, 'weights', String(id)));
+export const getWaterInRange = async (uid: string, from: string, to: string): Promise<WaterEntry[]> => {
+    const q = query(collection(firestore, 'users', uid, 'water'), where('date', '>=', from), where('date', '<=', to));
+    const snap = await getDocs(q);
+    return live<WaterEntry>(uid, 'water', snap.docs);
+};
+
+export const updateWater = async (uid: string, entry: WaterEntry): Promise<void> => {
+    await setDoc(doc(firestore, 'users', uid, 'water', entry.id!), await toDoc(uid, 'water', entry));
+};
+
+export const deleteWater = (uid: string, id: RecordId) => setDeletedAt(uid, 'water', id, Date.now());
+
+// --- Activities ---
+export const addActivity = async (uid: string, activity: Omit<Activity, 'id'>): Promise<RecordId> => {
+    const id = newId();
+    await setDoc(doc(firestore, 'users', uid, 'activities', id), await toDoc(uid, 'activities', { ...activity, id }));
+    return id;
 };
 
+export const getAllActivities = async (uid: string): Promise<Activity[]> => {
+    const snap = await getDocs(collection(firestore, 'users', uid, 'activities'));
+    return live<Activity>(uid, 'activities', snap.docs);
+};
+
+export const getActivitiesInRange = async (uid: string, from: string, to: string): Promise<Activity[]> => {
+    const q = query(collection(firestore, 'users', uid, 'activities'), where('date', '>=', from), where('date', '<=', to));
+    const snap = await getDocs(q);
+    return live<Activity>(uid, 'activities', snap.docs);
+};
+
+export const updateActivity = async (uid: string, activity: Activity): Promise<void> => {
+    await setDoc(doc(firestore, 'users', uid, 'activities', activity.id!), await toDoc(uid, 'activities', activity));
+};
+
+export const deleteActivity = (uid: string, id: RecordId) => setDeletedAt(uid, 'activities', id, Date.now());
+
 // --- Recipes ---
-export const addRecipe = async (uid: string, recipe: Omit<Recipe, 'id'>): Promise<void> => {
-    const id = genId();
-    await setDoc(doc(firestore, 'users', uid, 'recipes', String(id)), { ...recipe, id });
+export const addRecipe = async (uid: string, recipe: Omit<Recipe, 'id'>): Promise<RecordId> => {
+    const id = newId();
+    await setDoc(doc(firestore, 'users', uid, 'recipes', id), await toDoc(uid, 'recipes', { ...recipe, id }));
+    return id;
 };
 
 export const getAllRecipes = async (uid: string): Promise<Recipe[]> => {
     const snap = await getDocs(collection(firestore, 'users', uid, 'recipes'));
-    return snap.docs.map(d => d.data() as Recipe);
+    return live<Recipe>(uid, 'recipes', snap.docs);
 };
 
 export const updateRecipe = async (uid: string, recipe: Recipe): Promise<void> => {
-    await setDoc(doc(firestore, 'users', uid, 'recipes', String(recipe.id)), recipe);
+    await setDoc(doc(firestore, 'users', uid, 'recipes', recipe.id!), await toDoc(uid, 'recipes', recipe));
+};
+
+export const deleteRecipe = (uid: string, id: RecordId) => setDeletedAt(uid, 'recipes', id, Date.now());
+
+// --- Trash ---
+// Trashed records keep their data plus deletedAt; purging writes the usual tombstone
+const setDeletedAt = async (uid: string, col: TrashStore, id: RecordId, deletedAt: number | undefined): Promise<void> => {
+    const current = await getRecord<SyncMeta & { id: RecordId }>(uid, col, id);
+    if (!current || current.deleted) return;
+    const record = { ...current, deletedAt, updatedAt: Date.now() };
+    if (!deletedAt) delete record.deletedAt;
+    await putRecord(uid, col, record);
+};
+
+export const getTrash = async (uid: string): Promise<Trash> => {
+    const trashed = async <S extends TrashStore>(col: S) => {
+        const snap = await getDocs(query(collection(firestore, 'users', uid, col), where('deletedAt', '>', 0)));
+        const records = await Promise.all(snap.docs.map(async d => (await fromDoc<Trash[S][number]>(uid, col, d.data())).record));
+        return records.filter(r => !r.deleted);
+    };
+    return {
+        meals: await trashed('meals'),
+        favourites: await trashed('favourites'),
+        weights: await trashed('weights'),
+        recipes: await trashed('recipes'),
+        water: await trashed('water'),
+        activities: await trashed('activities'),
+    };
+};
+
+export const purgeRecord = async (uid: string, col: TrashStore, id: RecordId): Promise<void> => {
+    await putRecord(uid, col, tombstone(id));
+};
+
+// --- Sync primitives (used by sync.ts) ---
+// These see tombstones, unlike the getters above.
+export const getRecord = async <T extends SyncMeta>(uid: string, col: SyncedCollection, id: RecordId): Promise<T | null> => {
+    const snap = await getDoc(doc(firestore, 'users', uid, col, id));
+    if (!snap.exists()) return null;
+    return (await fromDoc<T>(uid, col, snap.data())).record;
+};
+
+export const putRecord = async (uid: string, col: SyncedCollection, record: SyncMeta & { id?: RecordId }): Promise<void> => {
+    if (col === 'meals') return writeMeal(uid, record as Meal);
+    await setDoc(doc(firestore, 'users', uid, col, record.id!), await toDoc(uid, col, record));
+};
+
+/**
+ * Writes many records in batches, with none of putRecord's per-meal summary
+ * transaction — call refreshDailySummaries for their days afterwards if any were meals.
+ * Returns which records couldn't be written.
+ */
+export const putRecords = async (
+    uid: string,
+    entries: { col: SyncedCollection; record: SyncMeta & { id?: RecordId } }[],
+    options?: BulkOptions,
+): Promise<BulkReport<{ col: SyncedCollection; record: SyncMeta & { id?: RecordId } }>> => {
+    const ops = await Promise.all(entries.map(async ({ col, record }) => ({
+        ref: doc(firestore, 'users', uid, col, record.id!),
+        data: await toDoc(uid, col, record),
+    })));
+    const report = await commitInBatches(ops, options);
+    const failed = new Set(report.failed.map(op => op.ref.path));
+    return { ...report, failed: entries.filter((_, i) => failed.has(ops[i].ref.path)) };
 };
 
-export const deleteRecipe = async (uid: string, id: number): Promise<void> => {
-    await deleteDoc(doc(firestore, 'users', uid, 'recipes', String(id)));
+/**
+ * Records written at or after `since` (server time, ms). A `since` of 0 reads the
+ * whole collection, which also picks up documents written before syncedAt existed.
+ * Returns the records plus the newest syncedAt seen, to use as the next cursor.
+ */
+export const getChangedSince = async <T extends SyncMeta>(
+    uid: string,
+    col: SyncedCollection,
+    since: number,
+): Promise<{ records: T[]; cursor: number }> => {
+    const ref = collection(firestore, 'users', uid, col);
+    const snap = await getDocs(since ? query(ref, where('syncedAt', '>=', Timestamp.fromMillis(since))) : ref);
+    const docs = await Promise.all(snap.docs.map(d => fromDoc<T>(uid, col, d.data())));
+    const cursor = docs.reduce((max, d) => Math.max(max, d.syncedAt), since);
+    return { records: docs.map(d => d.record), cursor };
+};
+
+/**
+ * Calls `onChange` whenever a record written after `since` (ms) or the settings
+ * document changes on the server, so sync.ts can pull straight away instead of
+ * waiting for its next poll. This device's own unconfirmed writes are ignored.
+ * Returns a function that stops listening.
+ */
+export const watchChanges = (uid: string, since: number, onChange: () => void): (() => void) => {
+    const cols: SyncedCollection[] = ['meals', 'favourites', 'weights', 'recipes', 'water', 'activities'];
+    const after = Timestamp.fromMillis(since);
+    const unsubscribes = [
+        ...cols.map(col => onSnapshot(
+            query(collection(firestore, 'users', uid, col), where('syncedAt', '>', after)),
+            snap => { if (snap.docChanges().length > 0 && !snap.metadata.hasPendingWrites) onChange(); },
+            err => console.error(`Watching ${col} failed:`, err),
+        )),
+        onSnapshot(
+            doc(firestore, 'users', uid, 'settings', 'data'),
+            snap => { if (!snap.metadata.hasPendingWrites) onChange(); },
+            err => console.error('Watching settings failed:', err),
+        ),
+        // Encryption turned on, off or re-keyed elsewhere (see e2e.ts)
+        onSnapshot(
+            doc(firestore, 'users', uid, 'settings', 'encryption'),
+            snap => { if (!snap.metadata.hasPendingWrites) onChange(); },
+            err => console.error('Watching encryption failed:', err),
+        ),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
 };
 
 // --- Settings ---
-// Stored as a single merged document at /users/{uid}/settings/data
-export const getSettings = async (uid: string): Promise<UserSettings> => {
+// Stored as a single merged document at /users/{uid}/settings/data, with a
+// per-key `_updatedAt` map used for last-writer-wins between devices.
+export type SettingsTimestamps = Partial<Record<keyof UserSettings, number>>;
+
+export const getSettingsWithMeta = async (uid: string): Promise<{ settings: Partial<UserSettings>; updatedAt: SettingsTimestamps }> => {
     const snap = await getDoc(doc(firestore, 'users', uid, 'settings', 'data'));
-    if (!snap.exists()) return { ...DEFAULT_SETTINGS };
-    return { ...DEFAULT_SETTINGS, ...snap.data() } as UserSettings;
+    if (!snap.exists()) return { settings: {}, updatedAt: {} };
+    const { _updatedAt, ...stored } = unstamp(snap.data()).record;
+    const settings = Object.fromEntries(await Promise.all(
+        Object.entries(stored).map(async ([key, value]) => [key, await decryptSetting(uid, value)]),
+    ));
+    return { settings: settings as Partial<UserSettings>, updatedAt: (_updatedAt ?? {}) as SettingsTimestamps };
 };
 
-export const saveSetting = async (uid: string, key: keyof UserSettings, value: any): Promise<void> => {
+export const getSettings = async (uid: string): Promise<UserSettings> => {
+    const { settings } = await getSettingsWithMeta(uid);
+    return { ...DEFAULT_SETTINGS, ...settings };
+};
+
+export const saveSetting = async (uid: string, key: keyof UserSettings, value: any, updatedAt = Date.now()): Promise<void> => {
     await setDoc(
         doc(firestore, 'users', uid, 'settings', 'data'),
-        { [key]: value },
+        stamped({ [key]: await encryptSetting(uid, key, value), _updatedAt: { [key]: updatedAt } }),
         { merge: true },
     );
 };
 
+/** Deletes keys from the settings document outright (secrets earlier versions synced — see secrets.ts). */
+export const removeSettings = async (uid: string, keys: string[]): Promise<void> => {
+    await updateDoc(doc(firestore, 'users', uid, 'settings', 'data'), Object.fromEntries(keys.flatMap(key => [
+        [key, deleteField()],
+        [`_updatedAt.${key}`, deleteField()],
+    ])));
+};
+
 // --- Reset ---
-export const resetAllData = async (uid: string): Promise<void> => {
-    const cols = ['meals', 'favourites', 'weights', 'recipes'];
+// Records become tombstones so other signed-in devices drop them on their next
+// pull; settings go back to defaults with fresh timestamps for the same reason.
+// Everything goes up in batches; if any batch fails for good the reset throws,
+// and running it again finishes the job.
+export const resetAllData = async (uid: string, options?: BulkOptions): Promise<void> => {
+    const cols: SyncedCollection[] = ['meals', 'favourites', 'weights', 'recipes', 'water', 'activities'];
+    const ops: BatchOp[] = [];
     for (const col of cols) {
         const snap = await getDocs(collection(firestore, 'users', uid, col));
-        await Promise.all(snap.docs.map(d => deleteDoc(d.ref)));
+        ops.push(...snap.docs
+            .filter(d => !d.data().deleted)
+            .map(d => ({ ref: d.ref, data: stamped(tombstone(d.id)) })));
     }
-    await deleteDoc(doc(firestore, 'users', uid, 'settings', 'data'));
+    const summaries = await getDocs(collection(firestore, 'users', uid, 'dailySummaries'));
+    ops.push(...summaries.docs.map(d => ({ ref: d.ref, data: null })));
+    const now = Date.now();
+    const keys = Object.keys(DEFAULT_SETTINGS) as (keyof UserSettings)[];
+    ops.push({
+        ref: doc(firestore, 'users', uid, 'settings', 'data'),
+        data: stamped({ ...DEFAULT_SETTINGS, _updatedAt: Object.fromEntries(keys.map(k => [k, now])) }),
+    });
+    assertComplete(await commitInBatches(ops, options), 'deletions');
 };
+
+// Direct access has nowhere device-side to keep bookkeeping, so it lasts for the session
+const _meta = new Map<string, unknown>();
+
+/**
+ * Direct Firestore access for one user as a StorageBackend. The app itself goes
+ * through the outbox mirror instead (see outbox.ts), so writes survive offline.
+ */
+export const createFirestoreBackend = (uid: string): StorageBackend => ({
+    addMeal: meal => addMeal(uid, meal),
+    getMealsByDate: date => getMealsByDate(uid, date),
+    getMealsInRange: (from, to) => getMealsInRange(uid, from, to),
+    getAllMeals: () => getAllMeals(uid),
+    updateMeal: meal => updateMeal(uid, meal),
+    deleteMeal: id => deleteMeal(uid, id),
+
+    getDailySummaries: (from, to) => getDailySummaries(uid, from, to),
+    rebuildDailySummaries: () => rebuildDailySummaries(uid),
+
+    addFavourite: fav => addFavourite(uid, fav),
+    getAllFavourites: () => getAllFavourites(uid),
+    updateFavourite: fav => updateFavourite(uid, fav),
+    deleteFavourite: id => deleteFavourite(uid, id),
+
+    addWeight: entry => addWeight(uid, entry),
+    getAllWeights: () => getAllWeights(uid),
+    getWeightsInRange: (from, to) => getWeightsInRange(uid, from, to),
+    updateWeight: entry => updateWeight(uid, entry),
+    deleteWeight: id => deleteWeight(uid, id),
+
+    addWater: entry => addWater(uid, entry),
+    getAllWater: () => getAllWater(uid),
+    getWaterInRange: (from, to) => getWaterInRange(uid, from, to),
+    updateWater: entry => updateWater(uid, entry),
+    deleteWater: id => deleteWater(uid, id),
+
+    addActivity: activity => addActivity(uid, activity),
+    getAllActivities: () => getAllActivities(uid),
+    getActivitiesInRange: (from, to) => getActivitiesInRange(uid, from, to),
+    updateActivity: activity => updateActivity(uid, activity),
+    deleteActivity: id => deleteActivity(uid, id),
+
+    addRecipe: recipe => addRecipe(uid, recipe),
+    getAllRecipes: () => getAllRecipes(uid),
+    updateRecipe: recipe => updateRecipe(uid, recipe),
+    deleteRecipe: id => deleteRecipe(uid, id),
+
+    getTrash: () => getTrash(uid),
+    restoreFromTrash: (store, id) => setDeletedAt(uid, store, id, undefined),
+    purgeFromTrash: (store, id) => purgeRecord(uid, store, id),
+
+    getSettings: () => getSettings(uid),
+    saveSetting: (key, value) => saveSetting(uid, key, value),
+
+    getMeta: async <T>(key: string) => _meta.get(`${uid}/${key}`) as T | undefined,
+    setMeta: async (key, value) => { _meta.set(`${uid}/${key}`, value); },
+
+    resetAllData: () => resetAllData(uid),
+});
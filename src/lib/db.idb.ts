@@ -1,23 +1,61 @@
-import { openDB, type IDBPDatabase } from 'idb';
+import { openDB, type IDBPDatabase, type IDBPTransaction } from 'idb';
+import { applyMealChange, buildSummaries } from './summaries';
+import { runMigrations, latestVersion, SCHEMA_MIGRATIONS, type Migration, type UpgradeTx } from './migrations';
+import type { StorageBackend, TrashStore, Trash } from './storage';
+import { newId, type RecordId } from './ids';
 
-export interface Meal {
-    id?: number;
+/** Sync bookkeeping carried by every synced record type (see sync.ts). */
+export interface SyncMeta {
+    updatedAt?: number;  // client time of the last write — the last-writer-wins key
+    rev?: string;        // random token replaced on every signed-in write — detects concurrent edits
+    deleted?: boolean;   // tombstone: kept after a delete so other devices learn about it
+    deletedAt?: number;  // moved to the trash at this time — hidden from getters until restored or purged
+}
+
+export interface Meal extends SyncMeta {
+    id?: RecordId;
     date: string;
     timestamp: number;
     content: string;
-    parsed: {
-        food: string;
-        calories: number;
-        protein: number;
-        fat: number;
-        carbs: number;
-        fiber: number;
-    }[];
+    parsed: MealItem[];           // one entry per food; totals are their sums (see items.ts)
     totalCalories: number;
+    slot?: MealSlot;              // set when logged; older meals are placed by time (see slots.ts)
+    timeZone?: string;            // IANA zone the meal was logged in (see days.ts)
+    utcOffset?: number;           // minutes east of UTC at `timestamp`, in that zone
+    revisions?: MealRevision[];   // earlier versions, newest first (see revisions.ts)
 }
 
-export interface Favourite {
-    id?: number;
+export interface MealItem {
+    food: string;
+    calories: number;
+    protein: number;
+    fat: number;
+    carbs: number;
+    fiber: number;
+    nutrients?: Nutrients;
+}
+
+/** Nutrients tracked beyond calories and macros (see nutrients.ts). */
+export type NutrientKey = 'sugar' | 'addedSugar' | 'saturatedFat' | 'sodium' | 'potassium' | 'cholesterol' | 'calcium' | 'iron';
+
+/** Amounts in each nutrient's unit (g or mg); a missing key isn't known. */
+export type Nutrients = Partial<Record<NutrientKey, number>>;
+
+export type MealSlot = 'breakfast' | 'lunch' | 'snack' | 'dinner';
+
+export type RevisionCause = 'ai-reparse' | 'manual-edit' | 'sync' | 'revert';
+
+/** A meal as it was before a change replaced it. */
+export interface MealRevision {
+    replacedAt: number;
+    cause: RevisionCause;   // what replaced this version
+    content: string;
+    parsed: Meal['parsed'];
+    totalCalories: number;
+}
+
+export interface Favourite extends SyncMeta {
+    id?: RecordId;
     name: string;
     content: string;
     parsed: Meal['parsed'];
@@ -33,10 +71,11 @@ export interface RecipeIngredient {
     fat: number;
     carbs: number;
     fiber: number;
+    nutrients?: Nutrients;
 }
 
-export interface Recipe {
-    id?: number;
+export interface Recipe extends SyncMeta {
+    id?: RecordId;
     name: string;
     ingredients: RecipeIngredient[];
     totalWeight: number;
@@ -45,18 +84,52 @@ export interface Recipe {
     totalFat: number;
     totalCarbs: number;
     totalFiber: number;
+    totalNutrients?: Nutrients;
     createdAt: number;
 }
 
-export interface WeightEntry {
-    id?: number;
+export interface WeightEntry extends SyncMeta {
+    id?: RecordId;
     date: string;
     weight: number;
     timestamp: number;
 }
 
+/** A drink of water (see water.ts). */
+export interface WaterEntry extends SyncMeta {
+    id?: RecordId;
+    date: string;
+    timestamp: number;
+    ml: number;
+}
+
+/** How an activity's calories burned were worked out (see activity.ts). */
+export type ActivitySource = 'met' | 'ai' | 'user';
+
+/** A workout or other exercise (see activity.ts). */
+export interface Activity extends SyncMeta {
+    id?: RecordId;
+    date: string;
+    timestamp: number;
+    name: string;
+    minutes: number;
+    calories: number;   // burned
+    source: ActivitySource;
+}
+
+/** Per-day totals kept in step with meals (see summaries.ts). Keyed by date. */
+export interface DailySummary {
+    date: string;
+    calories: number;
+    protein: number;
+    fat: number;
+    carbs: number;
+    fiber: number;
+    nutrients?: Nutrients;
+    mealCount: number;
+}
+
 export interface UserSettings {
-    apiKey: string;
     provider: 'gemini' | 'openai' | 'groq';
     theme: 'dark' | 'light';
     dailyCalories: number;
@@ -64,18 +137,26 @@ export interface UserSettings {
     dailyFat: number;
     dailyCarbs: number;
     dailyFiber: number;
+    dailyWater: number;   // ml
     unitBowlLiquid: number;
     unitBowlSolid: number;
     unitTbsp: number;
     unitTsp: number;
+    unitGlass: number;    // ml, for "2 glasses of water"
     profileAge: number;
     profileWeight: number;
     profileHeight: number;
+    goalWeight: number;   // kg, 0 = none (see weight-trend.ts)
+    goalDate: string;     // 'yyyy-MM-dd' to reach it by, '' = none
+    slotStarts: Record<MealSlot, number>;     // hour each slot begins; before breakfast counts as snack
+    slotCalories: Record<MealSlot, number>;   // per-slot targets, 0 = none
+    dayStartHour: number;                     // hour a new day begins, e.g. 4 for night shifts (see days.ts)
+    nutrientTargets: Record<NutrientKey, number>;   // daily goal or limit per nutrient, 0 = not tracked
+    netCalories: boolean;   // count calories burned by activities against intake
     hostedDailyLimit?: number;
 }
 
 export const DEFAULT_SETTINGS: UserSettings = {
-    apiKey: '',
     provider: 'gemini',
     theme: 'dark',
     dailyCalories: 2000,
@@ -83,128 +164,321 @@ export const DEFAULT_SETTINGS: UserSettings = {
     dailyFat: 65,
     dailyCarbs: 250,
     dailyFiber: 30,
+    dailyWater: 2000,
     unitBowlLiquid: 250,
     unitBowlSolid: 150,
     unitTbsp: 15,
     unitTsp: 5,
+    unitGlass: 250,
     profileAge: 0,
     profileWeight: 0,
     profileHeight: 0,
+    goalWeight: 0,
+    goalDate: '',
+    slotStarts: { breakfast: 5, lunch: 11, snack: 15, dinner: 18 },
+    slotCalories: { breakfast: 0, lunch: 0, snack: 0, dinner: 0 },
+    dayStartHour: 0,
+    nutrientTargets: { sugar: 0, addedSugar: 0, saturatedFat: 0, sodium: 0, potassium: 0, cholesterol: 0, calcium: 0, iron: 0 },
+    netCalories: false,
 };
 
 const DB_NAME = 'meal-tracker-db';
-const DB_VERSION = 4;
+
+/**
+ * Creates the original record stores if missing. Also used by the signed-in
+ * mirror DB (outbox.ts) so both databases always share the same record layout.
+ * The mirror passes uniqueNames = false because Firestore doesn't enforce unique names.
+ */
+export const createStores = (db: IDBPDatabase, uniqueNames = true) => {
+    if (!db.objectStoreNames.contains('meals')) {
+        const mealStore = db.createObjectStore('meals', { keyPath: 'id', autoIncrement: true });
+        mealStore.createIndex('by-date', 'date');
+    }
+    if (!db.objectStoreNames.contains('settings')) {
+        db.createObjectStore('settings', { keyPath: 'key' });
+    }
+    if (!db.objectStoreNames.contains('favourites')) {
+        const favStore = db.createObjectStore('favourites', { keyPath: 'id', autoIncrement: true });
+        favStore.createIndex('by-name', 'name', { unique: uniqueNames });
+    }
+    if (!db.objectStoreNames.contains('weights')) {
+        const weightStore = db.createObjectStore('weights', { keyPath: 'id', autoIncrement: true });
+        weightStore.createIndex('by-date', 'date');
+    }
+    if (!db.objectStoreNames.contains('recipes')) {
+        db.createObjectStore('recipes', { keyPath: 'id', autoIncrement: true })
+            .createIndex('by-name', 'name', { unique: uniqueNames });
+    }
+};
+
+type SummaryTx = IDBPTransaction<unknown, string[], 'readwrite' | 'versionchange'>;
+
+/** The dailySummaries store of a transaction, in the shape applyMealChange expects. */
+export const summaryStore = (tx: SummaryTx) => {
+    const os = tx.objectStore('dailySummaries');
+    return {
+        get: (date: string) => os.get(date) as Promise<DailySummary | undefined>,
+        put: (summary: DailySummary) => os.put(summary),
+        remove: (date: string) => os.delete(date),
+    };
+};
+
+/** Adds the dailySummaries store and fills it from existing meals. */
+export const createSummaryStore = async (db: IDBPDatabase, tx: UpgradeTx) => {
+    db.createObjectStore('dailySummaries', { keyPath: 'date' });
+    await writeAllSummaries(tx);
+};
+
+/** Regenerates every daily summary from the meals store within one transaction. */
+export const writeAllSummaries = async (tx: SummaryTx) => {
+    const meals = await tx.objectStore('meals').getAll() as Meal[];
+    const os = tx.objectStore('dailySummaries');
+    await os.clear();
+    await Promise.all(buildSummaries(meals).map(s => os.put(s)));
+};
+
+// Guest DB history; see migrations.ts
+const MIGRATIONS: Migration[] = [
+    // v1–v4 predate versioned migrations and only ever added stores
+    { version: 4, description: 'Meals, settings, favourites, weights and recipes', upgrade: db => createStores(db) },
+    { version: 5, description: 'Daily totals', upgrade: createSummaryStore },
+    ...SCHEMA_MIGRATIONS,
+];
 
 export const initDB = async (): Promise<IDBPDatabase> => {
-    return openDB(DB_NAME, DB_VERSION, {
-        upgrade(db) {
-            if (!db.objectStoreNames.contains('meals')) {
-                const mealStore = db.createObjectStore('meals', { keyPath: 'id', autoIncrement: true });
-                mealStore.createIndex('by-date', 'date');
-            }
-            if (!db.objectStoreNames.contains('settings')) {
-                db.createObjectStore('settings', { keyPath: 'key' });
-            }
-            if (!db.objectStoreNames.contains('favourites')) {
-                const favStore = db.createObjectStore('favourites', { keyPath: 'id', autoIncrement: true });
-                favStore.createIndex('by-name', 'name', { unique: true });
-            }
-            if (!db.objectStoreNames.contains('weights')) {
-                const weightStore = db.createObjectStore('weights', { keyPath: 'id', autoIncrement: true });
-                weightStore.createIndex('by-date', 'date');
-            }
-            if (!db.objectStoreNames.contains('recipes')) {
-                db.createObjectStore('recipes', { keyPath: 'id', autoIncrement: true })
-                    .createIndex('by-name', 'name', { unique: true });
-            }
+    return openDB(DB_NAME, latestVersion(MIGRATIONS), {
+        upgrade(db, oldVersion, _newVersion, tx) {
+            runMigrations(MIGRATIONS, db, oldVersion, tx);
         },
     });
 };
 
+// Guest writes carry updatedAt too, so sign-in can reconcile them with the account
+const touch = <T extends object>(record: T): T => ({ ...record, updatedAt: Date.now() });
+
+// Getters hide trashed records
+const live = <T extends SyncMeta>(records: T[]) => records.filter(r => !r.deletedAt);
+
+const LABELS: Record<TrashStore, string> = { meals: 'meal', favourites: 'favourite', weights: 'weight entry', recipes: 'recipe', water: 'water entry', activities: 'activity' };
+
+type NameStore = 'favourites' | 'recipes';
+type NameRecord = { id?: RecordId; name: string; deletedAt?: number };
+
+// Favourite and recipe names are unique here. A trashed record gives its name
+// up to a new one rather than blocking it; a live record still throws.
+const putNamed = async <T extends NameRecord>(store: NameStore, record: T, write: 'add' | 'put'): Promise<RecordId> => {
+    const db = await initDB();
+    const tx = db.transaction(store, 'readwrite');
+    const os = tx.objectStore(store);
+    const holder = await os.index('by-name').get(record.name) as NameRecord | undefined;
+    if (holder?.deletedAt && holder.id !== record.id) await os.delete(holder.id!);
+    const id = await os[write](touch(record)) as RecordId;
+    await tx.done;
+    return id;
+};
+
 // --- Meals ---
-export const addMeal = async (meal: Omit<Meal, 'id'>) => {
+// Meal writes update dailySummaries in the same transaction
+export const addMeal = async (meal: Omit<Meal, 'id'>): Promise<RecordId> => {
     const db = await initDB();
-    return db.add('meals', meal);
+    const tx = db.transaction(['meals', 'dailySummaries'], 'readwrite');
+    const record = touch({ ...meal, id: newId() });
+    await tx.objectStore('meals').add(record);
+    await applyMealChange(undefined, record, summaryStore(tx));
+    await tx.done;
+    return record.id;
 };
 
 export const getMealsByDate = async (date: string): Promise<Meal[]> => {
     const db = await initDB();
-    return db.getAllFromIndex('meals', 'by-date', date);
+    return live(await db.getAllFromIndex('meals', 'by-date', date));
+};
+
+export const getMealsInRange = async (from: string, to: string): Promise<Meal[]> => {
+    const db = await initDB();
+    return live(await db.getAllFromIndex('meals', 'by-date', IDBKeyRange.bound(from, to)));
 };
 
 export const getAllMeals = async (): Promise<Meal[]> => {
     const db = await initDB();
-    return db.getAll('meals');
+    return live(await db.getAll('meals'));
+};
+
+export const updateMeal = async (meal: Meal): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(['meals', 'dailySummaries'], 'readwrite');
+    const os = tx.objectStore('meals');
+    const before = await os.get(meal.id!) as Meal | undefined;
+    const record = touch(meal);
+    await os.put(record);
+    await applyMealChange(before, record, summaryStore(tx));
+    await tx.done;
 };
 
-export const updateMeal = async (meal: Meal) => {
+export const deleteMeal = (id: RecordId) => moveToTrash('meals', id);
+
+// --- Daily summaries ---
+export const getDailySummaries = async (from: string, to: string): Promise<DailySummary[]> => {
     const db = await initDB();
-    return db.put('meals', meal);
+    return db.getAll('dailySummaries', IDBKeyRange.bound(from, to));
 };
 
-export const deleteMeal = async (id: number) => {
+export const rebuildDailySummaries = async (): Promise<void> => {
     const db = await initDB();
-    return db.delete('meals', id);
+    const tx = db.transaction(['meals', 'dailySummaries'], 'readwrite');
+    await writeAllSummaries(tx);
+    await tx.done;
 };
 
 // --- Favourites ---
-export const addFavourite = async (fav: Omit<Favourite, 'id'>) => {
+export const addFavourite = (fav: Omit<Favourite, 'id'>): Promise<RecordId> => putNamed('favourites', { ...fav, id: newId() }, 'add');
+
+export const getAllFavourites = async (): Promise<Favourite[]> => {
     const db = await initDB();
-    return db.add('favourites', fav);
+    return live(await db.getAll('favourites'));
 };
 
-export const getAllFavourites = async (): Promise<Favourite[]> => {
+export const updateFavourite = async (fav: Favourite): Promise<void> => {
+    await putNamed('favourites', fav, 'put');
+};
+
+export const deleteFavourite = (id: RecordId) => moveToTrash('favourites', id);
+
+// --- Weights ---
+export const addWeight = async (entry: Omit<WeightEntry, 'id'>): Promise<RecordId> => {
     const db = await initDB();
-    return db.getAll('favourites');
+    return db.add('weights', touch({ ...entry, id: newId() })) as Promise<RecordId>;
 };
 
-export const updateFavourite = async (fav: Favourite) => {
+export const getAllWeights = async (): Promise<WeightEntry[]> => {
     const db = await initDB();
-    return db.put('favourites', fav);
+    return live(await db.getAll('weights'));
 };
 
-export const deleteFavourite = async (id: number) => {
+export const getWeightsInRange = async (from: string, to: string): Promise<WeightEntry[]> => {
     const db = await initDB();
-    return db.delete('favourites', id);
+    return live(await db.getAllFromIndex('weights', 'by-date', IDBKeyRange.bound(from, to)));
 };
 
-// --- Weights ---
-export const addWeight = async (entry: Omit<WeightEntry, 'id'>) => {
+export const updateWeight = async (entry: WeightEntry): Promise<void> => {
     const db = await initDB();
-    return db.add('weights', entry);
+    await db.put('weights', touch(entry));
 };
 
-export const getAllWeights = async (): Promise<WeightEntry[]> => {
+export const deleteWeight = (id: RecordId) => moveToTrash('weights', id);
+
+// --- Water ---
+export const addWater = async (entry: Omit<WaterEntry, 'id'>): Promise<RecordId> => {
     const db = await initDB();
-    return db.getAll('weights');
+    return db.add('water', touch({ ...entry, id: newId() })) as Promise<RecordId>;
 };
 
-export const deleteWeight = async (id: number) => {
+export const getAllWater = async (): Promise<WaterEntry[]> => {
     const db = await initDB();
-    return db.delete('weights', id);
+    return live(await db.getAll('water'));
 };
 
-// --- Recipes ---
-export const addRecipe = async (recipe: Omit<Recipe, 'id'>): Promise<void> => {
+export const getWaterInRange = async (from: string, to: string): Promise<WaterEntry[]> => {
     const db = await initDB();
-    await db.add('recipes', recipe);
+    return live(await db.getAllFromIndex('water', 'by-date', IDBKeyRange.bound(from, to)));
 };
 
+export const updateWater = async (entry: WaterEntry): Promise<void> => {
+    const db = await initDB();
+    await db.put('water', touch(entry));
+};
+
+export const deleteWater = (id: RecordId) => moveToTrash('water', id);
+
+// --- Activities ---
+export const addActivity = async (activity: Omit<Activity, 'id'>): Promise<RecordId> => {
+    const db = await initDB();
+    return db.add('activities', touch({ ...activity, id: newId() })) as Promise<RecordId>;
+};
+
+export const getAllActivities = async (): Promise<Activity[]> => {
+    const db = await initDB();
+    return live(await db.getAll('activities'));
+};
+
+export const getActivitiesInRange = async (from: string, to: string): Promise<Activity[]> => {
+    const db = await initDB();
+    return live(await db.getAllFromIndex('activities', 'by-date', IDBKeyRange.bound(from, to)));
+};
+
+export const updateActivity = async (activity: Activity): Promise<void> => {
+    const db = await initDB();
+    await db.put('activities', touch(activity));
+};
+
+export const deleteActivity = (id: RecordId) => moveToTrash('activities', id);
+
+// --- Recipes ---
+export const addRecipe = (recipe: Omit<Recipe, 'id'>): Promise<RecordId> => putNamed('recipes', { ...recipe, id: newId() }, 'add');
+
 export const getAllRecipes = async (): Promise<Recipe[]> => {
     const db = await initDB();
-    return db.getAll('recipes');
+    return live(await db.getAll('recipes'));
 };
 
 export const updateRecipe = async (recipe: Recipe): Promise<void> => {
+    await putNamed('recipes', recipe, 'put');
+};
+
+export const deleteRecipe = (id: RecordId) => moveToTrash('recipes', id);
+
+// --- Trash ---
+// Sets or clears deletedAt; a meal's daily summary follows in the same transaction
+const setDeletedAt = async (store: TrashStore, id: RecordId, deletedAt: number | undefined): Promise<void> => {
     const db = await initDB();
-    await db.put('recipes', recipe);
+    const tx = db.transaction(store === 'meals' ? ['meals', 'dailySummaries'] : [store], 'readwrite');
+    const os = tx.objectStore(store);
+    const before = await os.get(id) as (Meal & NameRecord) | undefined;
+    if (!before) return;
+    if (!deletedAt && (store === 'favourites' || store === 'recipes')) {
+        const holder = await os.index('by-name').get(before.name) as NameRecord | undefined;
+        if (holder && holder.id !== id) throw new Error(`A ${LABELS[store]} named "${before.name}" already exists.`);
+    }
+    const after = touch({ ...before, deletedAt });
+    if (!deletedAt) delete after.deletedAt;
+    await os.put(after);
+    if (store === 'meals') await applyMealChange(before, after, summaryStore(tx));
+    await tx.done;
 };
 
-export const deleteRecipe = async (id: number): Promise<void> => {
+export const moveToTrash = (store: TrashStore, id: RecordId) => setDeletedAt(store, id, Date.now());
+
+export const restoreFromTrash = (store: TrashStore, id: RecordId) => setDeletedAt(store, id, undefined);
+
+export const getTrash = async (): Promise<Trash> => {
     const db = await initDB();
-    await db.delete('recipes', id);
+    const trashed = async <S extends TrashStore>(store: S) =>
+        (await db.getAll(store) as Trash[S]).filter(r => r.deletedAt) as Trash[S];
+    return {
+        meals: await trashed('meals'),
+        favourites: await trashed('favourites'),
+        weights: await trashed('weights'),
+        recipes: await trashed('recipes'),
+        water: await trashed('water'),
+        activities: await trashed('activities'),
+    };
 };
 
+/** Permanently removes records, in one transaction. Also used to clear guest records once sign-in has imported them. */
+export const purgeRecords = async (store: TrashStore, ids: RecordId[]): Promise<void> => {
+    const db = await initDB();
+    const tx = db.transaction(store === 'meals' ? ['meals', 'dailySummaries'] : [store], 'readwrite');
+    const os = tx.objectStore(store);
+    for (const id of ids) {
+        const before = await os.get(id) as Meal | undefined;
+        await os.delete(id);
+        if (store === 'meals') await applyMealChange(before, undefined, summaryStore(tx));
+    }
+    await tx.done;
+};
+
+export const purgeRecord = (store: TrashStore, id: RecordId) => purgeRecords(store, [id]);
+
 // --- Settings ---
 export const getSettings = async (): Promise<UserSettings> => {
     const db = await initDB();
@@ -214,16 +488,61 @@ export const getSettings = async (): Promise<UserSettings> => {
     return settings as UserSettings;
 };
 
-export const saveSetting = async (key: keyof UserSettings, value: any) => {
+export const saveSetting = async <K extends keyof UserSettings>(key: K, value: UserSettings[K]): Promise<void> => {
     const db = await initDB();
-    return db.put('settings', { key, value });
+    await db.put('settings', { key, value, updatedAt: Date.now() });
 };
 
-export const resetAllData = async () => {
+/** Raw settings rows including their per-key updatedAt (absent on rows written before sync existed). */
+export const getSettingRecords = async (): Promise<{ key: keyof UserSettings; value: unknown; updatedAt?: number }[]> => {
+    const db = await initDB();
+    return db.getAll('settings');
+};
+
+/** Removes a settings row an earlier version wrote (see secrets.ts) and returns its value. */
+export const takeSetting = async (key: string): Promise<unknown> => {
+    const db = await initDB();
+    const tx = db.transaction('settings', 'readwrite');
+    const row = await tx.store.get(key);
+    if (row) await tx.store.delete(key);
+    await tx.done;
+    return row?.value;
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+    const db = await initDB();
+    return (await db.get('meta', key))?.value;
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+    const db = await initDB();
+    await db.put('meta', { key, value });
+};
+
+export const resetAllData = async (): Promise<void> => {
     const db = await initDB();
     await db.clear('meals');
     await db.clear('settings');
     await db.clear('favourites');
     await db.clear('weights');
     await db.clear('recipes');
+    await db.clear('water');
+    await db.clear('activities');
+    await db.clear('dailySummaries');
+    await db.clear('meta');
+};
+
+/** Guest storage as a StorageBackend — the default when nobody is signed in. */
+export const idbBackend: StorageBackend = {
+    addMeal, getMealsByDate, getMealsInRange, getAllMeals, updateMeal, deleteMeal,
+    getDailySummaries, rebuildDailySummaries,
+    addFavourite, getAllFavourites, updateFavourite, deleteFavourite,
+    addWeight, getAllWeights, getWeightsInRange, updateWeight, deleteWeight,
+    addWater, getAllWater, getWaterInRange, updateWater, deleteWater,
+    addActivity, getAllActivities, getActivitiesInRange, updateActivity, deleteActivity,
+    addRecipe, getAllRecipes, updateRecipe, deleteRecipe,
+    getTrash, restoreFromTrash, purgeFromTrash: purgeRecord,
+    getSettings, saveSetting,
+    getMeta, setMeta,
+    resetAllData,
 };
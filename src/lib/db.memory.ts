@@ -0,0 +1,136 @@
+/**
+ * db.memory.ts — in-memory StorageBackend
+ *
+ * Keeps everything in plain Maps, so it needs neither IndexedDB nor Firebase.
+ * Used for demo mode (nothing is persisted) and for unit-testing code that reads
+ * through db.ts — call `setBackend(createMemoryBackend(seed))` first.
+ */
+import { DEFAULT_SETTINGS, type Meal, type Favourite, type WeightEntry, type WaterEntry, type Activity, type Recipe, type UserSettings } from './db.idb';
+import { buildSummaries } from './summaries';
+import type { StorageBackend, Trash, TrashStore } from './storage';
+import { newId, type RecordId } from './ids';
+
+export interface MemorySeed {
+    meals?: Meal[];
+    favourites?: Favourite[];
+    weights?: WeightEntry[];
+    recipes?: Recipe[];
+    water?: WaterEntry[];
+    activities?: Activity[];
+    settings?: Partial<UserSettings>;
+}
+
+// Records are copied in and out so callers can't mutate stored state by
+// accident — the same isolation IndexedDB and Firestore give for free.
+const table = <T extends { id?: RecordId; deletedAt?: number }>(seed: T[] = []) => {
+    const rows = new Map<RecordId, T>();
+    seed.forEach(r => {
+        const id = r.id ?? newId();
+        rows.set(id, structuredClone({ ...r, id }));
+    });
+    return {
+        add: async (record: Omit<T, 'id'>): Promise<RecordId> => {
+            const id = newId();
+            rows.set(id, structuredClone({ ...record, id, updatedAt: Date.now() } as unknown as T));
+            return id;
+        },
+        getAll: async (): Promise<T[]> => structuredClone([...rows.values()].filter(r => !r.deletedAt)),
+        put: async (record: T): Promise<void> => {
+            rows.set(record.id!, structuredClone({ ...record, updatedAt: Date.now() }));
+        },
+        delete: async (id: RecordId): Promise<void> => {
+            const row = rows.get(id);
+            if (row) rows.set(id, { ...row, deletedAt: Date.now(), updatedAt: Date.now() });
+        },
+        trashed: async (): Promise<T[]> => structuredClone([...rows.values()].filter(r => r.deletedAt)),
+        restore: async (id: RecordId): Promise<void> => {
+            const row = rows.get(id);
+            if (!row) return;
+            const restored = { ...row, updatedAt: Date.now() };
+            delete restored.deletedAt;
+            rows.set(id, restored);
+        },
+        purge: async (id: RecordId): Promise<void> => { rows.delete(id); },
+        clear: () => rows.clear(),
+    };
+};
+
+export const createMemoryBackend = (seed: MemorySeed = {}): StorageBackend => {
+    const meals = table(seed.meals);
+    const favourites = table(seed.favourites);
+    const weights = table(seed.weights);
+    const recipes = table(seed.recipes);
+    const water = table(seed.water);
+    const activities = table(seed.activities);
+    let settings: UserSettings = { ...DEFAULT_SETTINGS, ...seed.settings };
+    const meta = new Map<string, unknown>();
+    const tables = { meals, favourites, weights, recipes, water, activities };
+
+    return {
+        addMeal: meals.add,
+        getMealsByDate: async date => (await meals.getAll()).filter(m => m.date === date),
+        getMealsInRange: async (from, to) => (await meals.getAll()).filter(m => m.date >= from && m.date <= to),
+        getAllMeals: meals.getAll,
+        updateMeal: meals.put,
+        deleteMeal: meals.delete,
+
+        // Computed on read — cheap at in-memory sizes, and never stale
+        getDailySummaries: async (from, to) => buildSummaries(await meals.getAll()).filter(s => s.date >= from && s.date <= to),
+        rebuildDailySummaries: async () => {},
+
+        addFavourite: favourites.add,
+        getAllFavourites: favourites.getAll,
+        updateFavourite: favourites.put,
+        deleteFavourite: favourites.delete,
+
+        addWeight: weights.add,
+        getAllWeights: weights.getAll,
+        getWeightsInRange: async (from, to) => (await weights.getAll()).filter(w => w.date >= from && w.date <= to),
+        updateWeight: weights.put,
+        deleteWeight: weights.delete,
+
+        addWater: water.add,
+        getAllWater: water.getAll,
+        getWaterInRange: async (from, to) => (await water.getAll()).filter(w => w.date >= from && w.date <= to),
+        updateWater: water.put,
+        deleteWater: water.delete,
+
+        addActivity: activities.add,
+        getAllActivities: activities.getAll,
+        getActivitiesInRange: async (from, to) => (await activities.getAll()).filter(a => a.date >= from && a.date <= to),
+        updateActivity: activities.put,
+        deleteActivity: activities.delete,
+
+        addRecipe: recipes.add,
+        getAllRecipes: recipes.getAll,
+        updateRecipe: recipes.put,
+        deleteRecipe: recipes.delete,
+
+        getTrash: async (): Promise<Trash> => ({
+            meals: await meals.trashed(),
+            favourites: await favourites.trashed(),
+            weights: await weights.trashed(),
+            recipes: await recipes.trashed(),
+            water: await water.trashed(),
+            activities: await activities.trashed(),
+        }),
+        restoreFromTrash: (store: TrashStore, id) => tables[store].restore(id),
+        purgeFromTrash: (store: TrashStore, id) => tables[store].purge(id),
+
+        getSettings: async () => structuredClone(settings),
+        saveSetting: async (key, value) => {
+            settings = { ...settings, [key]: structuredClone(value) };
+        },
+
+        getMeta: async <T>(key: string) => structuredClone(meta.get(key)) as T | undefined,
+        setMeta: async (key, value) => {
+            meta.set(key, structuredClone(value));
+        },
+
+        resetAllData: async () => {
+            [meals, favourites, weights, recipes, water, activities].forEach(t => t.clear());
+            settings = { ...DEFAULT_SETTINGS };
+            meta.clear();
+        },
+    };
+};
@@ -2,88 +2,192 @@
  * db.ts — routing layer
  *
  * All existing consumers keep their `import from '../lib/db'` unchanged.
- * This module routes each call to IndexedDB (guest) or Firestore (signed in)
- * based on the current auth state, which is set by AuthContext via setCurrentUser().
+ * Every call is forwarded to the active StorageBackend (see storage.ts), which
+ * setCurrentUser() switches between guest IndexedDB and the signed-in mirror
+ * (outbox.ts, kept in step with Firestore by sync.ts). Tests and demo mode swap
+ * in the in-memory backend with setBackend().
+ *
+ * Writes made here announce themselves on the change feed (changes.ts), and the
+ * subscribe* functions below re-read whenever their kind of data changes — in
+ * this tab, in another tab, or on another device via sync.ts.
  */
 
-export type { Meal, Favourite, WeightEntry, Recipe, RecipeIngredient, UserSettings } from './db.idb';
+export type { Meal, MealItem, MealSlot, NutrientKey, Nutrients, MealRevision, RevisionCause, Favourite, WeightEntry, WaterEntry, Activity, ActivitySource, Recipe, RecipeIngredient, UserSettings, DailySummary } from './db.idb';
+export type { StorageBackend, TrashStore, Trash } from './storage';
+export type { RecordId } from './ids';
 export { DEFAULT_SETTINGS } from './db.idb';
 
-import * as idb from './db.idb';
-import * as fs from './db.firestore';
-import type { Meal, Favourite, WeightEntry, Recipe, UserSettings } from './db.idb';
+import { idbBackend } from './db.idb';
+import { createMemoryBackend } from './db.memory';
+import { createMirrorBackend, closeMirrors } from './outbox';
+import * as sync from './sync';
+import { notifyChange, onChange, ALL_TOPICS, type ChangeTopic } from './changes';
+import { assertValidSetting, sanitizeSettings } from './settings';
+import { migrateLegacyApiKey } from './secrets';
+import type { StorageBackend, TrashStore, Trash } from './storage';
+import { runInChunks, type BulkOptions } from './bulk';
+import type { RecordId } from './ids';
+import type { Meal, Favourite, WeightEntry, WaterEntry, Activity, Recipe, UserSettings, DailySummary } from './db.idb';
+
+let _backend: StorageBackend = idbBackend;
+let _demo = false;
+let _stopSync: (() => void) | null = null;
+
+/** Replaces the active backend — for tests; the app uses setCurrentUser / startDemoMode. */
+export const setBackend = (backend: StorageBackend) => { _backend = backend; };
 
-let _uid: string | null = null;
+export const getBackend = () => _backend;
 
 /** Called by AuthContext whenever auth state changes. */
 export const setCurrentUser = (uid: string | null) => {
-    _uid = uid;
+    _stopSync?.();
+    _stopSync = null;
+    closeMirrors(uid);
+    if (_demo) return;
+    _backend = uid ? createMirrorBackend(uid) : idbBackend;
+    if (uid) _stopSync = sync.startSync(uid);
+    migrateLegacyApiKey(uid).catch(err => console.error('Moving the API key to secure storage failed:', err));
+    notifyChange(...ALL_TOPICS);
 };
 
-// --- Meals ---
-export const addMeal = (meal: Omit<Meal, 'id'>) =>
-    _uid ? fs.addMeal(_uid, meal) : idb.addMeal(meal);
+/**
+ * Demo mode: everything lives in memory and vanishes on reload, whether or not
+ * someone is signed in. Enabled by opening the app with `?demo`.
+ */
+export const startDemoMode = () => {
+    _demo = true;
+    _backend = createMemoryBackend();
+    notifyChange(...ALL_TOPICS);
+};
 
-export const getMealsByDate = (date: string) =>
-    _uid ? fs.getMealsByDate(_uid, date) : idb.getMealsByDate(date);
+export const isDemoMode = () => _demo;
 
-export const getAllMeals = () =>
-    _uid ? fs.getAllMeals(_uid) : idb.getAllMeals();
+/** Runs a write and announces it once it has landed. */
+const written = <T>(write: Promise<T>, ...topics: ChangeTopic[]): Promise<T> =>
+    write.then(result => { notifyChange(...topics); return result; });
 
-export const updateMeal = (meal: Meal) =>
-    _uid ? fs.updateMeal(_uid, meal) : idb.updateMeal(meal);
+// --- Meals ---
+export const addMeal = (meal: Omit<Meal, 'id'>) => written(_backend.addMeal(meal), 'meals');
+export const getMealsByDate = (date: string) => _backend.getMealsByDate(date);
+export const getMealsInRange = (from: string, to: string) => _backend.getMealsInRange(from, to);
+export const getAllMeals = () => _backend.getAllMeals();
+export const updateMeal = (meal: Meal) => written(_backend.updateMeal(meal), 'meals');
+export const deleteMeal = (id: RecordId) => written(_backend.deleteMeal(id), 'meals');
 
-export const deleteMeal = (id: number) =>
-    _uid ? fs.deleteMeal(_uid, id) : idb.deleteMeal(id);
+// --- Daily summaries ---
+export const getDailySummaries = (from: string, to: string) => _backend.getDailySummaries(from, to);
+export const rebuildDailySummaries = () => written(_backend.rebuildDailySummaries(), 'meals');
 
 // --- Favourites ---
-export const addFavourite = (fav: Omit<Favourite, 'id'>) =>
-    _uid ? fs.addFavourite(_uid, fav) : idb.addFavourite(fav);
-
-export const getAllFavourites = () =>
-    _uid ? fs.getAllFavourites(_uid) : idb.getAllFavourites();
-
-export const updateFavourite = (fav: Favourite) =>
-    _uid ? fs.updateFavourite(_uid, fav) : idb.updateFavourite(fav);
-
-export const deleteFavourite = (id: number) =>
-    _uid ? fs.deleteFavourite(_uid, id) : idb.deleteFavourite(id);
+export const addFavourite = (fav: Omit<Favourite, 'id'>) => written(_backend.addFavourite(fav), 'favourites');
+export const getAllFavourites = () => _backend.getAllFavourites();
+export const updateFavourite = (fav: Favourite) => written(_backend.updateFavourite(fav), 'favourites');
+export const deleteFavourite = (id: RecordId) => written(_backend.deleteFavourite(id), 'favourites');
 
 // --- Weights ---
-export const addWeight = (entry: Omit<WeightEntry, 'id'>) =>
-    _uid ? fs.addWeight(_uid, entry) : idb.addWeight(entry);
-
-export const getAllWeights = () =>
-    _uid ? fs.getAllWeights(_uid) : idb.getAllWeights();
-
-export const deleteWeight = (id: number) =>
-    _uid ? fs.deleteWeight(_uid, id) : idb.deleteWeight(id);
+export const addWeight = (entry: Omit<WeightEntry, 'id'>) => written(_backend.addWeight(entry), 'weights');
+export const getAllWeights = () => _backend.getAllWeights();
+export const getWeightsInRange = (from: string, to: string) => _backend.getWeightsInRange(from, to);
+export const updateWeight = (entry: WeightEntry) => written(_backend.updateWeight(entry), 'weights');
+export const deleteWeight = (id: RecordId) => written(_backend.deleteWeight(id), 'weights');
+
+// --- Water ---
+export const addWater = (entry: Omit<WaterEntry, 'id'>) => written(_backend.addWater(entry), 'water');
+export const getAllWater = () => _backend.getAllWater();
+export const getWaterInRange = (from: string, to: string) => _backend.getWaterInRange(from, to);
+export const updateWater = (entry: WaterEntry) => written(_backend.updateWater(entry), 'water');
+export const deleteWater = (id: RecordId) => written(_backend.deleteWater(id), 'water');
+
+// --- Activities ---
+export const addActivity = (activity: Omit<Activity, 'id'>) => written(_backend.addActivity(activity), 'activities');
+export const getAllActivities = () => _backend.getAllActivities();
+export const getActivitiesInRange = (from: string, to: string) => _backend.getActivitiesInRange(from, to);
+export const updateActivity = (activity: Activity) => written(_backend.updateActivity(activity), 'activities');
+export const deleteActivity = (id: RecordId) => written(_backend.deleteActivity(id), 'activities');
 
 // --- Recipes ---
-export const addRecipe = (recipe: Omit<Recipe, 'id'>) =>
-    _uid ? fs.addRecipe(_uid, recipe) : idb.addRecipe(recipe);
+export const addRecipe = (recipe: Omit<Recipe, 'id'>) => written(_backend.addRecipe(recipe), 'recipes');
+export const getAllRecipes = () => _backend.getAllRecipes();
+export const updateRecipe = (recipe: Recipe) => written(_backend.updateRecipe(recipe), 'recipes');
+export const deleteRecipe = (id: RecordId) => written(_backend.deleteRecipe(id), 'recipes');
+
+// --- Trash ---
+export const getTrash = () => _backend.getTrash();
+export const restoreFromTrash = (store: TrashStore, id: RecordId) => written(_backend.restoreFromTrash(store, id), store);
+export const purgeFromTrash = (store: TrashStore, id: RecordId) => written(_backend.purgeFromTrash(store, id), store);
+
+// --- Bulk ---
+// Many writes at once, in chunks that are retried on failure (see bulk.ts). Each
+// resolves with a report of what couldn't be written rather than failing outright.
+// Creating records through putMany with ids from newId() makes a retried chunk
+// overwrite, not duplicate, what an earlier attempt already wrote.
+type RecordOf<S extends TrashStore> = Trash[S][number];
+
+const PUT: { [S in TrashStore]: (record: RecordOf<S>) => Promise<void> } = {
+    meals: meal => _backend.updateMeal(meal),
+    favourites: fav => _backend.updateFavourite(fav),
+    weights: entry => _backend.updateWeight(entry),
+    recipes: recipe => _backend.updateRecipe(recipe),
+    water: entry => _backend.updateWater(entry),
+    activities: activity => _backend.updateActivity(activity),
+};
 
-export const getAllRecipes = () =>
-    _uid ? fs.getAllRecipes(_uid) : idb.getAllRecipes();
+export const putMany = <S extends TrashStore>(store: S, records: RecordOf<S>[], options?: BulkOptions) =>
+    written(runInChunks(records, chunk => Promise.all(chunk.map(r => PUT[store](r))), options), store);
 
-export const updateRecipe = (recipe: Recipe) =>
-    _uid ? fs.updateRecipe(_uid, recipe) : idb.updateRecipe(recipe);
+export const deleteMeals = (ids: RecordId[], options?: BulkOptions) =>
+    written(runInChunks(ids, chunk => Promise.all(chunk.map(id => _backend.deleteMeal(id))), options), 'meals');
 
-export const deleteRecipe = (id: number) =>
-    _uid ? fs.deleteRecipe(_uid, id) : idb.deleteRecipe(id);
+export const restoreManyFromTrash = (store: TrashStore, ids: RecordId[], options?: BulkOptions) =>
+    written(runInChunks(ids, chunk => Promise.all(chunk.map(id => _backend.restoreFromTrash(store, id))), options), store);
 
 // --- Settings ---
-export const getSettings = () =>
-    _uid ? fs.getSettings(_uid) : idb.getSettings();
-
-export const saveSetting = (key: keyof UserSettings, value: any) =>
-    _uid ? fs.saveSetting(_uid, key, value) : idb.saveSetting(key, value);
-
-// Reset clears both backends when signed in to leave a clean state
-export const resetAllData = async () => {
-    if (_uid) {
-        await Promise.all([fs.resetAllData(_uid), idb.resetAllData()]);
-    } else {
-        await idb.resetAllData();
-    }
+// Values are checked per key (settings.ts): invalid saves reject, invalid stored values read as defaults
+export const getSettings = () => _backend.getSettings().then(sanitizeSettings);
+export const saveSetting = async <K extends keyof UserSettings>(key: K, value: UserSettings[K]) => {
+    assertValidSetting(key, value);
+    await written(_backend.saveSetting(key, value), 'settings');
+};
+
+// --- Meta ---
+export const getMeta = <T>(key: string) => _backend.getMeta<T>(key);
+export const setMeta = (key: string, value: unknown) => _backend.setMeta(key, value);
+
+// --- Reset ---
+export const resetAllData = () => written(_backend.resetAllData(), ...ALL_TOPICS);
+
+// --- Subscriptions ---
+/**
+ * Calls `callback` with `read()` now and again after every change to `topics`.
+ * Results of a read overtaken by a newer one are dropped. Returns an unsubscribe function.
+ */
+const subscribe = <T>(topics: ChangeTopic[], read: () => Promise<T>, callback: (value: T) => void): (() => void) => {
+    let latest = 0;
+    let active = true;
+    const load = () => {
+        const run = ++latest;
+        read().then(value => { if (active && run === latest) callback(value); }).catch(console.error);
+    };
+    const stop = onChange(topics, load);
+    load();
+    return () => { active = false; stop(); };
 };
+
+export const subscribeMealsByDate = (date: string, callback: (meals: Meal[]) => void) =>
+    subscribe(['meals'], () => getMealsByDate(date), callback);
+export const subscribeMealsInRange = (from: string, to: string, callback: (meals: Meal[]) => void) =>
+    subscribe(['meals'], () => getMealsInRange(from, to), callback);
+export const subscribeDailySummaries = (from: string, to: string, callback: (summaries: DailySummary[]) => void) =>
+    subscribe(['meals'], () => getDailySummaries(from, to), callback);
+export const subscribeAllFavourites = (callback: (favourites: Favourite[]) => void) =>
+    subscribe(['favourites'], getAllFavourites, callback);
+export const subscribeWeightsInRange = (from: string, to: string, callback: (weights: WeightEntry[]) => void) =>
+    subscribe(['weights'], () => getWeightsInRange(from, to), callback);
+export const subscribeWaterInRange = (from: string, to: string, callback: (water: WaterEntry[]) => void) =>
+    subscribe(['water'], () => getWaterInRange(from, to), callback);
+export const subscribeActivitiesInRange = (from: string, to: string, callback: (activities: Activity[]) => void) =>
+    subscribe(['activities'], () => getActivitiesInRange(from, to), callback);
+export const subscribeAllRecipes = (callback: (recipes: Recipe[]) => void) =>
+    subscribe(['recipes'], getAllRecipes, callback);
+export const subscribeSettings = (callback: (settings: UserSettings) => void) =>
+    subscribe(['settings'], getSettings, callback);
@@ -0,0 +1,20 @@
+import type { Meal, Favourite, WeightEntry, WaterEntry, Activity, Recipe } from './db.idb';
+import type { SyncedCollection } from './db.firestore';
+
+/**
+ * Identity used to spot the same record arriving twice from different sources
+ * (guest data on sign-in, restored backups): date + time + text for meals,
+ * date + time for weights and water, date + time + name for activities, case-insensitive
+ * name for favourites and recipes.
+ */
+export const naturalKey = (store: SyncedCollection, record: Meal | Favourite | WeightEntry | WaterEntry | Activity | Recipe): string => {
+    switch (store) {
+        case 'meals': { const m = record as Meal; return `${m.date}|${m.timestamp}|${m.content}`; }
+        case 'activities': { const a = record as Activity; return `${a.date}|${a.timestamp}|${a.name}`; }
+        case 'weights':
+        case 'water': { const w = record as WeightEntry | WaterEntry; return `${w.date}|${w.timestamp}`; }
+        case 'favourites':
+        case 'recipes':
+            return (record as Favourite | Recipe).name.toLowerCase();
+    }
+};
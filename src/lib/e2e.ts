@@ -0,0 +1,299 @@
+/**
+ * e2e.ts — opt-in end-to-end encryption of what a signed-in user syncs
+ *
+ * When it's on, meal content and nutrients, favourites, recipes, weights, water
+ * amounts, activities and profile settings are AES-GCM encrypted on the device
+ * before they reach Firestore; ids, dates, timestamps and sync bookkeeping stay
+ * in clear so range queries and sync keep working. Firestore's per-day summaries aren't kept while it's on (each device
+ * derives its own from the meals it holds).
+ *
+ * Keys: one random data key per account encrypts everything. Firestore only
+ * holds it wrapped twice, in /users/{uid}/settings/encryption — once with a key
+ * derived from the user's passphrase, once with one derived from a recovery code
+ * shown when encryption is turned on. Each device unwraps it once and keeps it,
+ * non-extractable, in the local vault (secrets.ts). Changing the passphrase only
+ * re-wraps the data key, so existing data is untouched.
+ *
+ * db.firestore.ts calls encryptRecord / decryptRecord on every write and read;
+ * sync.ts refreshes the state at the start of every pass and rewrites existing
+ * documents after encryption is turned on or off.
+ */
+import { doc, getDoc, setDoc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { firestore } from './firebase';
+import { notifyChange, onChange } from './changes';
+import { seal, unseal, deriveKey, randomBytes, toBase64, fromBase64, sealedToString, sealedFromString } from './crypto';
+import { saveDataKey, loadDataKey, forgetDataKey } from './secrets';
+import type { SyncedCollection } from './db.firestore';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const RECOVERY_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';   // Crockford base32: no I, L, O, U
+
+/** Record fields that are encrypted; everything else stays readable by Firestore. */
+export const ENCRYPTED_FIELDS: Record<SyncedCollection, string[]> = {
+    meals: ['content', 'parsed', 'totalCalories', 'revisions'],
+    weights: ['weight'],
+    water: ['ml'],
+    activities: ['name', 'minutes', 'calories'],
+    favourites: ['name', 'content', 'parsed', 'totalCalories'],
+    recipes: ['name', 'ingredients', 'totalWeight', 'totalCalories', 'totalProtein', 'totalFat', 'totalCarbs', 'totalFiber', 'totalNutrients'],
+};
+
+// Bumped whenever ENCRYPTED_FIELDS grows, so accounts encrypted under an older list get rewritten
+const FIELDS_VERSION = 2;
+
+export const ENCRYPTED_SETTINGS: string[] = ['profileAge', 'profileWeight', 'profileHeight', 'goalWeight', 'goalDate'];
+
+interface EncryptionDoc {
+    encryptWrites: boolean;    // false while encryption is being turned off
+    rewritePending: boolean;   // existing documents still need rewriting in the current mode
+    fieldsVersion?: number;    // FIELDS_VERSION the documents were last rewritten for; absent means 1
+    passphraseSalt: string;
+    passphraseKey: string;     // data key wrapped with the passphrase key
+    recoverySalt: string;
+    recoveryKey: string;       // data key wrapped with the recovery code key
+    updatedAt: number;
+}
+
+export interface EncryptionStatus {
+    enabled: boolean;          // the account has encryption on (or is turning it off)
+    unlocked: boolean;         // this device holds the data key
+    rewritePending: boolean;
+}
+
+interface State {
+    config: EncryptionDoc | null;
+    key: CryptoKey | null;
+}
+
+const _state = new Map<string, State>();
+
+const configRef = (uid: string) => doc(firestore, 'users', uid, 'settings', 'encryption');
+
+const needsNewFields = (config: EncryptionDoc | null) =>
+    !!config?.encryptWrites && (config.fieldsVersion ?? 1) < FIELDS_VERSION;
+
+const statusOf = (state: State | undefined): EncryptionStatus => ({
+    enabled: !!state?.config,
+    unlocked: !!state?.key,
+    rewritePending: !!state?.config?.rewritePending || needsNewFields(state?.config ?? null),
+});
+
+const setState = (uid: string, state: State) => {
+    _state.set(uid, state);
+    notifyChange('secrets');
+};
+
+const requireOnline = () => {
+    if (!navigator.onLine) throw new Error('Connect to the internet to change encryption settings.');
+};
+
+const requireKey = (uid: string): CryptoKey => {
+    const key = _state.get(uid)?.key;
+    if (!key) throw new Error('Your synced data is encrypted. Enter your passphrase in Settings to unlock it.');
+    return key;
+};
+
+// --- Key wrapping ---
+const wrap = async (secret: string, dataKey: CryptoKey) => {
+    const salt = randomBytes(16);
+    const kek = await deriveKey(secret, salt, ['wrapKey', 'unwrapKey']);
+    const iv = randomBytes(12);
+    const data = await crypto.subtle.wrapKey('raw', dataKey, kek, { name: 'AES-GCM', iv });
+    return { salt: toBase64(salt), wrapped: sealedToString({ iv, data }) };
+};
+
+const unwrap = async (secret: string, salt: string, wrapped: string, extractable: boolean): Promise<CryptoKey | null> => {
+    const kek = await deriveKey(secret, fromBase64(salt), ['wrapKey', 'unwrapKey']);
+    const { iv, data } = sealedFromString(wrapped);
+    try {
+        return await crypto.subtle.unwrapKey('raw', data, kek, { name: 'AES-GCM', iv }, { name: 'AES-GCM' }, extractable, ['encrypt', 'decrypt']);
+    } catch {
+        return null;
+    }
+};
+
+// The device copy can't be exported again
+const storeLocally = async (uid: string, dataKey: CryptoKey): Promise<CryptoKey> => {
+    const raw = await crypto.subtle.exportKey('raw', dataKey);
+    const key = await crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    await saveDataKey(uid, key);
+    return key;
+};
+
+const newRecoveryCode = () => {
+    const chars = Array.from(randomBytes(25), b => RECOVERY_ALPHABET[b % RECOVERY_ALPHABET.length]).join('');
+    return chars.match(/.{5}/g)!.join('-');
+};
+
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^0-9A-Z]/g, '').match(/.{1,5}/g)?.join('-') ?? '';
+
+const checkPassphrase = (passphrase: string) => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    }
+};
+
+// --- State ---
+/** Re-reads the account's encryption settings and this device's key. */
+export const refreshEncryption = async (uid: string): Promise<EncryptionStatus> => {
+    const snap = await getDoc(configRef(uid));
+    const config = snap.exists() ? snap.data() as EncryptionDoc : null;
+    // Turned off from another device: the key isn't needed any more
+    if (!config) await forgetDataKey(uid);
+    const key = config ? await loadDataKey(uid) ?? null : null;
+    const before = _state.get(uid);
+    _state.set(uid, { config, key });
+    if (JSON.stringify(statusOf(before)) !== JSON.stringify(statusOf(_state.get(uid)))) notifyChange('secrets');
+    return statusOf(_state.get(uid));
+};
+
+export const getEncryptionStatus = (uid: string): EncryptionStatus => statusOf(_state.get(uid));
+
+/** Calls `callback` with the encryption status now and whenever it changes. Returns an unsubscribe function. */
+export const subscribeEncryption = (uid: string, callback: (status: EncryptionStatus) => void): (() => void) => {
+    const stop = onChange(['secrets'], () => callback(getEncryptionStatus(uid)));
+    refreshEncryption(uid).then(callback).catch(console.error);
+    return stop;
+};
+
+// --- Record transforms (db.firestore.ts) ---
+const encrypting = (uid: string) => !!_state.get(uid)?.config?.encryptWrites;
+
+/** Whether Firestore's derived per-day totals should be kept for this account. */
+export const keepsRemoteSummaries = (uid: string) => !_state.get(uid)?.config;
+
+/** A record ready to upload: its ENCRYPTED_FIELDS sealed into one `enc` field, when encryption is on. */
+export const encryptRecord = async <T extends object>(uid: string, col: SyncedCollection, record: T): Promise<object> => {
+    const fields = ENCRYPTED_FIELDS[col].filter(f => f in record);
+    if (!encrypting(uid) || fields.length === 0) return record;
+    const clear = { ...record } as Record<string, unknown>;
+    const secret: Record<string, unknown> = {};
+    for (const f of fields) {
+        secret[f] = clear[f];
+        delete clear[f];
+    }
+    return { ...clear, enc: sealedToString(await seal(requireKey(uid), JSON.stringify(secret))) };
+};
+
+export const decryptRecord = async (uid: string, data: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    if (typeof data.enc !== 'string') return data;
+    const clear = { ...data };
+    delete clear.enc;
+    return { ...clear, ...JSON.parse(await unseal(requireKey(uid), sealedFromString(data.enc))) };
+};
+
+export const encryptSetting = async (uid: string, key: string, value: unknown): Promise<unknown> => {
+    if (!encrypting(uid) || !ENCRYPTED_SETTINGS.includes(key)) return value;
+    return { enc: sealedToString(await seal(requireKey(uid), JSON.stringify(value))) };
+};
+
+export const decryptSetting = async (uid: string, value: unknown): Promise<unknown> => {
+    const enc = (value as { enc?: unknown } | null)?.enc;
+    if (typeof enc !== 'string') return value;
+    return JSON.parse(await unseal(requireKey(uid), sealedFromString(enc)));
+};
+
+// --- Managing encryption ---
+/**
+ * Turns encryption on for the account. Returns the recovery code, which is only
+ * ever shown now. Existing documents are rewritten by the next sync pass.
+ */
+export const createEncryption = async (uid: string, passphrase: string): Promise<string> => {
+    checkPassphrase(passphrase);
+    requireOnline();
+    if ((await refreshEncryption(uid)).enabled) throw new Error('Encryption is already on for this account.');
+    const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const recoveryCode = newRecoveryCode();
+    const [byPassphrase, byRecovery] = await Promise.all([wrap(passphrase, dataKey), wrap(recoveryCode, dataKey)]);
+    const config: EncryptionDoc = {
+        encryptWrites: true,
+        rewritePending: true,
+        fieldsVersion: FIELDS_VERSION,
+        passphraseSalt: byPassphrase.salt,
+        passphraseKey: byPassphrase.wrapped,
+        recoverySalt: byRecovery.salt,
+        recoveryKey: byRecovery.wrapped,
+        updatedAt: Date.now(),
+    };
+    await setDoc(configRef(uid), config);
+    setState(uid, { config, key: await storeLocally(uid, dataKey) });
+    return recoveryCode;
+};
+
+/** Gives this device the data key, from the passphrase. */
+export const unlockEncryption = async (uid: string, passphrase: string): Promise<void> => {
+    requireOnline();
+    await refreshEncryption(uid);
+    const config = _state.get(uid)?.config;
+    if (!config) return;
+    const dataKey = await unwrap(passphrase, config.passphraseSalt, config.passphraseKey, true);
+    if (!dataKey) throw new Error('Wrong passphrase.');
+    setState(uid, { config, key: await storeLocally(uid, dataKey) });
+};
+
+export const changePassphrase = async (uid: string, current: string, next: string): Promise<void> => {
+    checkPassphrase(next);
+    requireOnline();
+    await refreshEncryption(uid);
+    const config = _state.get(uid)?.config;
+    if (!config) throw new Error('Encryption is off for this account.');
+    const dataKey = await unwrap(current, config.passphraseSalt, config.passphraseKey, true);
+    if (!dataKey) throw new Error('Current passphrase is wrong.');
+    const { salt, wrapped } = await wrap(next, dataKey);
+    const patch = { passphraseSalt: salt, passphraseKey: wrapped, updatedAt: Date.now() };
+    await updateDoc(configRef(uid), patch);
+    setState(uid, { config: { ...config, ...patch }, key: _state.get(uid)?.key ?? await storeLocally(uid, dataKey) });
+};
+
+/**
+ * For a forgotten passphrase: unlocks with the recovery code and sets a new
+ * passphrase. The used code stops working; returns its replacement.
+ */
+export const recoverEncryption = async (uid: string, recoveryCode: string, passphrase: string): Promise<string> => {
+    checkPassphrase(passphrase);
+    requireOnline();
+    await refreshEncryption(uid);
+    const config = _state.get(uid)?.config;
+    if (!config) throw new Error('Encryption is off for this account.');
+    const dataKey = await unwrap(normalizeRecoveryCode(recoveryCode), config.recoverySalt, config.recoveryKey, true);
+    if (!dataKey) throw new Error('That recovery code is not right.');
+    const nextCode = newRecoveryCode();
+    const [byPassphrase, byRecovery] = await Promise.all([wrap(passphrase, dataKey), wrap(nextCode, dataKey)]);
+    const patch = {
+        passphraseSalt: byPassphrase.salt,
+        passphraseKey: byPassphrase.wrapped,
+        recoverySalt: byRecovery.salt,
+        recoveryKey: byRecovery.wrapped,
+        updatedAt: Date.now(),
+    };
+    await updateDoc(configRef(uid), patch);
+    setState(uid, { config: { ...config, ...patch }, key: await storeLocally(uid, dataKey) });
+    return nextCode;
+};
+
+/** Starts turning encryption off: new writes go up in clear, and the next sync pass decrypts the rest. */
+export const beginDisableEncryption = async (uid: string): Promise<void> => {
+    requireOnline();
+    await refreshEncryption(uid);
+    const config = _state.get(uid)?.config;
+    if (!config) return;
+    requireKey(uid);
+    const patch = { encryptWrites: false, rewritePending: true, updatedAt: Date.now() };
+    await updateDoc(configRef(uid), patch);
+    setState(uid, { config: { ...config, ...patch }, key: _state.get(uid)!.key });
+};
+
+/** Called by sync.ts once every document has been rewritten in the current mode. */
+export const finishRewrite = async (uid: string): Promise<void> => {
+    const config = _state.get(uid)?.config;
+    if (!config) return;
+    if (config.encryptWrites) {
+        const patch = { rewritePending: false, fieldsVersion: FIELDS_VERSION };
+        await updateDoc(configRef(uid), patch);
+        setState(uid, { config: { ...config, ...patch }, key: _state.get(uid)!.key });
+    } else {
+        await deleteDoc(configRef(uid));
+        await forgetDataKey(uid);
+        setState(uid, { config: null, key: null });
+    }
+};
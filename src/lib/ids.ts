@@ -0,0 +1,39 @@
+/**
+ * ids.ts — record identity
+ *
+ * Every meal, favourite, weight entry and recipe gets its ID on the device that
+ * creates it, before it's written anywhere. The same string is the IndexedDB key,
+ * the Firestore document id and the record's `id` field, so a record keeps its
+ * identity through sync, guest import and undo.
+ *
+ * IDs are ULIDs: 48 bits of creation time then 80 random bits, in Crockford
+ * base32, so they sort by creation time and can't realistically collide.
+ * Records created before string IDs keep their old number, as a string — which
+ * is also the Firestore document id they already had (migrations.ts, v6).
+ */
+
+export type RecordId = string;
+
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+const encode = (value: number, length: number) => {
+    let out = '';
+    for (let i = 0; i < length; i++) {
+        out = ALPHABET[value % 32] + out;
+        value = Math.floor(value / 32);
+    }
+    return out;
+};
+
+/** A new, unique, time-sortable record ID. */
+export const newId = (): RecordId => {
+    const random = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => ALPHABET[b % 32]).join('');
+    return encode(Date.now(), 10) + random;
+};
+
+/** Whether an ID predates string IDs. Those were only unique within one database. */
+export const isLegacyId = (id: RecordId) => /^\d+$/.test(id);
+
+/** The ID a record stored before string IDs keeps. */
+export const legacyId = (id: unknown): RecordId | undefined =>
+    typeof id === 'number' ? String(id) : id as RecordId | undefined;
@@ -0,0 +1,34 @@
+/**
+ * items.ts — the foods in a meal
+ *
+ * A meal holds one item per food in `parsed`, each with its own macros, so
+ * "dal, rice and salad" is one meal with three lines. Totals are always the sum
+ * of the items: `totalCalories` is stored for cheap reads and must be kept in
+ * step with `withItems()` whenever the items change.
+ */
+import type { Meal, MealItem } from './db.idb';
+import { sumNutrients, withNutrients } from './nutrients';
+
+export type Macros = Omit<MealItem, 'food'>;
+
+export const EMPTY_MACROS: Macros = { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0 };
+
+/** Sum of every item's macros, plus whichever other nutrients they report. */
+export const itemTotals = (items: MealItem[] | undefined): Macros => ({
+    ...(items ?? []).reduce((sum, item) => ({
+        calories: sum.calories + (item.calories || 0),
+        protein: sum.protein + (item.protein || 0),
+        fat: sum.fat + (item.fat || 0),
+        carbs: sum.carbs + (item.carbs || 0),
+        fiber: sum.fiber + (item.fiber || 0),
+    }), EMPTY_MACROS),
+    ...withNutrients(sumNutrients((items ?? []).map(item => item.nutrients))),
+});
+
+/** The items plus the total they add up to, ready to spread into a meal or favourite. */
+export const withItems = (items: MealItem[]): Pick<Meal, 'parsed' | 'totalCalories'> =>
+    ({ parsed: items, totalCalories: itemTotals(items).calories });
+
+/** A one-line name for a meal: its foods, or what the user typed if there are none. */
+export const mealTitle = (meal: Pick<Meal, 'parsed' | 'content'>): string =>
+    meal.parsed?.map(item => item.food).filter(Boolean).join(', ') || meal.content;
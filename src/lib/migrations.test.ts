@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { openDB } from 'idb';
+import { createStores, createSummaryStore, idbBackend, initDB } from './db.idb';
+import { migrateRecord, runMigrations, BASE_SCHEMA_VERSION, SCHEMA_VERSION, type Migration, type UpgradeTx } from './migrations';
+
+const DB_NAME = 'meal-tracker-db';
+
+const DAL = { food: 'Dal', calories: 300, protein: 15, fat: 8, carbs: 40, fiber: 9 };
+
+// The guest DB as the last version before daily totals left it
+const createV4 = async () => {
+    const db = await openDB(DB_NAME, 4, {
+        async upgrade(db, _oldVersion, _newVersion, tx) {
+            createStores(db);
+            await tx.objectStore('meals').add({ date: '2026-03-01', timestamp: 1, content: 'dal', parsed: [DAL], totalCalories: 300 });
+            await tx.objectStore('meals').add({ date: '2026-03-01', timestamp: 2, content: 'rice', parsed: [{ food: 'Rice', calories: 200, protein: 4, fat: 1, carbs: 45, fiber: 1 }], totalCalories: 200 });
+        },
+    });
+    db.close();
+};
+
+// The guest DB as the last version before string IDs left it, with numeric keys and daily totals
+const createV5 = async () => {
+    const db = await openDB(DB_NAME, BASE_SCHEMA_VERSION, {
+        async upgrade(db, _oldVersion, _newVersion, tx) {
+            createStores(db);
+            await tx.objectStore('meals').add({ date: '2026-03-01', timestamp: 1, content: 'dal', parsed: [DAL], totalCalories: 300 });
+            await tx.objectStore('meals').add({ date: '2026-03-02', timestamp: 2, content: 'rice', parsed: [], totalCalories: 0, deletedAt: 5 });
+            await tx.objectStore('weights').add({ date: '2026-03-01', timestamp: 1, weight: 70 });
+            await createSummaryStore(db, tx);
+        },
+    });
+    db.close();
+};
+
+// A fresh IndexedDB per test: initDB() leaves its connections open, so the DB can't be deleted
+beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+describe('guest DB upgrade from before daily totals', () => {
+    beforeEach(createV4);
+
+    it('opens at the current version and fills the daily totals from existing meals', async () => {
+        const db = await initDB();
+        expect(db.version).toBe(SCHEMA_VERSION);
+        db.close();
+
+        expect(await idbBackend.getDailySummaries('2026-03-01', '2026-03-01')).toMatchObject([{ calories: 500, protein: 19, mealCount: 2 }]);
+        expect(await idbBackend.getAllMeals()).toHaveLength(2);
+    });
+});
+
+describe('guest DB upgrade from before string IDs', () => {
+    beforeEach(createV5);
+
+    it('rekeys records by string ID, trashed ones included', async () => {
+        expect((await idbBackend.getAllMeals()).map(m => m.id)).toEqual(['1']);
+        expect((await idbBackend.getTrash()).meals.map(m => m.id)).toEqual(['2']);
+        expect((await idbBackend.getAllWeights()).map(w => w.id)).toEqual(['1']);
+
+        const db = await initDB();
+        expect(await db.getAllKeys('meals')).toEqual(['1', '2']);
+        db.close();
+    });
+
+    it('keeps the stored daily totals and works with the rekeyed records', async () => {
+        expect(await idbBackend.getDailySummaries('2026-03-01', '2026-03-01')).toMatchObject([{ calories: 300, mealCount: 1 }]);
+
+        const [meal] = await idbBackend.getAllMeals();
+        await idbBackend.deleteMeal(meal.id!);
+        expect(await idbBackend.getAllMeals()).toEqual([]);
+        expect(await idbBackend.getDailySummaries('2026-03-01', '2026-03-01')).toEqual([]);
+    });
+
+    it('adds the stores later versions use', async () => {
+        const db = await initDB();
+        expect(db.version).toBe(SCHEMA_VERSION);
+        expect([...db.objectStoreNames]).toEqual(expect.arrayContaining(['water', 'activities', 'meta']));
+        db.close();
+
+        expect(await idbBackend.getMeta('waterMealsMoved')).toBeUndefined();
+        await idbBackend.setMeta('waterMealsMoved', true);
+        expect(await idbBackend.getMeta('waterMealsMoved')).toBe(true);
+    });
+});
+
+describe('runMigrations', () => {
+    const migrations: Migration[] = [
+        { version: 1, description: 'Notes', upgrade: db => { db.createObjectStore('notes', { keyPath: 'id' }); } },
+        { version: 2, description: 'Titles', records: { meals: r => ({ ...r, title: String(r.content).toUpperCase() }) } },
+        { version: 3, description: 'By title', upgrade: (_db, tx) => { tx.objectStore('notes').createIndex('by-title', 'title'); } },
+    ];
+
+    const open = (version: number, seed?: (tx: UpgradeTx) => Promise<void>) =>
+        openDB('test-db', version, {
+            async upgrade(db, oldVersion, _newVersion, tx) {
+                if (!db.objectStoreNames.contains('meals')) db.createObjectStore('meals', { keyPath: 'id' });
+                await runMigrations(migrations.filter(m => m.version <= version), db, oldVersion, tx);
+                await seed?.(tx);
+            },
+        });
+
+    it('runs only the newer migrations, in order, rewriting records but not tombstones', async () => {
+        const v1 = await open(1, async tx => {
+            await tx.objectStore('meals').put({ id: 1, content: 'dal' });
+            await tx.objectStore('meals').put({ id: 2, deleted: true });
+        });
+        v1.close();
+
+        const db = await open(3);
+        expect(await db.getAll('meals')).toEqual([{ id: 1, content: 'dal', title: 'DAL' }, { id: 2, deleted: true }]);
+        expect([...db.transaction('notes').store.indexNames]).toEqual(['by-title']);
+        db.close();
+    });
+});
+
+describe('migrateRecord', () => {
+    it('brings a record written by an older version up to date', () => {
+        expect(migrateRecord('meals', { id: 7, content: 'dal' }, BASE_SCHEMA_VERSION)).toEqual({ id: '7', content: 'dal' });
+    });
+
+    it('leaves current records alone', () => {
+        const record = { id: 7, content: 'dal' };
+        expect(migrateRecord('meals', record, SCHEMA_VERSION)).toBe(record);
+    });
+
+    it('rewrites deletion markers too', () => {
+        expect(migrateRecord('weights', { id: 3, deleted: true }, BASE_SCHEMA_VERSION)).toEqual({ id: '3', deleted: true });
+    });
+});
@@ -0,0 +1,158 @@
+/**
+ * migrations.ts — versioned schema changes
+ *
+ * Each IndexedDB database (guest DB in db.idb.ts, signed-in mirror in outbox.ts)
+ * has an ordered list of migrations and opens at the highest version in it.
+ * On upgrade, every migration newer than the stored version runs in order inside
+ * the upgrade transaction. A migration can change stores and indexes (`upgrade`)
+ * and rewrite existing records (`records`).
+ *
+ * Record changes go in SCHEMA_MIGRATIONS, which both databases include. The same
+ * record transforms are applied lazily to Firestore documents: every document is
+ * written with the schemaVersion it was shaped for, and db.firestore.ts runs any
+ * newer transforms when it reads one. Documents written before versioning
+ * existed count as BASE_SCHEMA_VERSION.
+ *
+ * To change a record shape: append a migration with the next version to
+ * SCHEMA_MIGRATIONS whose `records` transforms old records into the new shape.
+ * Never edit or reorder a migration that has shipped.
+ */
+import type { IDBPDatabase, IDBPTransaction } from 'idb';
+import type { SyncedCollection } from './db.firestore';
+import { legacyId } from './ids';
+
+export type UpgradeTx = IDBPTransaction<unknown, string[], 'versionchange'>;
+export type DocData = Record<string, unknown>;
+export type RecordTransforms = Partial<Record<SyncedCollection, (record: DocData) => DocData>>;
+
+export interface Migration {
+    version: number;
+    description: string;
+    /** Structural changes — create stores, add or replace indexes. */
+    upgrade?: (db: IDBPDatabase, tx: UpgradeTx) => void | Promise<void>;
+    /** Per-record rewrites; tombstones are left alone unless `tombstones` is set. */
+    records?: RecordTransforms;
+    tombstones?: boolean;
+}
+
+// The guest DB's version when migrations were introduced. Shared migrations are
+// numbered above it so both databases can append them to their own history.
+export const BASE_SCHEMA_VERSION = 5;
+
+const RECORD_STORES: SyncedCollection[] = ['meals', 'favourites', 'weights', 'recipes'];
+
+// IndexedDB can't change the type of a stored key, so each record store is
+// rebuilt (same indexes, no autoIncrement) with its records under string ids.
+// Conflicts point at records by id too.
+const rekeyRecordStores = async (db: IDBPDatabase, tx: UpgradeTx) => {
+    for (const name of RECORD_STORES) {
+        if (!db.objectStoreNames.contains(name)) continue;
+        const old = tx.objectStore(name);
+        const indexes = Array.from(old.indexNames, index => old.index(index));
+        const specs = indexes.map(index => ({ name: index.name, keyPath: index.keyPath, unique: index.unique }));
+        const rows = await old.getAll() as DocData[];
+        db.deleteObjectStore(name);
+        const store = db.createObjectStore(name, { keyPath: 'id' });
+        specs.forEach(spec => store.createIndex(spec.name, spec.keyPath, { unique: spec.unique }));
+        await Promise.all(rows.map(row => store.put({ ...row, id: legacyId(row.id) })));
+    }
+    if (db.objectStoreNames.contains('conflicts')) {
+        let cursor = await tx.objectStore('conflicts').openCursor();
+        while (cursor) {
+            if (typeof cursor.value.recordId === 'number') await cursor.update({ ...cursor.value, recordId: legacyId(cursor.value.recordId) });
+            cursor = await cursor.continue();
+        }
+    }
+};
+
+const stringId = (record: DocData) => ({ ...record, id: legacyId(record.id) });
+
+/** Record-shape changes shared by the guest DB, the mirror and Firestore. Versions start after BASE_SCHEMA_VERSION. */
+export const SCHEMA_MIGRATIONS: Migration[] = [
+    {
+        version: 6,
+        description: 'String record IDs (see ids.ts)',
+        upgrade: rekeyRecordStores,
+        records: { meals: stringId, favourites: stringId, weights: stringId, recipes: stringId },
+        tombstones: true,
+    },
+    {
+        version: 7,
+        description: 'Water log (see water.ts)',
+        upgrade: db => {
+            if (!db.objectStoreNames.contains('water')) db.createObjectStore('water', { keyPath: 'id' }).createIndex('by-date', 'date');
+        },
+    },
+    {
+        version: 8,
+        description: 'Activity log (see activity.ts)',
+        upgrade: db => {
+            if (!db.objectStoreNames.contains('activities')) db.createObjectStore('activities', { keyPath: 'id' }).createIndex('by-date', 'date');
+        },
+    },
+    {
+        version: 9,
+        description: 'Bookkeeping store in the guest DB (the mirror already has one)',
+        upgrade: db => {
+            if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta', { keyPath: 'key' });
+        },
+    },
+];
+
+export const SCHEMA_VERSION = Math.max(BASE_SCHEMA_VERSION, ...SCHEMA_MIGRATIONS.map(m => m.version));
+
+export const latestVersion = (migrations: Migration[]) => Math.max(...migrations.map(m => m.version));
+
+const transform = (fn: (record: DocData) => DocData, record: DocData, tombstones = false) =>
+    record && (tombstones || !record.deleted) ? fn(record) : record;
+
+/** Brings a record read from Firestore up to the current shape. */
+export const migrateRecord = <T>(col: SyncedCollection, record: DocData, fromVersion: number): T =>
+    SCHEMA_MIGRATIONS
+        .filter(m => m.version > fromVersion && m.records?.[col])
+        .reduce((r, m) => transform(m.records![col]!, r, m.tombstones), record) as T;
+
+// Rewrites every record in the affected stores, including copies held in the
+// mirror's outbox and conflicts stores so queued writes don't reintroduce the old shape
+const rewriteRecords = async (tx: UpgradeTx, transforms: RecordTransforms, tombstones = false) => {
+    const names = Array.from(tx.objectStoreNames);
+    for (const [col, fn] of Object.entries(transforms) as [SyncedCollection, (r: DocData) => DocData][]) {
+        if (!names.includes(col)) continue;
+        let cursor = await tx.objectStore(col).openCursor();
+        while (cursor) {
+            await cursor.update(transform(fn, cursor.value, tombstones));
+            cursor = await cursor.continue();
+        }
+    }
+    if (names.includes('outbox')) {
+        let cursor = await tx.objectStore('outbox').openCursor();
+        while (cursor) {
+            const fn = cursor.value.kind === 'put' ? transforms[cursor.value.store as SyncedCollection] : undefined;
+            if (fn) await cursor.update({ ...cursor.value, record: transform(fn, cursor.value.record, tombstones) });
+            cursor = await cursor.continue();
+        }
+    }
+    if (names.includes('conflicts')) {
+        let cursor = await tx.objectStore('conflicts').openCursor();
+        while (cursor) {
+            const fn = transforms[cursor.value.store as SyncedCollection];
+            if (fn) {
+                await cursor.update({
+                    ...cursor.value,
+                    local: transform(fn, cursor.value.local, tombstones),
+                    remote: transform(fn, cursor.value.remote, tombstones),
+                });
+            }
+            cursor = await cursor.continue();
+        }
+    }
+};
+
+/** Runs, in order, every migration newer than `oldVersion`. Call from an openDB upgrade callback. */
+export const runMigrations = async (migrations: Migration[], db: IDBPDatabase, oldVersion: number, tx: UpgradeTx) => {
+    for (const migration of migrations) {
+        if (migration.version <= oldVersion) continue;
+        await migration.upgrade?.(db, tx);
+        if (migration.records) await rewriteRecords(tx, migration.records, migration.tombstones);
+    }
+};
@@ -0,0 +1,91 @@
+/**
+ * nutrients.ts — what's tracked beyond calories and the four macros
+ *
+ * Sugar, sodium, saturated fat and friends ride along as an optional
+ * `nutrients` map on every place that carries macros: meal items, recipe
+ * ingredients and totals, food DB entries (per 100), barcode products (per
+ * 100) and daily summaries. A key that's missing isn't known — older meals,
+ * foods the LLM didn't report on — and adds nothing to totals.
+ *
+ * Adding a nutrient means adding its key to `NutrientKey` (db.idb.ts) and a
+ * row to NUTRIENTS; prompts, parsing, Open Food Facts mapping, totals, the
+ * settings form and the Home bars all follow from the list.
+ */
+import type { NutrientKey, Nutrients } from './db.idb';
+
+export interface NutrientDef {
+    key: NutrientKey;
+    label: string;
+    unit: 'g' | 'mg';
+    kind: 'limit' | 'goal';   // stay under it, or reach it
+    suggested: number;        // common adult daily reference, shown as a hint in Settings
+    off: string;              // Open Food Facts nutriment name (reported in grams per 100g)
+}
+
+export const NUTRIENTS: NutrientDef[] = [
+    { key: 'sugar',        label: 'Sugar',         unit: 'g',  kind: 'limit', suggested: 50,   off: 'sugars' },
+    { key: 'addedSugar',   label: 'Added sugar',   unit: 'g',  kind: 'limit', suggested: 25,   off: 'added-sugars' },
+    { key: 'saturatedFat', label: 'Saturated fat', unit: 'g',  kind: 'limit', suggested: 20,   off: 'saturated-fat' },
+    { key: 'sodium',       label: 'Sodium',        unit: 'mg', kind: 'limit', suggested: 2300, off: 'sodium' },
+    { key: 'potassium',    label: 'Potassium',     unit: 'mg', kind: 'goal',  suggested: 3500, off: 'potassium' },
+    { key: 'cholesterol',  label: 'Cholesterol',   unit: 'mg', kind: 'limit', suggested: 300,  off: 'cholesterol' },
+    { key: 'calcium',      label: 'Calcium',       unit: 'mg', kind: 'goal',  suggested: 1000, off: 'calcium' },
+    { key: 'iron',         label: 'Iron',          unit: 'mg', kind: 'goal',  suggested: 18,   off: 'iron' },
+];
+
+export const NUTRIENT_KEYS: NutrientKey[] = NUTRIENTS.map(n => n.key);
+
+// One decimal: iron and added sugar are often small
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/** Sum of every known amount; a nutrient none of them report stays unknown. */
+export const sumNutrients = (list: (Nutrients | undefined)[]): Nutrients => {
+    const sum: Nutrients = {};
+    for (const nutrients of list) {
+        for (const key of NUTRIENT_KEYS) {
+            const value = nutrients?.[key];
+            if (value !== undefined) sum[key] = round((sum[key] ?? 0) + value);
+        }
+    }
+    return sum;
+};
+
+/** Every known amount multiplied by `ratio` (portion of a per-100 value or of a recipe). */
+export const scaleNutrients = (nutrients: Nutrients | undefined, ratio: number): Nutrients => {
+    const scaled: Nutrients = {};
+    for (const key of NUTRIENT_KEYS) {
+        const value = nutrients?.[key];
+        if (value !== undefined) scaled[key] = round(value * ratio);
+    }
+    return scaled;
+};
+
+/** Amounts from an LLM reply or any untrusted object, keeping only valid non-negative numbers. */
+export const readNutrients = (raw: unknown): Nutrients => {
+    if (typeof raw !== 'object' || raw === null) return {};
+    const read: Nutrients = {};
+    for (const key of NUTRIENT_KEYS) {
+        const value = parseFloat((raw as Record<string, unknown>)[key] as string);
+        if (Number.isFinite(value) && value >= 0) read[key] = round(value);
+    }
+    return read;
+};
+
+/** `{ nutrients }` to spread into a record, or nothing when none are known (Firestore rejects undefined fields). */
+export const withNutrients = (nutrients: Nutrients | undefined): { nutrients?: Nutrients } =>
+    nutrients && Object.keys(nutrients).length > 0 ? { nutrients } : {};
+
+/** Open Food Facts nutriments (grams per 100g) as per-100 amounts in our units. */
+export const fromOFF = (nutriments: Record<string, unknown>): Nutrients => {
+    const per100: Nutrients = {};
+    for (const { key, unit, off } of NUTRIENTS) {
+        const grams = parseFloat(nutriments[`${off}_100g`] as string);
+        if (Number.isFinite(grams) && grams >= 0) per100[key] = round(unit === 'mg' ? grams * 1000 : grams);
+    }
+    return per100;
+};
+
+/** The field prompts add to each food object, e.g. `"nutrients":{"sugar":g,…,"sodium":mg}`; read back with readNutrients(). */
+export const NUTRIENTS_FIELD = `"nutrients":{${NUTRIENTS.map(n => `"${n.key}":${n.unit}`).join(',')}}`;
+
+export const NUTRIENTS_RULE = 'In "nutrients", give each amount as a number in the unit shown (g or mg); leave out any you can\'t estimate.';
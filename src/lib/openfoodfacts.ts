@@ -1,3 +1,6 @@
+import type { Nutrients } from './db.idb';
+import { fromOFF } from './nutrients';
+
 export interface OFFProduct {
     barcode: string;
     name: string;
@@ -7,6 +10,7 @@ export interface OFFProduct {
     per100fat: number;
     per100carbs: number;
     per100fiber: number;
+    per100nutrients: Nutrients;   // whichever of sugar, sodium… the product lists
 }
 
 export type OFFResult =
@@ -41,6 +45,7 @@ export async function fetchByBarcode(barcode: string): Promise<OFFResult> {
             per100fat:     Math.round(parseFloat(n['fat_100g'] ?? '0')),
             per100carbs:   Math.round(parseFloat(n['carbohydrates_100g'] ?? '0')),
             per100fiber:   Math.round(parseFloat(n['fiber_100g'] ?? '0')),
+            per100nutrients: fromOFF(n),
         },
     };
 }
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { Meal } from './db';
+import { withItems } from './items';
+import * as local from './outbox';
+
+const UID = 'u1';
+
+const dal: Omit<Meal, 'id'> = {
+    date: '2026-03-01', timestamp: new Date(2026, 2, 1, 13).getTime(), content: 'dal',
+    ...withItems([{ food: 'Dal', calories: 300, protein: 15, fat: 8, carbs: 40, fiber: 9 }]),
+};
+
+// A fresh IndexedDB per test, and no mirror connection carried over from the last one
+beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+});
+
+afterEach(() => {
+    local.closeMirrors();
+    vi.unstubAllGlobals();
+});
+
+describe('queued writes', () => {
+    it('apply to the mirror at once and queue each change with the rev it replaced', async () => {
+        const queued = vi.fn();
+        const stop = local.onQueued(queued);
+
+        const id = await local.addRecord(UID, 'meals', dal);
+        const added = (await local.getRecord(UID, 'meals', id))!;
+        await local.putRecord(UID, 'meals', { ...added, content: 'dal fry' } as Meal);
+        stop();
+
+        const ops = await local.peekOps(UID, 10);
+        expect(ops).toMatchObject([
+            { kind: 'put', store: 'meals', record: { id, content: 'dal', rev: added.rev }, baseRev: undefined },
+            { kind: 'put', store: 'meals', record: { id, content: 'dal fry' }, baseRev: added.rev },
+        ]);
+        expect((await local.getAll(UID, 'meals')).map(m => m.content)).toEqual(['dal fry']);
+        expect(await local.getDailySummaries(UID, '2026-03-01', '2026-03-01')).toMatchObject([{ calories: 300, mealCount: 1 }]);
+        expect(queued).toHaveBeenCalledTimes(2);
+        expect(queued).toHaveBeenCalledWith(UID);
+    });
+
+    it('queue a purge as a tombstone and take the meal off its day', async () => {
+        const id = await local.addRecord(UID, 'meals', dal);
+        await local.deleteRecord(UID, 'meals', id);
+
+        const [, op] = await local.peekOps(UID, 10);
+        expect(op).toMatchObject({ kind: 'put', record: { id, deleted: true } });
+        expect(await local.getAll(UID, 'meals')).toEqual([]);
+        expect(await local.getDailySummaries(UID, '2026-03-01', '2026-03-01')).toEqual([]);
+    });
+
+    it('queue settings with the time they were changed', async () => {
+        await local.saveSetting(UID, 'dailyCalories', 1800, 5);
+        expect(await local.peekOps(UID, 10)).toMatchObject([{ kind: 'setting', key: 'dailyCalories', value: 1800, updatedAt: 5 }]);
+        expect((await local.getSettings(UID)).dailyCalories).toBe(1800);
+        expect(await local.countPending(UID)).toBe(1);
+    });
+});
+
+describe('applyRemote', () => {
+    it('holds back a pulled version while a local change to the record is queued', async () => {
+        const id = await local.addRecord(UID, 'meals', dal);
+        const remote = { ...dal, id, content: 'remote dal', rev: 'r2', updatedAt: 1 } as Meal;
+
+        await local.applyRemote(UID, 'meals', [remote]);
+        expect((await local.getRecord(UID, 'meals', id) as Meal).content).toBe('dal');
+
+        // Once the push has decided, the pulled version goes in
+        const [op] = await local.peekOps(UID, 10);
+        await local.applyRemote(UID, 'meals', [remote], op.seq);
+        expect((await local.getRecord(UID, 'meals', id) as Meal).content).toBe('remote dal');
+    });
+
+    it('keeps only newer settings and none with a queued change', async () => {
+        await local.applyRemoteSettings(UID, [{ key: 'dailyCalories', value: 2200, updatedAt: 10 }]);
+        await local.applyRemoteSettings(UID, [{ key: 'dailyCalories', value: 1500, updatedAt: 5 }]);
+        expect((await local.getSettings(UID)).dailyCalories).toBe(2200);
+
+        await local.saveSetting(UID, 'dailyProtein', 90, 20);
+        await local.applyRemoteSettings(UID, [{ key: 'dailyProtein', value: 150, updatedAt: 30 }]);
+        expect((await local.getSettings(UID)).dailyProtein).toBe(90);
+    });
+});
+
+describe('mirror connections', () => {
+    it('opens one per account and reuses it for every call', async () => {
+        const open = vi.spyOn(indexedDB, 'open');
+
+        await local.addRecord(UID, 'meals', dal);
+        await local.getAll(UID, 'meals');
+        await local.setMeta(UID, 'cursor:meals', 3);
+        expect(await local.getMeta(UID, 'cursor:meals')).toBe(3);
+        await local.getAll('u2', 'meals');
+
+        expect(open.mock.calls.map(([name]) => name)).toEqual(['meal-tracker-db-u1', 'meal-tracker-db-u2']);
+    });
+
+    it("closes other accounts' connections on a switch and reopens on next use", async () => {
+        const open = vi.spyOn(indexedDB, 'open');
+        await local.getAll(UID, 'meals');
+        await local.getAll('u2', 'meals');
+
+        local.closeMirrors('u2');
+        await local.getAll('u2', 'meals');
+        expect(open).toHaveBeenCalledTimes(2);
+
+        expect(await local.getAll(UID, 'meals')).toEqual([]);
+        expect(open).toHaveBeenCalledTimes(3);
+    });
+});
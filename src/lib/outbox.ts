@@ -0,0 +1,436 @@
+/**
+ * outbox.ts — local side of signed-in sync
+ *
+ * Signed-in reads and writes go to a per-user IndexedDB mirror. Every write is
+ * stamped (updatedAt + a fresh rev), applied to the mirror and recorded in the
+ * `outbox` store within the same transaction. sync.ts pushes the outbox to
+ * Firestore in order and pulls other devices' changes back into the mirror.
+ */
+import { openDB, type IDBPDatabase, type IDBPTransaction } from 'idb';
+import type { StorageBackend, Trash } from './storage';
+import { resetAllData as resetRemote, type SyncedCollection } from './db.firestore';
+import { newId, type RecordId } from './ids';
+import { applyMealChange } from './summaries';
+import { mergeIncoming } from './revisions';
+import { notifyChange } from './changes';
+import { runMigrations, latestVersion, SCHEMA_MIGRATIONS, type Migration } from './migrations';
+import { createStores, createSummaryStore, summaryStore, writeAllSummaries, resetAllData as resetGuest, DEFAULT_SETTINGS, type DailySummary, type Meal, type Favourite, type WeightEntry, type WaterEntry, type Activity, type Recipe, type UserSettings } from './db.idb';
+
+export type MirrorStore = SyncedCollection;
+
+export type MirrorRecord = {
+    meals: Meal;
+    favourites: Favourite;
+    weights: WeightEntry;
+    recipes: Recipe;
+    water: WaterEntry;
+    activities: Activity;
+};
+export type AnyRecord = MirrorRecord[MirrorStore];
+type MirrorTx = IDBPTransaction<unknown, string[], 'readwrite'>;
+
+export type OutboxOp =
+    | { kind: 'put'; store: MirrorStore; record: AnyRecord; baseRev?: string; queuedAt: number }
+    | { kind: 'setting'; key: keyof UserSettings; value: unknown; updatedAt: number; queuedAt: number };
+export type QueuedOp = OutboxOp & { seq: number };
+
+export interface SettingRow {
+    key: keyof UserSettings;
+    value: unknown;
+    updatedAt?: number;
+}
+
+/** A record or setting changed on two devices at once; the loser is kept so the user can restore it. */
+export interface Conflict {
+    id?: number;
+    store: MirrorStore | 'settings';
+    recordId: string;   // RecordId, or the settings key
+    local: unknown;
+    remote: unknown;
+    winner: 'local' | 'remote';
+    detectedAt: number;
+}
+
+// Mirror DB history; see migrations.ts
+const MIGRATIONS: Migration[] = [
+    { version: 1, description: 'Guest record stores', upgrade: db => createStores(db, false) },
+    {
+        version: 2,
+        description: 'Non-unique name indexes; outbox, conflicts and sync metadata',
+        upgrade: (db, tx) => {
+            // v1 mirrors copied the guest DB's unique name indexes, which reject
+            // duplicate names that Firestore happily stores
+            for (const name of ['favourites', 'recipes']) {
+                const store = tx.objectStore(name);
+                store.deleteIndex('by-name');
+                store.createIndex('by-name', 'name', { unique: false });
+            }
+            db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+            db.createObjectStore('conflicts', { keyPath: 'id', autoIncrement: true });
+            db.createObjectStore('meta', { keyPath: 'key' });
+        },
+    },
+    { version: 3, description: 'Daily totals', upgrade: createSummaryStore },
+    ...SCHEMA_MIGRATIONS,
+];
+
+// One connection per account, reused by every read and write
+const _mirrors = new Map<string, Promise<IDBPDatabase>>();
+
+const closeMirror = (uid: string) => {
+    _mirrors.get(uid)?.then(db => db.close(), () => {});
+    _mirrors.delete(uid);
+};
+
+const openMirror = (uid: string): Promise<IDBPDatabase> => {
+    let mirror = _mirrors.get(uid);
+    if (!mirror) {
+        mirror = openDB(`meal-tracker-db-${uid}`, latestVersion(MIGRATIONS), {
+            upgrade(db, oldVersion, _newVersion, tx) {
+                runMigrations(MIGRATIONS, db, oldVersion, tx);
+            },
+            // Another tab is upgrading the schema: step aside, the next call reopens
+            blocking: () => closeMirror(uid),
+            terminated: () => { _mirrors.delete(uid); },
+        });
+        mirror.catch(() => _mirrors.delete(uid));
+        _mirrors.set(uid, mirror);
+    }
+    return mirror;
+};
+
+/** Closes every open mirror connection except the one for `keep` — on sign-out and account switches. */
+export const closeMirrors = (keep?: string | null) => {
+    for (const uid of [..._mirrors.keys()]) {
+        if (uid !== keep) closeMirror(uid);
+    }
+};
+
+// Meal writes also update dailySummaries, in the same transaction
+const storesFor = (store: string) => store === 'meals' ? ['meals', 'dailySummaries'] : [store];
+
+const opKey = (op: OutboxOp) => op.kind === 'put' ? `${op.store}:${op.record.id}` : `settings:${op.key}`;
+
+// --- Queue notifications ---
+const queuedListeners = new Set<(uid: string) => void>();
+
+/** Called after every local write is queued — sync.ts uses it to schedule a push. */
+export const onQueued = (listener: (uid: string) => void): (() => void) => {
+    queuedListeners.add(listener);
+    return () => { queuedListeners.delete(listener); };
+};
+
+// --- Writes (optimistic) ---
+const enqueue = async (
+    uid: string,
+    store: string,
+    apply: (tx: MirrorTx) => Promise<OutboxOp | OutboxOp[]>,
+) => {
+    const db = await openMirror(uid);
+    const tx = db.transaction([...storesFor(store), 'outbox'], 'readwrite');
+    const ops = [await apply(tx)].flat();
+    for (const op of ops) await tx.objectStore('outbox').add(op);
+    await tx.done;
+    queuedListeners.forEach(listener => listener(uid));
+};
+
+const stageRecord = async (tx: MirrorTx, store: MirrorStore, record: AnyRecord): Promise<OutboxOp> => {
+    const os = tx.objectStore(store);
+    const current = await os.get(record.id!) as AnyRecord | undefined;
+    const stamped = { ...record, updatedAt: Date.now(), rev: crypto.randomUUID() };
+    await os.put(stamped);
+    if (store === 'meals') await applyMealChange(current as Meal, stamped as Meal, summaryStore(tx));
+    return { kind: 'put', store, record: stamped, baseRev: current?.rev, queuedAt: Date.now() };
+};
+
+export const putRecord = async <S extends MirrorStore>(uid: string, store: S, record: MirrorRecord[S]): Promise<void> => {
+    await enqueue(uid, store, tx => stageRecord(tx, store, record));
+};
+
+/** putRecord for many records of one kind, in a single transaction. */
+export const putRecords = async <S extends MirrorStore>(uid: string, store: S, records: MirrorRecord[S][]): Promise<void> => {
+    await enqueue(uid, store, async tx => {
+        const ops: OutboxOp[] = [];
+        for (const record of records) ops.push(await stageRecord(tx, store, record));
+        return ops;
+    });
+};
+
+export const addRecord = async <S extends MirrorStore>(uid: string, store: S, record: Omit<MirrorRecord[S], 'id'>): Promise<RecordId> => {
+    const id = newId();
+    await putRecord(uid, store, { ...record, id } as MirrorRecord[S]);
+    return id;
+};
+
+/**
+ * Moves a record into the trash (deletedAt set) or back out. It stays a normal
+ * synced record, so other devices see it in their trash too.
+ */
+export const setDeletedAt = async (uid: string, store: MirrorStore, id: RecordId, deletedAt: number | undefined): Promise<void> => {
+    const current = await getRecord(uid, store, id);
+    if (!current || current.deleted) return;
+    const record = { ...current, deletedAt };
+    if (!deletedAt) delete record.deletedAt;
+    await putRecord(uid, store, record);
+};
+
+/** Replaces the record with a tombstone so the delete reaches other devices. Used to purge trashed records. */
+export const deleteRecord = async (uid: string, store: MirrorStore, id: RecordId): Promise<void> => {
+    await enqueue(uid, store, async tx => {
+        const os = tx.objectStore(store);
+        const current = await os.get(id) as AnyRecord | undefined;
+        const tombstone = { id, deleted: true, updatedAt: Date.now(), rev: crypto.randomUUID() } as AnyRecord;
+        await os.put(tombstone);
+        if (store === 'meals') await applyMealChange(current as Meal, undefined, summaryStore(tx));
+        return { kind: 'put', store, record: tombstone, baseRev: current?.rev, queuedAt: Date.now() };
+    });
+};
+
+export const saveSetting = async (uid: string, key: keyof UserSettings, value: unknown, updatedAt = Date.now()): Promise<void> => {
+    await enqueue(uid, 'settings', async tx => {
+        await tx.objectStore('settings').put({ key, value, updatedAt });
+        return { kind: 'setting', key, value, updatedAt, queuedAt: Date.now() };
+    });
+};
+
+/**
+ * Removes a settings row an earlier version wrote (see secrets.ts) and returns
+ * its value, along with any queued upload of it or conflict holding it.
+ */
+export const takeSetting = async (uid: string, key: string): Promise<unknown> => {
+    const db = await openMirror(uid);
+    const tx = db.transaction(['settings', 'outbox', 'conflicts'], 'readwrite');
+    const row = await tx.objectStore('settings').get(key) as SettingRow | undefined;
+    if (row) await tx.objectStore('settings').delete(key);
+    for (const op of await tx.objectStore('outbox').getAll() as QueuedOp[]) {
+        if (op.kind === 'setting' && op.key === key) await tx.objectStore('outbox').delete(op.seq);
+    }
+    for (const conflict of await tx.objectStore('conflicts').getAll() as Conflict[]) {
+        if (conflict.store === 'settings' && conflict.recordId === key) await tx.objectStore('conflicts').delete(conflict.id!);
+    }
+    await tx.done;
+    return row?.value;
+};
+
+// --- Reads (tombstones and trash hidden) ---
+export const getAll = async <S extends MirrorStore>(uid: string, store: S): Promise<MirrorRecord[S][]> => {
+    const db = await openMirror(uid);
+    const rows = await db.getAll(store) as MirrorRecord[S][];
+    return rows.filter(r => !r.deleted && !r.deletedAt);
+};
+
+// Tombstones have no date, so the by-date index never returns them; trashed records still need filtering
+export const getMealsByDate = async (uid: string, date: string): Promise<Meal[]> => {
+    const db = await openMirror(uid);
+    return (await db.getAllFromIndex('meals', 'by-date', date) as Meal[]).filter(m => !m.deletedAt);
+};
+
+export const getInRange = async <S extends 'meals' | 'weights' | 'water' | 'activities'>(uid: string, store: S, from: string, to: string): Promise<MirrorRecord[S][]> => {
+    const db = await openMirror(uid);
+    const rows = await db.getAllFromIndex(store, 'by-date', IDBKeyRange.bound(from, to)) as MirrorRecord[S][];
+    return rows.filter(r => !r.deletedAt);
+};
+
+export const getTrash = async (uid: string): Promise<Trash> => {
+    const db = await openMirror(uid);
+    const trashed = async <S extends MirrorStore>(store: S) =>
+        (await db.getAll(store) as MirrorRecord[S][]).filter(r => r.deletedAt && !r.deleted);
+    return {
+        meals: await trashed('meals'),
+        favourites: await trashed('favourites'),
+        weights: await trashed('weights'),
+        recipes: await trashed('recipes'),
+        water: await trashed('water'),
+        activities: await trashed('activities'),
+    };
+};
+
+export const getRecord = async (uid: string, store: MirrorStore, id: RecordId): Promise<AnyRecord | undefined> => {
+    const db = await openMirror(uid);
+    return db.get(store, id);
+};
+
+export const getSettingRows = async (uid: string): Promise<SettingRow[]> => {
+    const db = await openMirror(uid);
+    return db.getAll('settings');
+};
+
+export const getSettings = async (uid: string): Promise<UserSettings> => {
+    const rows = await getSettingRows(uid);
+    return { ...DEFAULT_SETTINGS, ...Object.fromEntries(rows.map(r => [r.key, r.value])) };
+};
+
+// --- Queue access (used by sync.ts) ---
+/** The next `limit` queued ops, oldest first. */
+export const peekOps = async (uid: string, limit: number): Promise<QueuedOp[]> => {
+    const db = await openMirror(uid);
+    return db.getAll('outbox', undefined, limit);
+};
+
+export const removeOp = async (uid: string, seq: number): Promise<void> => {
+    const db = await openMirror(uid);
+    await db.delete('outbox', seq);
+};
+
+export const removeOps = async (uid: string, seqs: number[]): Promise<void> => {
+    const db = await openMirror(uid);
+    const tx = db.transaction('outbox', 'readwrite');
+    for (const seq of seqs) await tx.store.delete(seq);
+    await tx.done;
+};
+
+export const countPending = async (uid: string): Promise<number> => {
+    const db = await openMirror(uid);
+    return db.count('outbox');
+};
+
+const pendingKeys = async (tx: MirrorTx, exceptSeq?: number) => {
+    const ops = await tx.objectStore('outbox').getAll() as QueuedOp[];
+    return new Set(ops.filter(op => op.seq !== exceptSeq).map(opKey));
+};
+
+/**
+ * Writes records pulled from Firestore into the mirror. Records with a queued
+ * local write are left alone — the push decides between the two versions.
+ * `exceptSeq` lets the push apply a winning remote version over its own op.
+ */
+export const applyRemote = async (uid: string, store: MirrorStore, records: AnyRecord[], exceptSeq?: number): Promise<void> => {
+    if (records.length === 0) return;
+    const db = await openMirror(uid);
+    const tx = db.transaction([...storesFor(store), 'outbox'], 'readwrite');
+    const pending = await pendingKeys(tx, exceptSeq);
+    const os = tx.objectStore(store);
+    for (const incoming of records.filter(r => !pending.has(`${store}:${r.id}`))) {
+        const current = await os.get(incoming.id!) as AnyRecord | undefined;
+        // A meal overwritten by another device keeps the local version in its history
+        const record = store === 'meals' && current && !current.deleted && !incoming.deleted
+            ? mergeIncoming(current as Meal, incoming as Meal)
+            : incoming;
+        await os.put(record);
+        if (store === 'meals') await applyMealChange(current as Meal, record as Meal, summaryStore(tx));
+    }
+    await tx.done;
+    notifyChange(store);
+};
+
+/** Settings counterpart of applyRemote: newer remote keys win unless a local change is queued. */
+export const applyRemoteSettings = async (uid: string, rows: SettingRow[], exceptSeq?: number): Promise<void> => {
+    const db = await openMirror(uid);
+    const tx = db.transaction(['settings', 'outbox'], 'readwrite');
+    const pending = await pendingKeys(tx, exceptSeq);
+    const os = tx.objectStore('settings');
+    const local = new Map((await os.getAll() as SettingRow[]).map(r => [r.key, r]));
+    const accepted = rows
+        .filter(r => !pending.has(`settings:${r.key}`))
+        .filter(r => (local.get(r.key)?.updatedAt ?? 0) <= (r.updatedAt ?? 0));
+    await Promise.all([...accepted.map(r => os.put(r)), tx.done]);
+    if (accepted.some(r => local.get(r.key)?.updatedAt !== r.updatedAt)) notifyChange('settings');
+};
+
+// --- Daily summaries ---
+export const getDailySummaries = async (uid: string, from: string, to: string): Promise<DailySummary[]> => {
+    const db = await openMirror(uid);
+    return db.getAll('dailySummaries', IDBKeyRange.bound(from, to));
+};
+
+export const rebuildDailySummaries = async (uid: string): Promise<void> => {
+    const db = await openMirror(uid);
+    const tx = db.transaction(['meals', 'dailySummaries'], 'readwrite');
+    await writeAllSummaries(tx);
+    await tx.done;
+};
+
+// --- Conflicts ---
+export const addConflict = async (uid: string, conflict: Omit<Conflict, 'id'>): Promise<void> => {
+    const db = await openMirror(uid);
+    await db.add('conflicts', conflict);
+};
+
+export const getConflicts = async (uid: string): Promise<Conflict[]> => {
+    const db = await openMirror(uid);
+    return db.getAll('conflicts');
+};
+
+export const removeConflict = async (uid: string, id: number): Promise<void> => {
+    const db = await openMirror(uid);
+    await db.delete('conflicts', id);
+};
+
+// --- Sync bookkeeping (pull cursors, last sync time) ---
+export const getMeta = async <T>(uid: string, key: string): Promise<T | undefined> => {
+    const db = await openMirror(uid);
+    return (await db.get('meta', key))?.value;
+};
+
+export const setMeta = async (uid: string, key: string, value: unknown): Promise<void> => {
+    const db = await openMirror(uid);
+    await db.put('meta', { key, value });
+};
+
+// --- Reset ---
+/** Drops the mirror, queued writes and sync state — used by resetAllData before clearing Firestore. */
+export const clearMirror = async (uid: string): Promise<void> => {
+    const db = await openMirror(uid);
+    const tx = db.transaction(Array.from(db.objectStoreNames), 'readwrite');
+    await Promise.all([...Array.from(tx.objectStoreNames, name => tx.objectStore(name).clear()), tx.done]);
+};
+
+// --- Backend ---
+/** Signed-in storage as a StorageBackend: reads and writes hit the mirror, sync.ts does the rest. */
+export const createMirrorBackend = (uid: string): StorageBackend => ({
+    addMeal: meal => addRecord(uid, 'meals', meal),
+    getMealsByDate: date => getMealsByDate(uid, date),
+    getMealsInRange: (from, to) => getInRange(uid, 'meals', from, to),
+    getAllMeals: () => getAll(uid, 'meals'),
+    updateMeal: meal => putRecord(uid, 'meals', meal),
+    deleteMeal: id => setDeletedAt(uid, 'meals', id, Date.now()),
+
+    // Derived locally from the mirror's meals; Firestore keeps its own copy (see db.firestore.ts)
+    getDailySummaries: (from, to) => getDailySummaries(uid, from, to),
+    rebuildDailySummaries: () => rebuildDailySummaries(uid),
+
+    addFavourite: fav => addRecord(uid, 'favourites', fav),
+    getAllFavourites: () => getAll(uid, 'favourites'),
+    updateFavourite: fav => putRecord(uid, 'favourites', fav),
+    deleteFavourite: id => setDeletedAt(uid, 'favourites', id, Date.now()),
+
+    addWeight: entry => addRecord(uid, 'weights', entry),
+    getAllWeights: () => getAll(uid, 'weights'),
+    getWeightsInRange: (from, to) => getInRange(uid, 'weights', from, to),
+    updateWeight: entry => putRecord(uid, 'weights', entry),
+    deleteWeight: id => setDeletedAt(uid, 'weights', id, Date.now()),
+
+    addWater: entry => addRecord(uid, 'water', entry),
+    getAllWater: () => getAll(uid, 'water'),
+    getWaterInRange: (from, to) => getInRange(uid, 'water', from, to),
+    updateWater: entry => putRecord(uid, 'water', entry),
+    deleteWater: id => setDeletedAt(uid, 'water', id, Date.now()),
+
+    addActivity: activity => addRecord(uid, 'activities', activity),
+    getAllActivities: () => getAll(uid, 'activities'),
+    getActivitiesInRange: (from, to) => getInRange(uid, 'activities', from, to),
+    updateActivity: activity => putRecord(uid, 'activities', activity),
+    deleteActivity: id => setDeletedAt(uid, 'activities', id, Date.now()),
+
+    addRecipe: recipe => addRecord(uid, 'recipes', recipe),
+    getAllRecipes: () => getAll(uid, 'recipes'),
+    updateRecipe: recipe => putRecord(uid, 'recipes', recipe),
+    deleteRecipe: id => setDeletedAt(uid, 'recipes', id, Date.now()),
+
+    getTrash: () => getTrash(uid),
+    restoreFromTrash: (store, id) => setDeletedAt(uid, store, id, undefined),
+    purgeFromTrash: (store, id) => deleteRecord(uid, store, id),
+
+    getSettings: () => getSettings(uid),
+    saveSetting: (key, value) => saveSetting(uid, key, value),
+
+    getMeta: key => getMeta(uid, key),
+    setMeta: (key, value) => setMeta(uid, key, value),
+
+    // Queued writes are dropped first so a later push can't resurrect them, and
+    // guest data is cleared too so the next sign-in doesn't import it back.
+    resetAllData: async () => {
+        await clearMirror(uid);
+        await Promise.all([resetRemote(uid), resetGuest()]);
+    },
+});
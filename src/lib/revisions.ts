@@ -0,0 +1,64 @@
+/**
+ * revisions.ts — edit history for logged meals
+ *
+ * Every change to a meal's description or macros pushes the version it replaced
+ * onto `meal.revisions` (newest first), tagged with what caused the change.
+ * Revisions live on the meal record itself, so they sync, back up and restore
+ * along with it. Reverting is just another change, so it can be undone too.
+ *
+ * Callers save the result themselves: `updateMeal(withRevision(meal, next, cause))`.
+ */
+import type { Meal, MealRevision, RevisionCause } from './db.idb';
+
+export const MAX_REVISIONS = 20;
+
+export const CAUSE_LABELS: Record<RevisionCause, string> = {
+    'ai-reparse': 'AI recalculation',
+    'manual-edit': 'Macro edit',
+    'sync': 'Sync from another device',
+    'revert': 'Revert',
+};
+
+type MealVersion = Pick<Meal, 'content' | 'parsed' | 'totalCalories'>;
+
+const sameVersion = (a: MealVersion, b: MealVersion) =>
+    a.content === b.content && a.totalCalories === b.totalCalories && JSON.stringify(a.parsed) === JSON.stringify(b.parsed);
+
+// Only the versioned fields, so a revision passed as `next` doesn't leak its own bookkeeping
+const version = (v: MealVersion): MealVersion => ({ content: v.content, parsed: v.parsed, totalCalories: v.totalCalories });
+
+const snapshot = (meal: MealVersion, cause: RevisionCause): MealRevision => ({
+    replacedAt: Date.now(),
+    cause,
+    content: meal.content,
+    parsed: meal.parsed,
+    totalCalories: meal.totalCalories,
+});
+
+/** The meal with `next` applied and its current version pushed onto the history. No-op changes add nothing. */
+export const withRevision = (meal: Meal, next: MealVersion, cause: RevisionCause): Meal => {
+    if (sameVersion(meal, next)) return meal;
+    return {
+        ...meal,
+        ...version(next),
+        revisions: [snapshot(meal, cause), ...(meal.revisions ?? [])].slice(0, MAX_REVISIONS),
+    };
+};
+
+/**
+ * For a meal about to be overwritten by another device's copy: keeps the local
+ * version in the incoming history unless the other device already recorded it
+ * (i.e. it edited this very version).
+ */
+export const mergeIncoming = (current: Meal, incoming: Meal): Meal => {
+    if (sameVersion(current, incoming)) return incoming;
+    const known = [incoming, ...(incoming.revisions ?? [])].some(r => sameVersion(r, current));
+    if (known) return incoming;
+    return {
+        ...incoming,
+        revisions: [snapshot(current, 'sync'), ...(incoming.revisions ?? [])].slice(0, MAX_REVISIONS),
+    };
+};
+
+/** The meal restored to an earlier version; the version it replaces is kept as a 'revert' revision. */
+export const revertTo = (meal: Meal, revision: MealRevision): Meal => withRevision(meal, revision, 'revert');
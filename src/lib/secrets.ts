@@ -0,0 +1,212 @@
+/**
+ * secrets.ts — device-local, encrypted store for the BYO AI API key
+ *
+ * The key is not a setting: it never goes into UserSettings, backups, sync or
+ * Firestore. It lives in its own IndexedDB database, shared by guest mode and
+ * every account on this device, sealed with AES-GCM.
+ *
+ * - Without a passcode the AES key is a non-extractable WebCrypto key stored next
+ *   to it, so the plaintext never touches storage and can't be copied out as data.
+ * - With a passcode the AES key is derived from it (PBKDF2) and only held in
+ *   memory after unlock(), so nothing on disk can decrypt the key on its own.
+ *
+ * Keys saved as a plain setting by earlier versions are moved in here by
+ * migrateLegacyApiKey() and, for a signed-in account's copy in Firestore, by
+ * sync.ts before it deletes that copy.
+ */
+import { openDB, type IDBPDatabase } from 'idb';
+import { notifyChange, onChange } from './changes';
+import { seal, unseal, deriveKey, randomBytes, type Sealed } from './crypto';
+import * as idb from './db.idb';
+import * as mirror from './outbox';
+
+/** Setting keys earlier versions stored (and synced) in plaintext. */
+export const LEGACY_SECRET_SETTINGS = ['apiKey'];
+
+const DB_NAME = 'meal-tracker-secrets';
+const MIN_PASSCODE_LENGTH = 4;
+// Sealed with the passcode key so a wrong passcode can be told apart even with no secrets stored
+const CHECK_TEXT = 'meal-tracker-vault';
+
+type SecretName = 'apiKey';
+
+interface PasscodeConfig {
+    salt: Uint8Array<ArrayBuffer>;
+    check: Sealed;
+}
+
+export interface VaultState {
+    apiKey: string;       // '' when none is saved, or while locked
+    hasApiKey: boolean;
+    passcode: boolean;    // protected by a passcode
+    locked: boolean;      // passcode set and not yet entered in this tab
+}
+
+// Records in the single `vault` store, under out-of-line keys:
+//   'deviceKey'      CryptoKey used while no passcode is set
+//   'passcode'       PasscodeConfig, present while a passcode is set
+//   'secret:<name>'  Sealed value
+//   'dataKey:<uid>'  CryptoKey for an account's end-to-end encrypted data (e2e.ts)
+let _vault: Promise<IDBPDatabase> | null = null;
+const openVault = () => _vault ??= openDB(DB_NAME, 1, {
+    upgrade: db => { db.createObjectStore('vault'); },
+});
+
+// Derived from the passcode on unlock; per tab, gone on reload
+let _passcodeKey: CryptoKey | null = null;
+
+const secretId = (name: SecretName) => `secret:${name}`;
+
+// --- Keys ---
+const deviceKey = async (): Promise<CryptoKey> => {
+    const db = await openVault();
+    const existing = await db.get('vault', 'deviceKey') as CryptoKey | undefined;
+    if (existing) return existing;
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await db.put('vault', key, 'deviceKey');
+    return key;
+};
+
+const getPasscodeConfig = async () => (await openVault()).get('vault', 'passcode') as Promise<PasscodeConfig | undefined>;
+
+// The key secrets are sealed with right now; null while a passcode is set but not entered
+const currentKey = async (): Promise<CryptoKey | null> =>
+    await getPasscodeConfig() ? _passcodeKey : deviceKey();
+
+const sealedSecrets = async (): Promise<[string, Sealed][]> => {
+    const db = await openVault();
+    const ids = (await db.getAllKeys('vault')).map(String).filter(id => id.startsWith('secret:'));
+    return Promise.all(ids.map(async id => [id, await db.get('vault', id)] as [string, Sealed]));
+};
+
+// --- Reads ---
+export const readVault = async (): Promise<VaultState> => {
+    const db = await openVault();
+    const [config, sealed] = await Promise.all([getPasscodeConfig(), db.get('vault', secretId('apiKey')) as Promise<Sealed | undefined>]);
+    const key = config ? _passcodeKey : await deviceKey();
+    return {
+        apiKey: sealed && key ? await unseal(key, sealed) : '',
+        hasApiKey: !!sealed,
+        passcode: !!config,
+        locked: !!config && !_passcodeKey,
+    };
+};
+
+/** Calls `callback` with the vault state now and after every change to it. Returns an unsubscribe function. */
+export const subscribeVault = (callback: (vault: VaultState) => void): (() => void) => {
+    const load = () => { readVault().then(callback).catch(console.error); };
+    const stop = onChange(['secrets'], load);
+    load();
+    return stop;
+};
+
+// --- Writes ---
+/** Saves the API key (an empty string removes it). Fails while locked. */
+export const setApiKey = async (value: string): Promise<void> => {
+    const key = await currentKey();
+    if (!key) throw new Error('Enter your passcode to change the API key.');
+    const db = await openVault();
+    if (value) await db.put('vault', await seal(key, value), secretId('apiKey'));
+    else await db.delete('vault', secretId('apiKey'));
+    notifyChange('secrets');
+};
+
+/** Unlocks a passcode-protected vault for this tab. */
+export const unlock = async (passcode: string): Promise<void> => {
+    const config = await getPasscodeConfig();
+    if (!config) return;
+    const key = await deriveKey(passcode, config.salt);
+    try {
+        await unseal(key, config.check);
+    } catch {
+        throw new Error('Wrong passcode.');
+    }
+    _passcodeKey = key;
+    notifyChange('secrets');
+};
+
+export const lock = () => {
+    _passcodeKey = null;
+    notifyChange('secrets');
+};
+
+/**
+ * Sets, changes or (with null) removes the passcode, re-sealing every secret
+ * under the new key. The vault must be unlocked.
+ */
+export const setPasscode = async (passcode: string | null): Promise<void> => {
+    if (passcode !== null && passcode.length < MIN_PASSCODE_LENGTH) {
+        throw new Error(`Passcode must be at least ${MIN_PASSCODE_LENGTH} characters.`);
+    }
+    const oldKey = await currentKey();
+    if (!oldKey) throw new Error('Enter your current passcode first.');
+
+    const plain = await Promise.all((await sealedSecrets()).map(async ([id, sealed]) => [id, await unseal(oldKey, sealed)] as const));
+    let newKey: CryptoKey;
+    let config: PasscodeConfig | null = null;
+    if (passcode === null) {
+        newKey = await deviceKey();
+    } else {
+        const salt = randomBytes(16);
+        newKey = await deriveKey(passcode, salt);
+        config = { salt, check: await seal(newKey, CHECK_TEXT) };
+    }
+    const resealed = await Promise.all(plain.map(async ([id, text]) => [id, await seal(newKey, text)] as const));
+
+    const db = await openVault();
+    const tx = db.transaction('vault', 'readwrite');
+    for (const [id, sealed] of resealed) tx.store.put(sealed, id);
+    if (config) tx.store.put(config, 'passcode');
+    else tx.store.delete('passcode');
+    await tx.done;
+    _passcodeKey = config ? newKey : null;
+    notifyChange('secrets');
+};
+
+// --- End-to-end encryption keys (e2e.ts) ---
+// Kept non-extractable, like the device key: usable here, but never readable as data.
+// They aren't behind the passcode, because sync needs them in the background.
+export const saveDataKey = async (uid: string, key: CryptoKey): Promise<void> => {
+    await (await openVault()).put('vault', key, `dataKey:${uid}`);
+};
+
+export const loadDataKey = async (uid: string): Promise<CryptoKey | undefined> =>
+    (await openVault()).get('vault', `dataKey:${uid}`);
+
+export const forgetDataKey = async (uid: string): Promise<void> => {
+    await (await openVault()).delete('vault', `dataKey:${uid}`);
+};
+
+/** For a forgotten passcode: deletes every secret, the passcode and any encryption keys (re-entered from the passphrase). */
+export const resetVault = async (): Promise<void> => {
+    const db = await openVault();
+    await db.clear('vault');
+    _passcodeKey = null;
+    notifyChange('secrets');
+};
+
+// --- Migration ---
+/**
+ * Saves an API key that an earlier version kept as a setting into the vault,
+ * unless the vault already has one. Returns false while the vault is locked, as
+ * the key can't be saved yet and must be kept where it is.
+ */
+export const adoptLegacyApiKey = async (legacy: unknown): Promise<boolean> => {
+    if (typeof legacy !== 'string' || !legacy) return true;
+    const vault = await readVault();
+    if (vault.hasApiKey) return true;
+    if (vault.locked) return false;
+    await setApiKey(legacy);
+    return true;
+};
+
+/**
+ * Moves an API key that an earlier version saved as a setting out of the active
+ * settings store (guest DB, or the account's mirror with any queued upload of it)
+ * and into the vault, unless the vault already has one. The copy in Firestore is
+ * handled by sync.ts.
+ */
+export const migrateLegacyApiKey = async (uid: string | null): Promise<void> => {
+    const legacy = uid ? await mirror.takeSetting(uid, 'apiKey') : await idb.takeSetting('apiKey');
+    if (!await adoptLegacyApiKey(legacy)) console.warn('Vault is locked; discarding the API key found in settings.');
+};
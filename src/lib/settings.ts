@@ -0,0 +1,99 @@
+/**
+ * settings.ts — what each UserSettings key may hold
+ *
+ * saveSetting() in db.ts rejects values that don't fit their key, and settings
+ * read back from storage (which may have come from a backup, an older app
+ * version or another device) fall back to the default for any key that doesn't.
+ */
+import { DEFAULT_SETTINGS, type MealSlot, type UserSettings } from './db.idb';
+import { NUTRIENT_KEYS } from './nutrients';
+
+type Validator = (value: unknown) => string | null;
+
+const oneOf = (label: string, options: readonly string[]): Validator => value =>
+    typeof value === 'string' && options.includes(value) ? null : `${label} must be one of: ${options.join(', ')}.`;
+
+// 0 is allowed everywhere: the settings form uses it for a cleared field
+const number = (label: string, max: number): Validator => value =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max
+        ? null
+        : `${label} must be a number between 0 and ${max}.`;
+
+const flag = (label: string): Validator => value =>
+    typeof value === 'boolean' ? null : `${label} must be on or off.`;
+
+const dateOrBlank = (label: string): Validator => value =>
+    value === '' || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) ? null : `${label} must be a date or empty.`;
+
+const SLOTS: MealSlot[] = ['breakfast', 'lunch', 'snack', 'dinner'];
+
+// One value per key (meal slot, nutrient…), each passing `each`
+const perKey = (keys: readonly string[], what: string, each: Validator): Validator => value => {
+    if (typeof value !== 'object' || value === null) return `Expected a value for each ${what}.`;
+    for (const key of keys) {
+        const error = each((value as Record<string, unknown>)[key]);
+        if (error) return error;
+    }
+    return null;
+};
+
+const perSlot = (each: Validator) => perKey(SLOTS, 'meal slot', each);
+
+const slotStarts: Validator = value => {
+    const error = perSlot(number('Slot start hour', 23))(value);
+    if (error) return error;
+    const hours = SLOTS.map(slot => (value as Record<MealSlot, number>)[slot]);
+    return hours.every((h, i) => i === 0 || h > hours[i - 1])
+        ? null
+        : 'Breakfast, lunch, snack and dinner must start in that order.';
+};
+
+const VALIDATORS: Record<keyof UserSettings, Validator> = {
+    provider: oneOf('Provider', ['gemini', 'openai', 'groq']),
+    theme: oneOf('Theme', ['dark', 'light']),
+    dailyCalories: number('Daily calories', 20000),
+    dailyProtein: number('Daily protein', 1000),
+    dailyFat: number('Daily fat', 1000),
+    dailyCarbs: number('Daily carbs', 2000),
+    dailyFiber: number('Daily fiber', 500),
+    dailyWater: number('Daily water', 10000),
+    unitBowlLiquid: number('Liquid bowl size', 2000),
+    unitBowlSolid: number('Solid bowl size', 2000),
+    unitTbsp: number('Tablespoon size', 100),
+    unitTsp: number('Teaspoon size', 50),
+    unitGlass: number('Glass size', 2000),
+    profileAge: number('Age', 150),
+    profileWeight: number('Weight', 500),
+    profileHeight: number('Height', 300),
+    goalWeight: number('Goal weight', 500),
+    goalDate: dateOrBlank('Target date'),
+    slotStarts,
+    slotCalories: perSlot(number('Slot calorie target', 20000)),
+    dayStartHour: number('Day start hour', 12),
+    nutrientTargets: perKey(NUTRIENT_KEYS, 'nutrient', number('Nutrient target', 100000)),
+    netCalories: flag('Net calories'),
+    hostedDailyLimit: number('Hosted AI requests per day', 10000),
+};
+
+export const isSettingKey = (key: string): key is keyof UserSettings => key in VALIDATORS;
+
+/** Why `value` can't be stored under `key`, or null if it can. */
+export const settingError = (key: keyof UserSettings, value: unknown): string | null => VALIDATORS[key](value);
+
+/** Throws if `value` can't be stored under `key`. */
+export const assertValidSetting = <K extends keyof UserSettings>(key: K, value: UserSettings[K]): void => {
+    const error = settingError(key, value);
+    if (error) throw new Error(error);
+};
+
+/** Stored settings with every invalid value replaced by its default (or dropped, for optional keys). */
+export const sanitizeSettings = (settings: UserSettings): UserSettings => {
+    const clean = { ...settings };
+    for (const key of Object.keys(clean) as (keyof UserSettings)[]) {
+        if (!isSettingKey(key) || settingError(key, clean[key]) === null) continue;
+        console.warn(`Ignoring invalid stored setting ${key}:`, clean[key]);
+        if (key in DEFAULT_SETTINGS) (clean as Record<string, unknown>)[key] = DEFAULT_SETTINGS[key];
+        else delete clean[key];
+    }
+    return clean;
+};
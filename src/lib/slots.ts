@@ -0,0 +1,43 @@
+/**
+ * slots.ts — breakfast, lunch, snack and dinner
+ *
+ * Every meal logged from now on stores its slot: the one named in the message
+ * ("for breakfast", see when.ts) or else the one its time falls in, using the
+ * start hours in settings (`slotStarts`). Anything before breakfast starts
+ * counts as a snack. Meals logged before slots existed have no `slot` and are
+ * placed by their time when shown.
+ */
+import type { Meal, MealSlot, UserSettings } from './db.idb';
+
+/** In the order they happen in a day. */
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'snack', 'dinner'];
+
+export const SLOT_LABELS: Record<MealSlot, string> = {
+    breakfast: 'Breakfast',
+    lunch: 'Lunch',
+    snack: 'Snacks',
+    dinner: 'Dinner',
+};
+
+/** The slot a meal eaten at `at` falls in. */
+export const inferSlot = (at: number, starts: UserSettings['slotStarts']): MealSlot => {
+    const hour = new Date(at).getHours();
+    const current = [...MEAL_SLOTS].reverse().find(slot => hour >= starts[slot]);
+    return current ?? 'snack';
+};
+
+export const mealSlot = (meal: Meal, starts: UserSettings['slotStarts']): MealSlot =>
+    meal.slot ?? inferSlot(meal.timestamp, starts);
+
+export interface SlotGroup {
+    slot: MealSlot;
+    meals: Meal[];
+    calories: number;
+}
+
+/** Meals grouped by slot in day order, skipping empty slots. Meals keep their order within a slot. */
+export const groupBySlot = (meals: Meal[], starts: UserSettings['slotStarts']): SlotGroup[] =>
+    MEAL_SLOTS.map(slot => {
+        const inSlot = meals.filter(m => mealSlot(m, starts) === slot);
+        return { slot, meals: inSlot, calories: inSlot.reduce((n, m) => n + (m.totalCalories || 0), 0) };
+    }).filter(g => g.meals.length > 0);
@@ -0,0 +1,86 @@
+import type { Meal, Favourite, WeightEntry, WaterEntry, Activity, Recipe, UserSettings, DailySummary } from './db.idb';
+import type { SyncedCollection } from './db.firestore';
+import type { RecordId } from './ids';
+
+/** Record kinds that go to the trash when deleted. */
+export type TrashStore = SyncedCollection;
+
+/** Trashed records by kind (see trash.ts). */
+export interface Trash {
+    meals: Meal[];
+    favourites: Favourite[];
+    weights: WeightEntry[];
+    recipes: Recipe[];
+    water: WaterEntry[];
+    activities: Activity[];
+}
+
+/**
+ * The contract every storage implementation fulfils. db.ts forwards each call to
+ * whichever backend is active, so consumers never know which one they're using.
+ *
+ * - db.idb.ts      — `idbBackend`, guest data in the browser
+ * - outbox.ts      — `createMirrorBackend(uid)`, signed-in data (local mirror, synced by sync.ts)
+ * - db.firestore.ts — `createFirestoreBackend(uid)`, direct Firestore access
+ * - db.memory.ts   — `createMemoryBackend()`, demo mode and unit tests
+ *
+ * Adds return the new record's id. Deletes move the record to the trash
+ * (stamping deletedAt); getters never return trashed or deleted records.
+ * Ranges are inclusive 'yyyy-MM-dd' dates and are served by the date index, so
+ * prefer them over getAll* wherever only recent history is needed.
+ */
+export interface StorageBackend {
+    addMeal(meal: Omit<Meal, 'id'>): Promise<RecordId>;
+    getMealsByDate(date: string): Promise<Meal[]>;
+    getMealsInRange(from: string, to: string): Promise<Meal[]>;
+    getAllMeals(): Promise<Meal[]>;
+    updateMeal(meal: Meal): Promise<void>;
+    deleteMeal(id: RecordId): Promise<void>;
+
+    /** Per-day totals, maintained alongside every meal write (see summaries.ts). */
+    getDailySummaries(from: string, to: string): Promise<DailySummary[]>;
+    /** Regenerates all daily summaries from raw meals — run after bulk imports. */
+    rebuildDailySummaries(): Promise<void>;
+
+    addFavourite(fav: Omit<Favourite, 'id'>): Promise<RecordId>;
+    getAllFavourites(): Promise<Favourite[]>;
+    updateFavourite(fav: Favourite): Promise<void>;
+    deleteFavourite(id: RecordId): Promise<void>;
+
+    addWeight(entry: Omit<WeightEntry, 'id'>): Promise<RecordId>;
+    getAllWeights(): Promise<WeightEntry[]>;
+    getWeightsInRange(from: string, to: string): Promise<WeightEntry[]>;
+    updateWeight(entry: WeightEntry): Promise<void>;
+    deleteWeight(id: RecordId): Promise<void>;
+
+    addWater(entry: Omit<WaterEntry, 'id'>): Promise<RecordId>;
+    getAllWater(): Promise<WaterEntry[]>;
+    getWaterInRange(from: string, to: string): Promise<WaterEntry[]>;
+    updateWater(entry: WaterEntry): Promise<void>;
+    deleteWater(id: RecordId): Promise<void>;
+
+    addActivity(activity: Omit<Activity, 'id'>): Promise<RecordId>;
+    getAllActivities(): Promise<Activity[]>;
+    getActivitiesInRange(from: string, to: string): Promise<Activity[]>;
+    updateActivity(activity: Activity): Promise<void>;
+    deleteActivity(id: RecordId): Promise<void>;
+
+    addRecipe(recipe: Omit<Recipe, 'id'>): Promise<RecordId>;
+    getAllRecipes(): Promise<Recipe[]>;
+    updateRecipe(recipe: Recipe): Promise<void>;
+    deleteRecipe(id: RecordId): Promise<void>;
+
+    getTrash(): Promise<Trash>;
+    restoreFromTrash(store: TrashStore, id: RecordId): Promise<void>;
+    /** Permanently deletes a trashed record. */
+    purgeFromTrash(store: TrashStore, id: RecordId): Promise<void>;
+
+    getSettings(): Promise<UserSettings>;
+    saveSetting<K extends keyof UserSettings>(key: K, value: UserSettings[K]): Promise<void>;
+
+    /** Device-side bookkeeping, such as one-off jobs already done. Never synced or backed up. */
+    getMeta<T>(key: string): Promise<T | undefined>;
+    setMeta(key: string, value: unknown): Promise<void>;
+
+    resetAllData(): Promise<void>;
+}
@@ -0,0 +1,76 @@
+/**
+ * summaries.ts — per-day totals derived from meals
+ *
+ * Each backend keeps a `dailySummaries` store keyed by date and updates it in the
+ * same transaction as the meal write, via applyMealChange(). Views read these
+ * instead of reducing raw meals. buildSummaries() regenerates them from scratch
+ * (used by the rebuild routine after imports and by DB upgrades).
+ */
+import type { DailySummary, Meal } from './db.idb';
+import { itemTotals } from './items';
+import { scaleNutrients, sumNutrients, withNutrients } from './nutrients';
+
+export const emptySummary = (date: string): DailySummary => ({
+    date, calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, mealCount: 0,
+});
+
+// Keeps repeated add/subtract from accumulating float noise
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const addMeal = (summary: DailySummary, meal: Meal, sign: 1 | -1): DailySummary => {
+    const totals = itemTotals(meal.parsed);
+    return {
+        ...summary,
+        calories: round(summary.calories + sign * (meal.totalCalories || 0)),
+        protein: round(summary.protein + sign * totals.protein),
+        fat: round(summary.fat + sign * totals.fat),
+        carbs: round(summary.carbs + sign * totals.carbs),
+        fiber: round(summary.fiber + sign * totals.fiber),
+        ...withNutrients(sumNutrients([summary.nutrients, scaleNutrients(totals.nutrients, sign)])),
+        mealCount: summary.mealCount + sign,
+    };
+};
+
+const isEmpty = (s: DailySummary) => s.mealCount <= 0;
+
+// Tombstones, trashed meals and missing records count as "no meal"
+const counted = (meal: Meal | null | undefined): meal is Meal => !!meal && !meal.deleted && !meal.deletedAt && !!meal.date;
+
+/**
+ * Moves a meal's contribution from `before` to `after` (either may be absent —
+ * an add or a delete — and the date may differ on an edit). All reads happen
+ * before any write, as Firestore transactions require. Days left with nothing
+ * logged are removed rather than stored as zeros.
+ */
+export const applyMealChange = async (
+    before: Meal | null | undefined,
+    after: Meal | null | undefined,
+    store: {
+        get: (date: string) => Promise<DailySummary | undefined>;
+        put: (summary: DailySummary) => Promise<unknown>;
+        remove: (date: string) => Promise<unknown>;
+    },
+): Promise<void> => {
+    const dates = new Set<string>();
+    if (counted(before)) dates.add(before.date);
+    if (counted(after)) dates.add(after.date);
+
+    const current = new Map<string, DailySummary>();
+    for (const date of dates) current.set(date, (await store.get(date)) ?? emptySummary(date));
+
+    if (counted(before)) current.set(before.date, addMeal(current.get(before.date)!, before, -1));
+    if (counted(after)) current.set(after.date, addMeal(current.get(after.date)!, after, 1));
+
+    for (const summary of current.values()) {
+        await (isEmpty(summary) ? store.remove(summary.date) : store.put(summary));
+    }
+};
+
+/** Summaries for every day that has at least one meal. */
+export const buildSummaries = (meals: Meal[]): DailySummary[] => {
+    const byDate = new Map<string, DailySummary>();
+    meals.filter(counted).forEach(meal => {
+        byDate.set(meal.date, addMeal(byDate.get(meal.date) ?? emptySummary(meal.date), meal, 1));
+    });
+    return [...byDate.values()].filter(s => !isEmpty(s));
+};
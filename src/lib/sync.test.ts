@@ -0,0 +1,216 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { Meal, SyncMeta } from './db.idb';
+import { idbBackend } from './db.idb';
+import type { SyncedCollection } from './db.firestore';
+import { withItems } from './items';
+import * as local from './outbox';
+import { getAllWater, setBackend } from './db';
+import { migrateWaterMeals } from './water';
+import { getSyncStatus, startSync, syncNow, waitForInitialSync } from './sync';
+
+// Firestore as a map of documents, each stamped with a server sequence number like `syncedAt`
+const remote = vi.hoisted(() => {
+    const docs = new Map<string, { record: SyncMeta & { id?: string }; syncedAt: number }>();
+    const settings: Record<string, unknown> = {};
+    const updatedAt: Record<string, number> = {};
+    let clock = 0;
+    return {
+        docs, settings, updatedAt,
+        put: (col: string, record: SyncMeta & { id?: string }) => docs.set(`${col}/${record.id}`, { record, syncedAt: ++clock }),
+        get: (col: string, id: string) => docs.get(`${col}/${id}`)?.record,
+        reset: () => {
+            docs.clear();
+            for (const key of Object.keys(settings)) delete settings[key];
+            for (const key of Object.keys(updatedAt)) delete updatedAt[key];
+        },
+        now: () => clock,
+    };
+});
+
+vi.mock('./db.firestore', async importOriginal => ({
+    ...await importOriginal<typeof import('./db.firestore')>(),
+    getRecord: vi.fn(async (_uid: string, col: SyncedCollection, id: string) => remote.get(col, id) ?? null),
+    putRecord: vi.fn(async (_uid: string, col: SyncedCollection, record: SyncMeta & { id?: string }) => { remote.put(col, record); }),
+    putRecords: vi.fn(async (_uid: string, entries: { col: SyncedCollection; record: SyncMeta & { id?: string } }[]) => {
+        entries.forEach(({ col, record }) => remote.put(col, record));
+        return { total: entries.length, written: entries.length, failed: [] };
+    }),
+    getChangedSince: vi.fn(async (_uid: string, col: SyncedCollection, since: number) => ({
+        records: [...remote.docs].filter(([key, doc]) => key.startsWith(`${col}/`) && doc.syncedAt > since).map(([, doc]) => doc.record),
+        cursor: remote.now(),
+    })),
+    getSettingsWithMeta: vi.fn(async () => ({ settings: { ...remote.settings }, updatedAt: { ...remote.updatedAt } })),
+    saveSetting: vi.fn(async (_uid: string, key: string, value: unknown, at = Date.now()) => {
+        remote.settings[key] = value;
+        remote.updatedAt[key] = at;
+    }),
+    refreshDailySummaries: vi.fn(async () => {}),
+    rebuildDailySummaries: vi.fn(async () => {}),
+    watchChanges: vi.fn(() => () => {}),
+}));
+
+vi.mock('./e2e', async importOriginal => ({
+    ...await importOriginal<typeof import('./e2e')>(),
+    refreshEncryption: vi.fn(async () => ({ enabled: false, unlocked: false, rewritePending: false })),
+}));
+
+const UID = 'u1';
+
+const guestMeal = (content: string): Omit<Meal, 'id'> => ({
+    date: '2026-03-01', timestamp: new Date(2026, 2, 1, 13).getTime(), content,
+    ...withItems([{ food: content, calories: 300, protein: 15, fat: 8, carbs: 40, fiber: 9 }]),
+});
+
+const meal = (id: string, content: string, extra?: Partial<Meal>): Meal => ({ id, ...guestMeal(content), ...extra });
+
+const mirrorMeal = async (id: string) => await local.getRecord(UID, 'meals', id) as Meal;
+
+let stop: (() => void) | undefined;
+
+beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    remote.reset();
+});
+
+afterEach(() => {
+    stop?.();
+    stop = undefined;
+    local.closeMirrors();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+});
+
+describe('push', () => {
+    beforeEach(async () => {
+        remote.put('meals', meal('m1', 'dal', { rev: 'r1', updatedAt: 1 }));
+        await syncNow(UID);
+    });
+
+    it('writes an edit based on the current remote rev without a conflict', async () => {
+        await local.putRecord(UID, 'meals', { ...await mirrorMeal('m1'), content: 'dal fry' });
+        await syncNow(UID, { pull: false });
+
+        expect(remote.get('meals', 'm1')).toMatchObject({ content: 'dal fry' });
+        expect(await local.getConflicts(UID)).toEqual([]);
+        expect(await local.countPending(UID)).toBe(0);
+    });
+
+    it('keeps the later edit when both devices changed a record, and the other as a conflict', async () => {
+        await local.putRecord(UID, 'meals', { ...await mirrorMeal('m1'), content: 'dal fry' });
+        remote.put('meals', meal('m1', 'dal tadka', { rev: 'r2', updatedAt: Date.now() + 60_000 }));
+        await syncNow(UID, { pull: false });
+
+        expect(remote.get('meals', 'm1')).toMatchObject({ content: 'dal tadka', rev: 'r2' });
+        expect((await mirrorMeal('m1')).content).toBe('dal tadka');
+        expect(await local.getConflicts(UID)).toMatchObject([{
+            store: 'meals', recordId: 'm1', winner: 'remote', local: { content: 'dal fry' }, remote: { content: 'dal tadka' },
+        }]);
+    });
+
+    it('overwrites an older remote edit and records what it replaced', async () => {
+        remote.put('meals', meal('m1', 'dal tadka', { rev: 'r2', updatedAt: 2 }));
+        await local.putRecord(UID, 'meals', { ...await mirrorMeal('m1'), content: 'dal fry' });
+        await syncNow(UID, { pull: false });
+
+        expect(remote.get('meals', 'm1')).toMatchObject({ content: 'dal fry' });
+        expect(await local.getConflicts(UID)).toMatchObject([{ winner: 'local', remote: { content: 'dal tadka' } }]);
+    });
+
+    it('lets a newer remote setting win over a queued older change', async () => {
+        await local.saveSetting(UID, 'dailyCalories', 1800, 5);
+        remote.settings.dailyCalories = 2200;
+        remote.updatedAt.dailyCalories = 10;
+        await syncNow(UID, { pull: false });
+
+        expect((await local.getSettings(UID)).dailyCalories).toBe(2200);
+        expect(await local.getConflicts(UID)).toMatchObject([{ store: 'settings', recordId: 'dailyCalories', winner: 'remote', local: 1800 }]);
+    });
+});
+
+describe('pull', () => {
+    it('brings in changes and deletions made elsewhere, and only new ones next time', async () => {
+        remote.put('meals', meal('m1', 'dal', { rev: 'r1', updatedAt: 1 }));
+        remote.put('meals', meal('m2', 'rice', { rev: 'r1', updatedAt: 1 }));
+        remote.settings.dailyCalories = 2200;
+        remote.updatedAt.dailyCalories = 10;
+        await syncNow(UID);
+        expect((await local.getAll(UID, 'meals')).map(m => m.id)).toEqual(['m1', 'm2']);
+        expect((await local.getSettings(UID)).dailyCalories).toBe(2200);
+
+        remote.put('meals', { id: 'm2', deleted: true, rev: 'r2', updatedAt: 2 });
+        await syncNow(UID);
+        expect((await local.getAll(UID, 'meals')).map(m => m.id)).toEqual(['m1']);
+        expect(await local.getMeta(UID, 'cursor:meals')).toBe(remote.now());
+    });
+});
+
+describe('guest data', () => {
+    it('moves what the account lacks into it, skips what it has, and empties guest storage', async () => {
+        remote.put('meals', meal('m1', 'dal', { rev: 'r1', updatedAt: 1 }));
+        await idbBackend.addMeal(guestMeal('dal'));
+        const guestId = await idbBackend.addMeal(guestMeal('poha'));
+        await idbBackend.saveSetting('dailyCalories', 1700);
+
+        stop = startSync(UID);
+        await waitForInitialSync();
+
+        expect((await local.getAll(UID, 'meals')).map(m => m.content).sort()).toEqual(['dal', 'poha']);
+        // It keeps its id, so open chats and undo still find it
+        expect(remote.get('meals', guestId)).toMatchObject({ content: 'poha' });
+        expect(remote.settings.dailyCalories).toBe(1700);
+        expect(await idbBackend.getAllMeals()).toEqual([]);
+        expect(await local.countPending(UID)).toBe(0);
+        expect(getSyncStatus()).toMatchObject({ state: 'idle', pending: 0 });
+    });
+});
+
+describe('syncNow', () => {
+    it('folds requests made during a pass into one more pass that does all they asked', async () => {
+        const { getChangedSince } = vi.mocked(await import('./db.firestore'));
+        await idbBackend.addMeal(guestMeal('poha'));
+
+        stop = startSync(UID);
+        const pushOnly = syncNow(UID, { pull: false });
+        const full = syncNow(UID, { pull: true, importGuest: true });
+        expect(full).toBe(pushOnly);
+        await full;
+
+        // The first pass and the queued one each pulled every collection once
+        expect(getChangedSince.mock.calls.length).toBe(12);
+        expect((await local.getAll(UID, 'meals')).map(m => m.content)).toEqual(['poha']);
+    });
+
+    it("doesn't reach Firestore while offline", async () => {
+        const { getChangedSince } = vi.mocked(await import('./db.firestore'));
+        vi.stubGlobal('navigator', { onLine: false });
+
+        await syncNow(UID);
+        expect(getChangedSince).not.toHaveBeenCalled();
+    });
+});
+
+describe('lastPulledAt', () => {
+    it('stays unset until a pass completes a pull, so water meals that arrive later still get moved', async () => {
+        vi.stubGlobal('navigator', { onLine: false });
+        stop = startSync(UID);
+        await waitForInitialSync();
+        expect(getSyncStatus().lastPulledAt).toBeNull();
+
+        // An old water meal from another device, waiting in Firestore
+        remote.put('meals', meal('w1', 'Water', {
+            content: '250ml water', rev: 'r1', updatedAt: 1,
+            ...withItems([{ food: 'Water', calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0 }]),
+        }));
+        vi.stubGlobal('navigator', { onLine: true });
+        await syncNow(UID, { pull: false });
+        expect(getSyncStatus().lastPulledAt).toBeNull();
+
+        await syncNow(UID);
+        expect(getSyncStatus().lastPulledAt).not.toBeNull();
+        setBackend(local.createMirrorBackend(UID));
+        expect(await migrateWaterMeals()).toBe(1);
+        expect((await getAllWater()).map(w => [w.id, w.ml])).toEqual([['w1', 250]]);
+    });
+});
@@ -0,0 +1,407 @@
+/**
+ * sync.ts — two-way sync between the signed-in mirror (outbox.ts) and Firestore
+ *
+ * - Push: replays the outbox in order. Before each write the remote copy is read;
+ *   if its rev isn't the one the local edit was based on, both devices changed the
+ *   record and last-writer-wins (by updatedAt) decides. The losing version is
+ *   stored as a Conflict so the user can bring it back from Settings.
+ * - Pull: fetches documents whose server `syncedAt` is past the stored cursor and
+ *   writes them into the mirror. Deletes travel as tombstones.
+ * - Guest data: on sign-in, anything logged in guest IndexedDB that the account
+ *   doesn't already have is queued into the account and removed from guest storage.
+ * - Encryption: with end-to-end encryption on (e2e.ts), a device that doesn't hold
+ *   the key yet stops in the 'locked' state until the passphrase is entered. After
+ *   encryption is turned on or off, every document is rewritten in the new form.
+ *
+ * Runs on sign-in, after every local write, when Firestore reports a change made
+ * elsewhere, when the browser comes back online, when the tab becomes visible,
+ * and every minute while it stays visible. Whatever a pull brings in is announced
+ * on the change feed (changes.ts), so subscribed screens update without a reload.
+ */
+import { FirestoreError } from 'firebase/firestore';
+import * as idb from './db.idb';
+import * as fs from './db.firestore';
+import * as local from './outbox';
+import { naturalKey } from './dedupe';
+import { notifyChange, ALL_TOPICS } from './changes';
+import { isSettingKey } from './settings';
+import { LEGACY_SECRET_SETTINGS, adoptLegacyApiKey } from './secrets';
+import * as e2e from './e2e';
+import type { Conflict, MirrorStore, QueuedOp, AnyRecord } from './outbox';
+import { newId, isLegacyId } from './ids';
+import { runInChunks, assertComplete, BATCH_SIZE } from './bulk';
+import { DEFAULT_SETTINGS, type Meal, type SyncMeta, type UserSettings } from './db.idb';
+
+export type { Conflict } from './outbox';
+
+const STORES: MirrorStore[] = ['meals', 'favourites', 'weights', 'recipes', 'water', 'activities'];
+const SYNC_INTERVAL = 60_000;
+const PUSH_DEBOUNCE = 500;
+
+// Firestore never rejects a request while offline — it waits for the network —
+// so every remote call is raced against this timeout and retried later.
+const REMOTE_TIMEOUT = 15_000;
+
+// Codes that mean Firestore will never accept the write; anything else is retried.
+const PERMANENT_ERRORS = new Set([
+    'permission-denied', 'invalid-argument', 'failed-precondition', 'not-found',
+    'already-exists', 'out-of-range', 'unimplemented', 'data-loss',
+]);
+
+// --- Status ---
+export interface SyncStatus {
+    state: 'idle' | 'syncing' | 'offline' | 'error' | 'locked';
+    pending: number;
+    conflicts: Conflict[];
+    lastSyncedAt: number | null;
+    lastPulledAt: number | null;   // end of this session's last completed pass that pulled; the mirror is complete after it
+}
+
+const IDLE: SyncStatus = { state: 'idle', pending: 0, conflicts: [], lastSyncedAt: null, lastPulledAt: null };
+let _status: SyncStatus = IDLE;
+const statusListeners = new Set<() => void>();
+
+const setStatus = (patch: Partial<SyncStatus>) => {
+    _status = { ..._status, ...patch };
+    statusListeners.forEach(listener => listener());
+};
+
+export const getSyncStatus = () => _status;
+
+export const subscribeSyncStatus = (listener: () => void): (() => void) => {
+    statusListeners.add(listener);
+    return () => { statusListeners.delete(listener); };
+};
+
+const refreshCounts = async (uid: string) => {
+    const [pending, conflicts] = await Promise.all([local.countPending(uid), local.getConflicts(uid)]);
+    setStatus({ pending, conflicts });
+};
+
+// --- Helpers ---
+const withTimeout = <T>(promise: Promise<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('remote_timeout')), REMOTE_TIMEOUT);
+        promise.then(
+            value => { clearTimeout(timer); resolve(value); },
+            err => { clearTimeout(timer); reject(err); },
+        );
+    });
+
+const isRetryable = (err: unknown) =>
+    !(err instanceof FirestoreError && PERMANENT_ERRORS.has(err.code));
+
+// Key-order-independent comparison that ignores sync bookkeeping
+const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.keys(value).sort()
+            .filter(k => k !== 'updatedAt' && k !== 'rev')
+            .map(k => [k, canonical((value as Record<string, unknown>)[k])]));
+    }
+    return value;
+};
+const sameContent = (a: unknown, b: unknown) => JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+// --- Push ---
+const pushOp = async (uid: string, op: QueuedOp) => {
+    if (op.kind === 'setting') {
+        // Secrets queued by an earlier version stay on this device
+        if (!isSettingKey(op.key)) return;
+        const remote = await withTimeout(fs.getSettingsWithMeta(uid));
+        const remoteAt = remote.updatedAt[op.key] ?? 0;
+        if (remoteAt > op.updatedAt) {
+            const remoteValue = remote.settings[op.key];
+            if (!sameContent(remoteValue, op.value)) {
+                await local.addConflict(uid, {
+                    store: 'settings', recordId: op.key, local: op.value, remote: remoteValue,
+                    winner: 'remote', detectedAt: Date.now(),
+                });
+            }
+            await local.applyRemoteSettings(uid, [{ key: op.key, value: remoteValue, updatedAt: remoteAt }], op.seq);
+            return;
+        }
+        await withTimeout(fs.saveSetting(uid, op.key, op.value, op.updatedAt));
+        return;
+    }
+
+    const remote = await withTimeout(fs.getRecord<AnyRecord>(uid, op.store, op.record.id!));
+    if (remote && remote.rev !== op.baseRev) {
+        // Both devices changed the record since this one last saw it
+        const localWins = (op.record.updatedAt ?? 0) >= (remote.updatedAt ?? 0);
+        if (!sameContent(op.record, remote)) {
+            await local.addConflict(uid, {
+                store: op.store, recordId: op.record.id!, local: op.record, remote,
+                winner: localWins ? 'local' : 'remote', detectedAt: Date.now(),
+            });
+        }
+        if (!localWins) {
+            await local.applyRemote(uid, op.store, [remote], op.seq);
+            return;
+        }
+    }
+    await withTimeout(fs.putRecord(uid, op.store, op.record));
+};
+
+type NewRecordOp = QueuedOp & { kind: 'put' };
+
+// An op with no baseRev creates a record the server has never seen, so it can't
+// conflict. Runs of them — after a guest import, restore or CSV import — go up in
+// batches instead of one read and one write each. Returns false if the batch was
+// rejected outright, so the caller can fall back to pushing ops one by one.
+const pushNewRecords = async (uid: string, ops: NewRecordOp[]): Promise<boolean> => {
+    const report = await fs.putRecords(uid, ops.map(op => ({ col: op.store, record: op.record })));
+    const failed = new Set(report.failed.map(entry => entry.record));
+    const pushed = ops.filter(op => !failed.has(op.record));
+    // Batched meals skip the per-meal summary transaction, so their days are recomputed
+    await fs.refreshDailySummaries(uid, pushed.flatMap(op => op.store === 'meals' ? [(op.record as Meal).date] : []));
+    await local.removeOps(uid, pushed.map(op => op.seq));
+    setStatus({ pending: Math.max(0, _status.pending - pushed.length) });
+    if (failed.size === 0) return true;
+    if (isRetryable(report.error)) throw report.error;
+    return false;
+};
+
+const push = async (uid: string) => {
+    let batching = true;
+    while (navigator.onLine) {
+        const ops = await local.peekOps(uid, BATCH_SIZE);
+        if (ops.length === 0) break;
+        const run = ops.findIndex(op => op.kind !== 'put' || op.baseRev !== undefined);
+        const fresh = (run === -1 ? ops : ops.slice(0, run)) as NewRecordOp[];
+        if (batching && fresh.length > 1) {
+            batching = await pushNewRecords(uid, fresh);
+            continue;
+        }
+        const op = ops[0];
+        try {
+            await pushOp(uid, op);
+        } catch (err) {
+            if (isRetryable(err)) throw err;
+            console.error('Firestore rejected queued write, dropping it:', op, err);
+        }
+        await local.removeOp(uid, op.seq);
+        setStatus({ pending: Math.max(0, _status.pending - 1) });
+    }
+};
+
+// --- Pull ---
+const pull = async (uid: string) => {
+    for (const store of STORES) {
+        const since = await local.getMeta<number>(uid, `cursor:${store}`) ?? 0;
+        const { records, cursor } = await withTimeout(fs.getChangedSince<AnyRecord>(uid, store, since));
+        await local.applyRemote(uid, store, records);
+        await local.setMeta(uid, `cursor:${store}`, cursor);
+    }
+    const { settings, updatedAt } = await withTimeout(fs.getSettingsWithMeta(uid));
+    // Secrets uploaded by an earlier version (or one still running elsewhere) are never pulled as
+    // settings: the API key goes into this device's vault, then they're deleted — unless the
+    // vault is locked, in which case they wait for a pass after it's unlocked
+    const leaked = LEGACY_SECRET_SETTINGS.filter(key => key in settings);
+    if (leaked.length > 0 && await adoptLegacyApiKey((settings as Record<string, unknown>).apiKey)) await withTimeout(fs.removeSettings(uid, leaked));
+    await local.applyRemoteSettings(uid, Object.keys(settings).filter(isSettingKey).map(key => ({
+        key, value: settings[key], updatedAt: updatedAt[key] ?? 0,
+    })));
+};
+
+// --- Encryption ---
+// Re-saves every document and encrypted setting so they match the account's
+// current encryption mode, then drops (turned on) or rebuilds (turned off)
+// Firestore's per-day totals.
+const rewriteAll = async (uid: string) => {
+    for (const store of STORES) {
+        const { records } = await withTimeout(fs.getChangedSince<AnyRecord>(uid, store, 0));
+        assertComplete(await fs.putRecords(uid, records.map(record => ({ col: store, record }))), store);
+    }
+    const { settings, updatedAt } = await withTimeout(fs.getSettingsWithMeta(uid));
+    for (const key of e2e.ENCRYPTED_SETTINGS.filter(isSettingKey)) {
+        if (key in settings) await withTimeout(fs.saveSetting(uid, key, settings[key], updatedAt[key]));
+    }
+    await withTimeout(e2e.finishRewrite(uid));
+    await fs.rebuildDailySummaries(uid);
+};
+
+// --- Guest data ---
+// Imported guest records are removed outright rather than trashed
+const GUEST_READERS: Record<MirrorStore, () => Promise<AnyRecord[]>> = {
+    meals: idb.getAllMeals,
+    favourites: idb.getAllFavourites,
+    weights: idb.getAllWeights,
+    recipes: idb.getAllRecipes,
+    water: idb.getAllWater,
+    activities: idb.getAllActivities,
+};
+
+/**
+ * Moves guest records into the account, skipping ones it already has (see
+ * naturalKey in dedupe.ts). Records keep their ID, so undo and open chats still
+ * find them after sign-in — except guest IDs from before string IDs, which
+ * another device's guest data may share.
+ * Guest settings only win when they are newer than the account's, or the account
+ * never set that key.
+ */
+const importGuestData = async (uid: string) => {
+    for (const store of STORES) {
+        const [guest, account] = await Promise.all([GUEST_READERS[store](), local.getAll(uid, store)]);
+        const known = new Set(account.map(r => naturalKey(store, r)));
+        const moves = guest.map(record => {
+            const key = naturalKey(store, record);
+            const isNew = !known.has(key);
+            known.add(key);
+            const copy = isNew ? { ...record, id: isLegacyId(record.id!) ? newId() : record.id } : null;
+            return { guestId: record.id!, copy };
+        });
+        // Each chunk is queued into the account and removed from guest storage
+        // before the next, so an interrupted import picks up where it stopped
+        const report = await runInChunks(moves, async chunk => {
+            await local.putRecords(uid, store, chunk.flatMap(m => m.copy ? [m.copy] : []));
+            await idb.purgeRecords(store, chunk.map(m => m.guestId));
+        });
+        assertComplete(report, `guest ${store}`);
+    }
+
+    const [guestSettings, accountSettings] = await Promise.all([idb.getSettingRecords(), local.getSettingRows(uid)]);
+    const accountByKey = new Map(accountSettings.map(r => [r.key, r]));
+    for (const row of guestSettings.filter(r => isSettingKey(r.key))) {
+        const existing = accountByKey.get(row.key);
+        const newer = row.updatedAt !== undefined && row.updatedAt > (existing?.updatedAt ?? 0);
+        const unset = !existing && !sameContent(row.value, DEFAULT_SETTINGS[row.key]);
+        if (newer || unset) await local.saveSetting(uid, row.key, row.value, row.updatedAt);
+    }
+};
+
+// --- Engine ---
+interface SyncOptions {
+    pull: boolean;
+    importGuest?: boolean;
+}
+
+let _uid: string | null = null;
+let _running: Promise<void> | null = null;
+// The pass to run once the current one finishes, and a promise for its end
+let _queued: { uid: string; opts: SyncOptions; done: Promise<void> } | null = null;
+
+const run = async (uid: string, opts: SyncOptions) => {
+    if (!navigator.onLine) {
+        setStatus({ state: 'offline' });
+        await refreshCounts(uid);
+        return;
+    }
+    setStatus({ state: 'syncing' });
+    try {
+        const encryption = await withTimeout(e2e.refreshEncryption(uid));
+        if (encryption.enabled && !encryption.unlocked) {
+            if (_uid === uid) setStatus({ state: 'locked' });
+            return;
+        }
+        await push(uid);
+        if (encryption.rewritePending) await rewriteAll(uid);
+        if (opts.pull) await pull(uid);
+        if (opts.importGuest) {
+            await importGuestData(uid);
+            notifyChange(...ALL_TOPICS);
+            await push(uid);
+        }
+        const lastSyncedAt = Date.now();
+        await local.setMeta(uid, 'lastSyncedAt', lastSyncedAt);
+        if (_uid === uid) setStatus({ state: 'idle', lastSyncedAt, ...(opts.pull && { lastPulledAt: lastSyncedAt }) });
+    } catch (err) {
+        console.error('Sync failed:', err);
+        if (_uid === uid) setStatus({ state: navigator.onLine ? 'error' : 'offline' });
+    } finally {
+        if (_uid === uid) await refreshCounts(uid);
+    }
+};
+
+/**
+ * Runs a sync pass. Overlapping requests are coalesced: if a pass is already
+ * running, one more pass is queued to start after it, doing everything the
+ * requests asked for. A request for another account replaces the queued pass.
+ * The returned promise resolves when the pass that covers this request ends.
+ */
+export const syncNow = (uid: string, opts: SyncOptions = { pull: true }): Promise<void> => {
+    if (!_running) {
+        _running = run(uid, opts).finally(() => { _running = null; });
+        return _running;
+    }
+    if (_queued) {
+        _queued.opts = _queued.uid === uid
+            ? { pull: _queued.opts.pull || opts.pull, importGuest: _queued.opts.importGuest || opts.importGuest }
+            : opts;
+        _queued.uid = uid;
+        return _queued.done;
+    }
+    const queued = { uid, opts, done: Promise.resolve() };
+    queued.done = _running.then(() => {
+        _queued = null;
+        // Signed out meanwhile: nothing to sync
+        return _uid === queued.uid ? syncNow(queued.uid, queued.opts) : undefined;
+    });
+    _queued = queued;
+    return queued.done;
+};
+
+let _initial: Promise<void> = Promise.resolve();
+
+/** Resolves once the first sync after sign-in (including the guest import) has finished. */
+export const waitForInitialSync = () => _initial;
+
+/** Starts background sync for a signed-in user. Returns a function that stops it. */
+export const startSync = (uid: string): (() => void) => {
+    _uid = uid;
+    local.getMeta<number>(uid, 'lastSyncedAt').then(lastSyncedAt => {
+        if (_uid === uid) setStatus({ lastSyncedAt: lastSyncedAt ?? null });
+    });
+
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+    const stopQueued = local.onQueued(queuedUid => {
+        if (queuedUid !== uid) return;
+        setStatus({ pending: _status.pending + 1 });
+        clearTimeout(debounce);
+        debounce = setTimeout(() => syncNow(uid, { pull: false }), PUSH_DEBOUNCE);
+    });
+    const onOnline = () => syncNow(uid);
+    const onOffline = () => setStatus({ state: 'offline' });
+    const onVisible = () => { if (document.visibilityState === 'visible') syncNow(uid); };
+    const interval = setInterval(() => { if (document.visibilityState === 'visible') syncNow(uid); }, SYNC_INTERVAL);
+    const stopWatching = fs.watchChanges(uid, Date.now(), () => syncNow(uid));
+
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+    document.addEventListener('visibilitychange', onVisible);
+    _initial = syncNow(uid, { pull: true, importGuest: true });
+
+    return () => {
+        stopQueued();
+        stopWatching();
+        clearTimeout(debounce);
+        clearInterval(interval);
+        window.removeEventListener('online', onOnline);
+        window.removeEventListener('offline', onOffline);
+        document.removeEventListener('visibilitychange', onVisible);
+        _uid = null;
+        _initial = Promise.resolve();
+        setStatus(IDLE);
+    };
+};
+
+// --- Conflict resolution ---
+/**
+ * Keeps one side of a conflict. Choosing the version that already won just
+ * dismisses the conflict; choosing the loser writes it back as a new edit.
+ */
+export const resolveConflict = async (uid: string, conflict: Conflict, keep: 'local' | 'remote'): Promise<void> => {
+    if (keep !== conflict.winner) {
+        const chosen = keep === 'local' ? conflict.local : conflict.remote;
+        if (conflict.store === 'settings') {
+            await local.saveSetting(uid, conflict.recordId as keyof UserSettings, chosen);
+        } else if ((chosen as SyncMeta | null)?.deleted || chosen == null) {
+            await local.deleteRecord(uid, conflict.store, conflict.recordId);
+        } else {
+            await local.putRecord(uid, conflict.store, chosen as AnyRecord);
+        }
+    }
+    await local.removeConflict(uid, conflict.id!);
+    await refreshCounts(uid);
+    notifyChange(conflict.store);
+};
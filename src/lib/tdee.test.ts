@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { DailySummary, WeightEntry } from './db';
+import { shiftDay } from './days';
+import { emptySummary } from './summaries';
+import { smoothWeights, type TrendPoint } from './weight-trend';
+import { estimateTdee, proposeGoals, MIN_CALORIES, TDEE_WINDOW_DAYS } from './tdee';
+
+const FROM = '2026-03-01';
+const TO = shiftDay(FROM, TDEE_WINDOW_DAYS - 1);
+
+const logged = (days: number, calories: number): DailySummary[] =>
+    Array.from({ length: days }, (_, i) => ({ ...emptySummary(shiftDay(FROM, i)), calories, mealCount: 3 }));
+
+const weighIns = (every: number, weight: number): WeightEntry[] =>
+    Array.from({ length: Math.ceil(TDEE_WINDOW_DAYS / every) }, (_, i) => {
+        const date = shiftDay(FROM, i * every);
+        return { id: date, date, timestamp: 0, weight };
+    });
+
+describe('estimateTdee', () => {
+    it('is intake when the trend holds steady', () => {
+        const estimate = estimateTdee(logged(28, 2200), smoothWeights(weighIns(2, 70)), FROM, TO);
+        expect(estimate).toMatchObject({ tdee: 2200, intake: 2200, trendChange: 0, loggedDays: 28, weighDays: 14, confidence: 'high' });
+    });
+
+    it('adds the energy a falling trend released', () => {
+        // A kilo lost over exactly four weeks, starting from a weigh-in the day before the window
+        const points: TrendPoint[] = [
+            { date: shiftDay(FROM, -1), weight: 80, trend: 80 },
+            { date: shiftDay(FROM, 10), weight: 79.6, trend: 79.6 },
+            { date: shiftDay(FROM, 20), weight: 79.3, trend: 79.3 },
+            { date: shiftDay(FROM, 27), weight: 79, trend: 79 },
+        ];
+        const estimate = estimateTdee(logged(20, 2000), points, FROM, TO);
+        expect(estimate).toMatchObject({ tdee: 2275, trendChange: -1, spanDays: 28, weighDays: 3, confidence: 'low' });
+    });
+
+    it('leaves out days with nothing logged instead of counting them as zero', () => {
+        const summaries = [...logged(10, 2400), ...Array.from({ length: 18 }, (_, i) => emptySummary(shiftDay(FROM, 10 + i)))];
+        expect(estimateTdee(summaries, smoothWeights(weighIns(2, 70)), FROM, TO)).toMatchObject({ intake: 2400, loggedDays: 10 });
+    });
+
+    it('needs a week of logging and three weigh-ins a week apart', () => {
+        const weights = smoothWeights(weighIns(2, 70));
+        expect(estimateTdee(logged(6, 2000), weights, FROM, TO)).toBeNull();
+        expect(estimateTdee(logged(28, 2000), weights.slice(0, 2), FROM, TO)).toBeNull();
+        expect(estimateTdee(logged(28, 2000), weights.slice(0, 3), FROM, TO)).toBeNull();
+        expect(estimateTdee(logged(28, 2000), weights.slice(0, 5), FROM, TO)).not.toBeNull();
+    });
+});
+
+describe('proposeGoals', () => {
+    it('sets calories for the weekly rate and splits them into macros', () => {
+        expect(proposeGoals(2500, -0.5, 80)).toEqual({ dailyCalories: 1950, dailyProtein: 144, dailyFat: 54, dailyCarbs: 222, dailyFiber: 27 });
+        expect(proposeGoals(2500, 0.25, 80).dailyProtein).toBe(128);
+    });
+
+    it('never proposes less than the floor', () => {
+        expect(proposeGoals(1400, -0.75, 60).dailyCalories).toBe(MIN_CALORIES);
+    });
+
+    it('takes the average burn off calories only', () => {
+        const gross = proposeGoals(2500, 0, 70);
+        const net = proposeGoals(2500, 0, 70, 304);
+        expect(net).toEqual({ ...gross, dailyCalories: gross.dailyCalories - 300 });
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * tdee.ts — maintenance calories worked out from the user's own data
+ *
+ * Over the last four weeks, energy in minus energy stored is what was burned:
+ *
+ *   TDEE = average logged intake − (change in trend weight × 7700 kcal/kg) / days
+ *
+ * Intake comes from daily summaries (days with no meals are left out, not
+ * counted as zero) and the weight change from the smoothed trend
+ * (weight-trend.ts), so a salty dinner doesn't swing the estimate. Confidence
+ * depends on how many days were logged and weighed and how long the trend
+ * covers; below the minimums there's no estimate at all.
+ *
+ * proposeGoals() turns an estimate into calorie and macro goals for a chosen
+ * weekly rate. With `netCalories` on, goals are compared with intake minus
+ * exercise, so the average daily burn is taken off the proposed calories.
+ */
+import { differenceInCalendarDays } from 'date-fns';
+import type { DailySummary, UserSettings } from './db.idb';
+import type { TrendPoint } from './weight-trend';
+
+export type TdeeConfidence = 'low' | 'medium' | 'high';
+
+export interface TdeeEstimate {
+    tdee: number;              // kcal per day
+    intake: number;            // average kcal on logged days
+    trendChange: number;       // kg over the span, negative when losing
+    spanDays: number;          // days between the first and last trend point used
+    loggedDays: number;
+    weighDays: number;
+    confidence: TdeeConfidence;
+}
+
+export type ProposedGoals = Pick<UserSettings, 'dailyCalories' | 'dailyProtein' | 'dailyFat' | 'dailyCarbs' | 'dailyFiber'>;
+
+export const TDEE_WINDOW_DAYS = 28;
+
+// Weekly rates offered when proposing goals, kg per week
+export const GOAL_RATES = [-0.75, -0.5, -0.25, 0, 0.25, 0.5];
+
+const KCAL_PER_KG = 7700;
+
+// Below these there's too little to go on
+const MIN_LOGGED_DAYS = 7;
+const MIN_WEIGH_DAYS = 3;
+const MIN_SPAN_DAYS = 7;
+
+const CONFIDENCE: { level: TdeeConfidence; logged: number; weighDays: number; span: number }[] = [
+    { level: 'high', logged: 0.85, weighDays: 12, span: 21 },
+    { level: 'medium', logged: 0.6, weighDays: 6, span: 14 },
+];
+
+// Proposals never go below this: under it, eating should be supervised
+export const MIN_CALORIES = 1200;
+
+const daysBetween = (from: string, to: string) =>
+    differenceInCalendarDays(new Date(`${to}T00:00:00`), new Date(`${from}T00:00:00`));
+
+/**
+ * Maintenance calories from the window from..to, or null without enough
+ * logging or weigh-ins. `points` is the smoothed trend (load a warm-up before
+ * `from` so it has settled).
+ */
+export const estimateTdee = (summaries: DailySummary[], points: TrendPoint[], from: string, to: string): TdeeEstimate | null => {
+    const logged = summaries.filter(s => s.date >= from && s.date <= to && s.mealCount > 0);
+    const inWindow = points.filter(p => p.date >= from && p.date <= to);
+    if (logged.length < MIN_LOGGED_DAYS || inWindow.length < MIN_WEIGH_DAYS) return null;
+
+    // Start from the trend as it stood when the window opened, if there's a weigh-in from before it
+    const before = points.filter(p => p.date < from);
+    const start = before.length > 0 ? before[before.length - 1] : inWindow[0];
+    const end = inWindow[inWindow.length - 1];
+    const spanDays = daysBetween(start.date, end.date);
+    if (spanDays < MIN_SPAN_DAYS) return null;
+
+    const intake = logged.reduce((n, s) => n + s.calories, 0) / logged.length;
+    const trendChange = end.trend - start.trend;
+    const tdee = Math.round(intake - (trendChange * KCAL_PER_KG) / spanDays);
+
+    const windowDays = daysBetween(from, to) + 1;
+    const share = logged.length / windowDays;
+    const confidence = CONFIDENCE.find(c => share >= c.logged && inWindow.length >= c.weighDays && spanDays >= c.span)?.level ?? 'low';
+
+    return {
+        tdee,
+        intake: Math.round(intake),
+        trendChange: Math.round(trendChange * 100) / 100,
+        spanDays,
+        loggedDays: logged.length,
+        weighDays: inWindow.length,
+        confidence,
+    };
+};
+
+/**
+ * Calorie and macro goals for gaining or losing `rate` kg per week. Protein is
+ * per kg of trend weight (more while losing, to keep muscle), fat a quarter of
+ * calories, fiber 14 g per 1000 kcal and carbs the rest. `burnedPerDay` is
+ * taken off when goals count net calories.
+ */
+export const proposeGoals = (tdee: number, rate: number, weightKg: number, burnedPerDay = 0): ProposedGoals => {
+    const target = Math.max(MIN_CALORIES, Math.round((tdee + rate * KCAL_PER_KG / 7) / 10) * 10);
+    const dailyCalories = Math.max(MIN_CALORIES, target - Math.round(burnedPerDay / 10) * 10);
+    const dailyProtein = Math.round(weightKg * (rate < 0 ? 1.8 : 1.6));
+    const dailyFat = Math.round(target * 0.25 / 9);
+    const dailyCarbs = Math.max(0, Math.round((target - dailyProtein * 4 - dailyFat * 9) / 4));
+    const dailyFiber = Math.round(target / 1000 * 14);
+    return { dailyCalories, dailyProtein, dailyFat, dailyCarbs, dailyFiber };
+};
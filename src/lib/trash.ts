@@ -0,0 +1,54 @@
+/**
+ * trash.ts — deleted items, kept for a while so they can be restored
+ *
+ * Deleting a meal, favourite, weight entry, recipe, water entry or activity stamps `deletedAt` on it
+ * instead of removing it (every backend does this — see storage.ts). Trashed
+ * records are hidden from all getters and daily totals. The Trash screen lists
+ * them for restore or permanent deletion, and anything older than
+ * TRASH_RETENTION_DAYS is purged when the app starts.
+ */
+import { format } from 'date-fns';
+import { getTrash, restoreFromTrash, purgeFromTrash, type TrashStore, type RecordId, type Meal, type Favourite, type WeightEntry, type WaterEntry, type Activity, type Recipe } from './db';
+import { mealTitle } from './items';
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface TrashItem {
+    store: TrashStore;
+    id: RecordId;
+    label: string;
+    detail: string;
+    deletedAt: number;
+}
+
+/** Everything in the trash, most recently deleted first. */
+export const getTrashItems = async (): Promise<TrashItem[]> => {
+    const trash = await getTrash();
+    const item = (store: TrashStore, r: { id?: RecordId; deletedAt?: number }, label: string, detail: string): TrashItem =>
+        ({ store, id: r.id!, label, detail, deletedAt: r.deletedAt! });
+    return [
+        ...trash.meals.map((m: Meal) => item('meals', m, mealTitle(m),
+            `${format(m.timestamp, 'MMM d, h:mm a')} · ${Math.round(m.totalCalories)} kcal`)),
+        ...trash.favourites.map((f: Favourite) => item('favourites', f, f.name, `Favourite · ${Math.round(f.totalCalories)} kcal`)),
+        ...trash.weights.map((w: WeightEntry) => item('weights', w, `${w.weight} kg`, `Weight · ${format(w.timestamp, 'MMM d')}`)),
+        ...trash.recipes.map((r: Recipe) => item('recipes', r, r.name, `Recipe · ${r.ingredients.length} ingredients`)),
+        ...trash.water.map((w: WaterEntry) => item('water', w, `${w.ml} ml water`, `Water · ${format(w.timestamp, 'MMM d, h:mm a')}`)),
+        ...trash.activities.map((a: Activity) => item('activities', a, a.name, `Activity · ${format(a.timestamp, 'MMM d, h:mm a')} · ${a.calories} kcal`)),
+    ].sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+export const restoreItem = (item: Pick<TrashItem, 'store' | 'id'>) => restoreFromTrash(item.store, item.id);
+
+export const purgeItem = (item: Pick<TrashItem, 'store' | 'id'>) => purgeFromTrash(item.store, item.id);
+
+export const emptyTrash = async (): Promise<void> => {
+    for (const item of await getTrashItems()) await purgeItem(item);
+};
+
+/** Permanently deletes items trashed more than TRASH_RETENTION_DAYS ago. Returns how many. */
+export const purgeExpiredTrash = async (now = Date.now()): Promise<number> => {
+    const cutoff = now - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const expired = (await getTrashItems()).filter(item => item.deletedAt < cutoff);
+    for (const item of expired) await purgeItem(item);
+    return expired.length;
+};
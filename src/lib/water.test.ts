@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { addMeal, getAllMeals, getAllWater, getDailySummaries, getTrash, setBackend, type Meal } from './db';
+import { createMemoryBackend } from './db.memory';
+import { withItems } from './items';
+import { migrateWaterMeals, parseWater, totalWater } from './water';
+
+// How earlier versions logged a drink
+const waterMeal = (id: string, ml: number): Meal => ({
+    id, date: '2026-03-01', timestamp: new Date(2026, 2, 1, 10).getTime(), content: `${ml}ml water`,
+    ...withItems([{ food: 'Water', calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0 }]),
+});
+
+const dal: Meal = {
+    id: 'dal', date: '2026-03-01', timestamp: new Date(2026, 2, 1, 13).getTime(), content: 'dal',
+    ...withItems([{ food: 'Dal', calories: 300, protein: 15, fat: 8, carbs: 40, fiber: 9 }]),
+};
+
+describe('parseWater', () => {
+    it('reads millilitres, litres and glasses', () => {
+        expect(parseWater('500ml water', 250)).toBe(500);
+        expect(parseWater('drank 1.5 litres of water', 250)).toBe(1500);
+        expect(parseWater('half a litre of water', 250)).toBe(500);
+        expect(parseWater('2 glasses of water', 300)).toBe(600);
+        expect(parseWater('water 250 ml.', 250)).toBe(250);
+    });
+
+    it('leaves other drinks and implausible amounts alone', () => {
+        expect(parseWater('200ml coconut water', 250)).toBeNull();
+        expect(parseWater('a glass of milk', 250)).toBeNull();
+        expect(parseWater('50 litres of water', 250)).toBeNull();
+    });
+
+    it('adds up a day of drinks', () => {
+        expect(totalWater([
+            { id: 'a', date: '2026-03-01', timestamp: 0, ml: 250 },
+            { id: 'b', date: '2026-03-01', timestamp: 0, ml: 500 },
+        ])).toBe(750);
+    });
+});
+
+describe('migrateWaterMeals', () => {
+    beforeEach(() => setBackend(createMemoryBackend({ meals: [waterMeal('w1', 250), waterMeal('w2', 500), dal] })));
+
+    it('turns water meals into water entries with the same ids and purges the meals', async () => {
+        expect(await migrateWaterMeals()).toBe(2);
+
+        expect((await getAllWater()).map(w => [w.id, w.ml])).toEqual([['w1', 250], ['w2', 500]]);
+        expect((await getAllMeals()).map(m => m.id)).toEqual(['dal']);
+        expect((await getTrash()).meals).toEqual([]);
+        expect(await getDailySummaries('2026-03-01', '2026-03-01')).toMatchObject([{ calories: 300, mealCount: 1 }]);
+    });
+
+    it('only reads the meals once per storage', async () => {
+        await migrateWaterMeals();
+        await addMeal(waterMeal('late', 250));
+
+        expect(await migrateWaterMeals()).toBe(0);
+        expect(await getAllMeals()).toHaveLength(2);
+    });
+
+    it('records that it ran even when there was nothing to move', async () => {
+        setBackend(createMemoryBackend({ meals: [dal] }));
+        expect(await migrateWaterMeals()).toBe(0);
+        await addMeal(waterMeal('late', 250));
+        expect(await migrateWaterMeals()).toBe(0);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * water.ts — hydration
+ *
+ * Water has its own store (`water`, one WaterEntry per drink, synced and
+ * trashed like weights) instead of being logged as a meal. The chat picks up
+ * "2 glasses of water", "500ml water" or "1.5 litres of water" without the LLM
+ * via parseWater(); glasses use the glass size from settings (`unitGlass`).
+ *
+ * Earlier versions logged water as a zero-calorie meal with a single "Water"
+ * item and content like "250ml water". migrateWaterMeals() turns those into
+ * water entries the first time the app starts on a version with the water log
+ * (when signed in, after the first sync that pulled the account's meals), and
+ * records in the storage meta that it has, so later starts don't read every
+ * meal again.
+ */
+import {
+    getAllMeals, putMany, purgeFromTrash, rebuildDailySummaries, getMeta, setMeta,
+    type Meal, type WaterEntry,
+} from './db';
+import { assertComplete } from './bulk';
+
+// Anything bigger is more likely a typo than a drink
+const MAX_ML = 5000;
+
+const COUNTS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, half: 0.5, 'half a': 0.5 };
+
+const AMOUNT = `(\\d+(?:\\.\\d+)?|an?|one|two|three|four|five|half(?: a)?)`;
+const UNIT = '(ml|l|litres?|liters?|glass(?:es)?)';
+
+// "2 glasses of water", "500ml water", "drank a litre of water", "water 500ml"
+const PATTERNS = [
+    new RegExp(`^(?:i )?(?:drank |had |drink )?${AMOUNT} ?${UNIT}(?: of)? water$`, 'i'),
+    new RegExp(`^water ${AMOUNT} ?${UNIT}$`, 'i'),
+];
+
+const toMl = (amount: string, unit: string, glassMl: number): number => {
+    const count = COUNTS[amount.toLowerCase()] ?? parseFloat(amount);
+    const u = unit.toLowerCase();
+    if (u === 'ml') return count;
+    if (u.startsWith('glass')) return count * glassMl;
+    return count * 1000;
+};
+
+/** How much water a message logs, in ml — or null if it isn't only about water. */
+export const parseWater = (text: string, glassMl: number): number | null => {
+    const clean = text.trim().replace(/[.!]+$/, '').replace(/\s{2,}/g, ' ');
+    for (const pattern of PATTERNS) {
+        const m = clean.match(pattern);
+        if (!m) continue;
+        const ml = Math.round(toMl(m[1], m[2], glassMl));
+        return ml > 0 && ml <= MAX_ML ? ml : null;
+    }
+    return null;
+};
+
+/** Total ml of the given entries. */
+export const totalWater = (entries: WaterEntry[]): number => entries.reduce((n, w) => n + w.ml, 0);
+
+// --- Old "Water" meals ---
+const MOVED_KEY = 'waterMealsMoved';
+
+const isWaterMeal = (meal: Meal) =>
+    meal.parsed?.length === 1 && meal.parsed[0].food === 'Water' && !meal.totalCalories && parseInt(meal.content, 10) > 0;
+
+/**
+ * Moves every old "Water" meal into the water store and removes the meal.
+ * Entries reuse the meal's id, so two devices converting the same meal write
+ * the same entry rather than two. Does nothing once it has finished on this
+ * storage, so only run it once the storage holds every meal (see App.tsx).
+ * Returns how many were converted.
+ */
+export const migrateWaterMeals = async (): Promise<number> => {
+    if (await getMeta<boolean>(MOVED_KEY)) return 0;
+    const meals = (await getAllMeals()).filter(isWaterMeal);
+    if (meals.length > 0) {
+        const entries: WaterEntry[] = meals.map(meal => ({
+            id: meal.id, date: meal.date, timestamp: meal.timestamp, ml: parseInt(meal.content, 10),
+        }));
+        assertComplete(await putMany('water', entries), 'water entries');
+        for (const meal of meals) await purgeFromTrash('meals', meal.id!);
+        // Daily totals from before used to leave these out of the meal count
+        await rebuildDailySummaries();
+    }
+    await setMeta(MOVED_KEY, true);
+    return meals.length;
+};
@@ -0,0 +1,112 @@
+/**
+ * weight-trend.ts — trend weight, rate and goal projection
+ *
+ * Day-to-day weight swings by a kilo or more with water and salt, so progress
+ * is read from a trend rather than raw weigh-ins: an exponentially smoothed
+ * average (10% of each new day's difference, as in The Hacker's Diet). Days
+ * with several weigh-ins count once, at their average; a gap of several days
+ * moves the trend as far as that many daily steps would.
+ *
+ * The weekly rate is the slope of the trend over the last two weeks, and the
+ * projected goal date assumes that rate holds. Goals come from settings
+ * (`goalWeight`, 0 = none; `goalDate`, '' = none).
+ */
+import { differenceInCalendarDays } from 'date-fns';
+import type { WeightEntry } from './db.idb';
+import { shiftDay } from './days';
+
+export interface TrendPoint {
+    date: string;
+    weight: number;   // the day's average weigh-in
+    trend: number;
+}
+
+export interface WeightStats {
+    trend: number;
+    rate: number | null;        // kg per week, negative when losing; null until there's enough data
+    toGo: number | null;        // kg from trend to goal, null without a goal
+    projected: string | null;   // day the goal is reached at the current rate, if it's heading there
+    needed: number | null;      // kg per week that would hit the goal on the target date
+}
+
+/** Selectable spans for the weight view; null means everything. */
+export const WEIGHT_RANGES: { label: string; days: number | null }[] = [
+    { label: '1M', days: 30 },
+    { label: '3M', days: 90 },
+    { label: '6M', days: 180 },
+    { label: '1Y', days: 365 },
+    { label: 'All', days: null },
+];
+
+// Extra history loaded before a range so the trend has settled by its first day
+export const TREND_WARMUP_DAYS = 30;
+
+const SMOOTHING = 0.1;
+const RATE_WINDOW_DAYS = 14;
+// Slopes over fewer days than this are mostly noise
+const MIN_RATE_SPAN_DAYS = 5;
+// Projections further out than this aren't worth showing
+const MAX_PROJECTION_DAYS = 3 * 365;
+
+const round = (n: number, places = 1) => Math.round(n * 10 ** places) / 10 ** places;
+
+const daysBetween = (from: string, to: string) =>
+    differenceInCalendarDays(new Date(`${to}T00:00:00`), new Date(`${from}T00:00:00`));
+
+/** One point per day with weigh-ins, oldest first, each with the trend as of that day. */
+export const smoothWeights = (weights: WeightEntry[]): TrendPoint[] => {
+    const byDay = new Map<string, number[]>();
+    for (const w of weights) byDay.set(w.date, [...(byDay.get(w.date) ?? []), w.weight]);
+
+    const points: TrendPoint[] = [];
+    for (const date of [...byDay.keys()].sort()) {
+        const day = byDay.get(date)!;
+        const weight = day.reduce((a, b) => a + b, 0) / day.length;
+        const prev = points[points.length - 1];
+        const step = prev ? 1 - (1 - SMOOTHING) ** daysBetween(prev.date, date) : 1;
+        const trend = prev ? prev.trend + step * (weight - prev.trend) : weight;
+        points.push({ date, weight: round(weight), trend: round(trend, 2) });
+    }
+    return points;
+};
+
+/** kg per week over the last two weeks of trend (least-squares slope), or null with too little data. */
+export const weeklyRate = (points: TrendPoint[]): number | null => {
+    if (points.length < 2) return null;
+    const last = points[points.length - 1].date;
+    const recent = points.filter(p => daysBetween(p.date, last) <= RATE_WINDOW_DAYS);
+    const xs = recent.map(p => -daysBetween(p.date, last));
+    if (recent.length < 2 || -Math.min(...xs) < MIN_RATE_SPAN_DAYS) return null;
+
+    const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+    const meanY = recent.reduce((a, p) => a + p.trend, 0) / recent.length;
+    let num = 0, den = 0;
+    recent.forEach((p, i) => {
+        num += (xs[i] - meanX) * (p.trend - meanY);
+        den += (xs[i] - meanX) ** 2;
+    });
+    return den > 0 ? round((num / den) * 7, 2) : null;
+};
+
+/** Where the trend stands against the goal weight and target date. */
+export const weightStats = (points: TrendPoint[], goalWeight: number, goalDate: string, today: string): WeightStats | null => {
+    if (points.length === 0) return null;
+    const trend = points[points.length - 1].trend;
+    const rate = weeklyRate(points);
+    if (!goalWeight) return { trend: round(trend), rate, toGo: null, projected: null, needed: null };
+
+    const toGo = round(goalWeight - trend);
+    let projected: string | null = null;
+    if (Math.abs(toGo) < 0.1) projected = today;
+    else if (rate && Math.sign(rate) === Math.sign(toGo)) {
+        const days = Math.ceil(toGo / rate * 7);
+        if (days <= MAX_PROJECTION_DAYS) projected = shiftDay(today, days);
+    }
+
+    const weeksLeft = goalDate ? daysBetween(today, goalDate) / 7 : 0;
+    const needed = weeksLeft > 0 ? round(toGo / weeksLeft, 2) : null;
+    return { trend: round(trend), rate, toGo, projected, needed };
+};
+
+/** "-0.45 kg/week", "+0.20 kg/week". */
+export const formatRate = (rate: number): string => `${rate > 0 ? '+' : ''}${rate.toFixed(2)} kg/week`;
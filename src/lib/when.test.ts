@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dayKey } from './days';
+import { describeWhen, parseWhen } from './when';
+
+// Wednesday 11 March 2026, 18:07 local time
+const NOW = new Date(2026, 2, 11, 18, 7);
+
+const local = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute).getTime();
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('parseWhen', () => {
+    it('leaves a message without a time alone', () => {
+        expect(parseWhen('2 roti and dal')).toEqual({ text: '2 roti and dal' });
+    });
+
+    it('reads a day and meal, and takes them out of the text', () => {
+        expect(parseWhen('yesterday lunch 2 roti')).toEqual({ text: '2 roti', at: local(10, 13), slot: 'lunch' });
+        expect(parseWhen('poha the day before yesterday')).toMatchObject({ text: 'poha', at: local(9, 18, 7) });
+        expect(parseWhen('pizza last night')).toMatchObject({ text: 'pizza', at: local(10, 21) });
+        expect(parseWhen('dosa 2 days ago')).toMatchObject({ at: local(9, 18, 7) });
+    });
+
+    it('counts weekdays back, a week for the same day', () => {
+        expect(parseWhen('biryani on monday').at).toBe(local(9, 18, 7));
+        expect(parseWhen('biryani last wednesday').at).toBe(local(4, 18, 7));
+    });
+
+    it('puts a clock time with no day at its last occurrence', () => {
+        expect(parseWhen('paneer dinner at 8pm')).toEqual({ text: 'paneer', at: local(10, 20), slot: 'dinner' });
+        expect(parseWhen('rice at 2').at).toBe(local(11, 14));
+        expect(parseWhen('pasta at 23:30').at).toBe(local(10, 23, 30));
+        expect(parseWhen('eggs 7am').at).toBe(local(11, 7));
+    });
+
+    it("uses a meal word's usual time, or now if it hasn't come yet", () => {
+        expect(parseWhen('salad for dinner')).toEqual({ text: 'salad', at: NOW.getTime(), slot: 'dinner' });
+        expect(parseWhen('toast for breakfast')).toEqual({ text: 'toast', at: local(11, 8), slot: 'breakfast' });
+        // A clock time beats the meal word's usual time
+        expect(parseWhen('yesterday dinner at 9pm paneer')).toMatchObject({ at: local(10, 21), slot: 'dinner' });
+    });
+
+    it('fills in what the phrase leaves open from the picked time', () => {
+        const base = local(10, 9, 30);
+        expect(parseWhen('dal for lunch', base).at).toBe(local(10, 13));
+        expect(parseWhen('dal at 8pm', base).at).toBe(local(10, 20));
+    });
+
+    it('never lands in the future', () => {
+        expect(parseWhen('chai today at 11pm').at).toBe(NOW.getTime());
+    });
+
+    it('keeps the message when it was only a time', () => {
+        expect(parseWhen('yesterday')).toEqual({ text: 'yesterday', at: local(10, 18, 7), slot: undefined });
+    });
+
+    it('counts days from the day start hour', () => {
+        vi.setSystemTime(local(12, 1));
+        const { at } = parseWhen('chips yesterday', undefined, 4);
+        // Still the evening of the 11th, so yesterday is the 10th, in its early hours
+        expect(at).toBe(local(11, 1));
+        expect(dayKey(at!, { dayStartHour: 4 })).toBe('2026-03-10');
+    });
+});
+
+describe('describeWhen', () => {
+    it('names today and yesterday, and dates anything older', () => {
+        expect(describeWhen(local(11, 8))).toBe('today, 8:00 AM');
+        expect(describeWhen(local(10, 13))).toBe('yesterday, 1:00 PM');
+        expect(describeWhen(local(3, 20))).toBe('Tue 3 Mar, 8:00 PM');
+    });
+});
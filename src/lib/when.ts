@@ -0,0 +1,151 @@
+/**
+ * when.ts — when a logged meal was eaten
+ *
+ * Meals are logged for "now" unless the message says otherwise. parseWhen()
+ * picks temporal phrases out of a chat message ("yesterday lunch", "at 8am",
+ * "last night", "2 days ago", "on monday") and returns the moment they point at,
+ * plus the message with the phrase removed so food lookup and the LLM only see
+ * the food.
+ *
+ * Whatever the phrase leaves open comes from `base`: the time picked in the
+ * composer, or the current time. So "lunch" with yesterday picked means
+ * yesterday at lunchtime, and "yesterday" alone means this time yesterday.
+ * Nothing lands in the future. A clock time with no day is the last time it
+ * came round: "dinner at 8pm" typed at 1am is the evening before, and "at 2"
+ * is 2pm in the afternoon but 2am just after it. A meal word's typical time
+ * that's still ahead ("lunch" at 12:45) is now. Meal words also name the
+ * meal's slot (slots.ts).
+ *
+ * Days are counted the way days.ts does: with the day starting at 4am,
+ * "yesterday" at 1am is the day before the evening that's still going on, and
+ * a time before 4am lands in the early hours after the named day.
+ */
+import { addDays, format, startOfDay, subDays, subHours } from 'date-fns';
+import type { MealSlot } from './db.idb';
+import { dayKey, shiftDay, todayKey } from './days';
+
+// Typical times for meal words, used when no clock time is given
+const MEAL_HOURS: Record<string, number> = {
+    breakfast: 8, brunch: 11, lunch: 13, snack: 16, dinner: 20, supper: 20,
+};
+const MEAL_SLOTS: Record<string, MealSlot> = {
+    breakfast: 'breakfast', brunch: 'breakfast', lunch: 'lunch', snack: 'snack', dinner: 'dinner', supper: 'dinner',
+};
+const MEAL = '(breakfast|brunch|lunch|snack|dinner|supper)';
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+interface Found {
+    daysAgo?: number;
+    hour?: number;
+    minute?: number;
+    exact?: boolean;       // a clock time, which beats a meal word's typical time
+    ambiguous?: boolean;   // 1–12 with no am/pm: either half of the day
+    slot?: MealSlot;
+}
+
+const clock = (h: string, m: string | undefined, meridiem: string | undefined): Found | null => {
+    let hour = parseInt(h, 10);
+    const minute = m ? parseInt(m, 10) : 0;
+    if (meridiem) {
+        if (hour < 1 || hour > 12) return null;
+        hour = hour % 12 + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+    }
+    if (hour > 23 || minute > 59) return null;
+    return { hour, minute, exact: true, ambiguous: !meridiem && hour >= 1 && hour <= 12 };
+};
+
+const mealTime = (word: string | undefined): Found => word
+    ? { hour: MEAL_HOURS[word.toLowerCase()], minute: 0, slot: MEAL_SLOTS[word.toLowerCase()] }
+    : {};
+
+// Checked in order; each match is removed from the text before the next rule runs
+const RULES: { pattern: RegExp; read: (m: RegExpMatchArray, now: Date) => Found | null }[] = [
+    { pattern: new RegExp(`\\b(?:the )?day before yesterday(?:'s)?(?: ${MEAL})?\\b`, 'i'), read: m => ({ daysAgo: 2, ...mealTime(m[1]) }) },
+    { pattern: new RegExp(`\\byesterday(?:'s)?(?: ${MEAL})?\\b`, 'i'), read: m => ({ daysAgo: 1, ...mealTime(m[1]) }) },
+    { pattern: /\blast night\b/i, read: () => ({ daysAgo: 1, hour: 21, minute: 0 }) },
+    { pattern: /\b(\d{1,2}) days? ago\b/i, read: m => ({ daysAgo: parseInt(m[1], 10) }) },
+    {
+        pattern: /\b(?:on|last) (sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i,
+        read: (m, now) => ({ daysAgo: (now.getDay() - WEEKDAYS.indexOf(m[1].toLowerCase()) + 7) % 7 || 7 }),
+    },
+    { pattern: /\bthis morning\b/i, read: () => ({ daysAgo: 0, hour: MEAL_HOURS.breakfast, minute: 0 }) },
+    { pattern: /\b(?:tonight|this evening)\b/i, read: () => ({ daysAgo: 0, hour: MEAL_HOURS.dinner, minute: 0 }) },
+    { pattern: new RegExp(`\\btoday(?:'s)?(?: ${MEAL})?\\b`, 'i'), read: m => ({ daysAgo: 0, ...mealTime(m[1]) }) },
+    { pattern: new RegExp(`\\b(?:for|at) ${MEAL}\\b`, 'i'), read: m => mealTime(m[1]) },
+    { pattern: /(?:\bat |@ ?)(\d{1,2})(?::(\d{2}))? ?(am|pm)?\b/i, read: m => clock(m[1], m[2], m[3]) },
+    { pattern: /\b(\d{1,2})(?::(\d{2}))? ?(am|pm)\b/i, read: m => clock(m[1], m[2], m[3]) },
+];
+
+// Once a day or time is named, a bare meal word ("lunch yesterday", "dinner at 8pm") is the slot
+const BARE_MEAL = new RegExp(`\\b${MEAL}\\b`, 'i');
+
+const tidy = (text: string) => text.replace(/\s{2,}/g, ' ').replace(/^[\s,.:;-]+|[\s,.:;-]+$/g, '');
+
+/**
+ * The moment a message's temporal phrases point at, and the message without them.
+ * `at` is undefined when the message doesn't mention a time, `slot` when it
+ * doesn't name a meal.
+ */
+export const parseWhen = (input: string, base?: number, dayStartHour = 0): { text: string; at?: number; slot?: MealSlot } => {
+    const now = new Date();
+    const found: Found = {};
+    let text = input;
+    let matched = false;
+
+    for (const { pattern, read } of RULES) {
+        const m = text.match(pattern);
+        if (!m) continue;
+        const value = read(m, now);
+        if (!value) continue;
+        found.daysAgo ??= value.daysAgo;
+        found.slot ??= value.slot;
+        if (value.hour !== undefined && (found.hour === undefined || value.exact)) {
+            found.hour = value.hour;
+            found.minute = value.minute;
+            found.exact = value.exact;
+            found.ambiguous = value.ambiguous;
+        }
+        text = text.replace(m[0], ' ');
+        matched = true;
+    }
+    if (!matched) return { text: input };
+
+    const timed = found.daysAgo !== undefined || found.hour !== undefined;
+    const bare = timed && found.slot === undefined ? text.match(BARE_MEAL) : null;
+    if (bare) {
+        const meal = mealTime(bare[1]);
+        found.slot = meal.slot;
+        if (found.hour === undefined) Object.assign(found, meal);
+        text = text.replace(bare[0], ' ');
+    }
+
+    const from = new Date(base ?? now.getTime());
+    const { daysAgo } = found;
+    const resolve = (hour: number, minute: number): Date => {
+        const day = daysAgo !== undefined
+            ? subDays(startOfDay(subHours(now, dayStartHour)), daysAgo)
+            : startOfDay(subHours(from, dayStartHour));
+        day.setHours(hour, minute);
+        const at = hour < dayStartHour ? addDays(day, 1) : day;
+        if (at <= now) return at;
+        // A clock time still ahead, with no day named, is the previous day's; anything else stops at now
+        return daysAgo === undefined && found.exact ? subDays(at, 1) : new Date(now);
+    };
+    const minute = found.minute ?? from.getMinutes();
+    const hours = found.hour === undefined ? [from.getHours()]
+        : found.ambiguous ? [found.hour % 12, found.hour % 12 + 12]
+        : [found.hour];
+    // Of am and pm, whichever came round last
+    const at = Math.max(...hours.map(hour => resolve(hour, minute).getTime()));
+
+    // A message that was nothing but a time ("yesterday") still needs something to parse
+    return { text: tidy(text) || input, at, slot: found.slot };
+};
+
+/** "today, 8:00 AM", "yesterday, 1:00 PM" or "Mon 3 Mar, 8:00 PM". */
+export const describeWhen = (at: number, dayStartHour = 0): string => {
+    const key = dayKey(at, { dayStartHour });
+    const today = todayKey({ dayStartHour });
+    const day = key === today ? 'today' : key === shiftDay(today, -1) ? 'yesterday' : format(new Date(`${key}T00:00:00`), 'EEE d MMM');
+    return `${day}, ${format(at, 'h:mm a')}`;
+};
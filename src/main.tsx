@@ -3,11 +3,21 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import { AuthProvider } from './contexts/AuthContext.tsx'
+import { UndoProvider } from './contexts/UndoContext.tsx'
+import { SettingsProvider } from './contexts/SettingsContext.tsx'
+import { startDemoMode } from './lib/db'
+
+// `?demo` runs the app against throwaway in-memory storage
+if (new URLSearchParams(window.location.search).has('demo')) startDemoMode()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <AuthProvider>
-      <App />
+      <SettingsProvider>
+        <UndoProvider>
+          <App />
+        </UndoProvider>
+      </SettingsProvider>
     </AuthProvider>
   </StrictMode>,
 )
@@ -1,11 +1,20 @@
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Trash2, ChevronDown, ChevronUp, Edit2 } from 'lucide-react';
+import { Trash2, ChevronDown, ChevronUp, ChevronRight, Edit2, History as HistoryIcon } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { EditMealModal } from '../components/EditMealModal';
-import { ConfirmModal } from '../components/ConfirmModal';
-import { getAllMeals, deleteMeal, getAllWeights, type Meal, type WeightEntry } from '../lib/db';
+import { WeightChart } from '../components/WeightChart';
+import { MealHistoryModal } from '../components/MealHistoryModal';
+import { useUndo } from '../hooks/useUndo';
+import { subscribeMealsInRange, subscribeDailySummaries, subscribeWeightsInRange, subscribeWaterInRange, subscribeActivitiesInRange, deleteMeal, restoreFromTrash, DEFAULT_SETTINGS, type Meal, type WeightEntry, type WaterEntry, type Activity, type DailySummary, type RecordId } from '../lib/db';
 import { useSettings } from '../hooks/useSettings';
-import { format, subDays, isAfter, startOfWeek, startOfMonth } from 'date-fns';
+import { groupBySlot, SLOT_LABELS } from '../lib/slots';
+import { mealTitle } from '../lib/items';
+import { totalWater } from '../lib/water';
+import { burnedByDay } from '../lib/activity';
+import { formatRate, smoothWeights, weightStats, TREND_WARMUP_DAYS } from '../lib/weight-trend';
+import { format, startOfWeek, startOfMonth } from 'date-fns';
+import { recentDays, shiftDay, todayKey } from '../lib/days';
 
 type ViewMode = 'daily' | 'weekly' | 'monthly';
 
@@ -27,126 +36,54 @@ interface SummaryGroup {
     avgCals: number;
 }
 
-const WeightChart = ({ weights }: { weights: WeightEntry[] }) => {
-    if (weights.length === 0) return null;
-    const sorted = [...weights].sort((a, b) => a.timestamp - b.timestamp).slice(-30);
-    const vals = sorted.map(w => w.weight);
-    const min = Math.min(...vals) - 0.5;
-    const max = Math.max(...vals) + 0.5;
-    const range = max - min || 1;
-    const latest = vals[vals.length - 1];
-    const first = vals[0];
-    const diff = latest - first;
-    const diffText = diff === 0 ? 'No change' : `${diff > 0 ? '+' : ''}${diff.toFixed(1)} kg`;
-    const diffColor = diff < 0 ? 'text-emerald-400' : diff > 0 ? 'text-red-400' : 'text-th-muted';
-
-    const chartW = 280;
-    const chartH = 120;
-    const padTop = 20;
-    const padBottom = 25;
-    const innerH = chartH - padTop - padBottom;
-
-    const getX = (i: number) => (sorted.length === 1 ? chartW / 2 : (i / (sorted.length - 1)) * chartW);
-    const getY = (v: number) => padTop + innerH - ((v - min) / range) * innerH;
-
-    const points = vals.map((v, i) => `${getX(i)},${getY(v)}`).join(' ');
-
-    // Y-axis labels
-    const ySteps = 4;
-    const yLabels = Array.from({ length: ySteps + 1 }, (_, i) => min + (range / ySteps) * i);
+const WeightCard = ({ weights, goalWeight, goalDate, today }: { weights: WeightEntry[]; goalWeight: number; goalDate: string; today: string }) => {
+    const navigate = useNavigate();
+    const all = smoothWeights(weights);
+    const stats = weightStats(all, goalWeight, goalDate, today);
+    if (!stats) return null;
+    const from = shiftDay(today, -29);
+    const points = all.filter(p => p.date >= from);
+    const rateColor = stats.rate == null || stats.rate === 0 ? 'text-th-muted'
+        : (goalWeight ? Math.sign(stats.rate) === Math.sign(stats.toGo ?? 0) : stats.rate < 0) ? 'text-emerald-400' : 'text-red-400';
 
     return (
         <div className="bg-surface/60 border border-th-border rounded-2xl p-4 mb-4">
             <div className="flex items-center justify-between mb-3">
                 <h3 className="text-xs font-bold text-th-muted uppercase tracking-widest">Weight Trend</h3>
                 <div className="flex items-center gap-2">
-                    <span className="text-lg font-bold text-th-primary">{latest} kg</span>
-                    <span className={`text-xs font-medium ${diffColor}`}>{diffText}</span>
+                    <span className="text-lg font-bold text-th-primary">{stats.trend} kg</span>
+                    <span className={`text-xs font-medium ${rateColor}`}>{stats.rate == null ? 'Rate: need more days' : formatRate(stats.rate)}</span>
                 </div>
             </div>
-
-            <svg viewBox={`-35 0 ${chartW + 40} ${chartH}`} className="w-full" style={{ height: '140px' }}>
-                {/* Grid lines and Y labels */}
-                {yLabels.map((v, i) => (
-                    <g key={i}>
-                        <line x1="0" x2={chartW} y1={getY(v)} y2={getY(v)} stroke="var(--color-chart-grid)" strokeWidth="0.5" />
-                        <text x="-8" y={getY(v) + 3} textAnchor="end" fill="var(--color-chart-label)" fontSize="8">{v.toFixed(1)}</text>
-                    </g>
-                ))}
-
-                {/* Area fill */}
-                <polygon
-                    points={`0,${chartH - padBottom} ${points} ${chartW},${chartH - padBottom}`}
-                    fill="url(#weightGradient)"
-                />
-                <defs>
-                    <linearGradient id="weightGradient" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="0%" stopColor="#10b981" stopOpacity="0.2" />
-                        <stop offset="100%" stopColor="#10b981" stopOpacity="0" />
-                    </linearGradient>
-                </defs>
-
-                {/* Line */}
-                <polyline points={points} fill="none" stroke="#10b981" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-
-                {/* Data points with labels */}
-                {sorted.map((w, i) => (
-                    <g key={i}>
-                        <circle cx={getX(i)} cy={getY(w.weight)} r="3" fill="#10b981" stroke="var(--color-chart-dot-stroke)" strokeWidth="1.5" />
-                        {(i === 0 || i === sorted.length - 1 || sorted.length <= 7) && (
-                            <text x={getX(i)} y={getY(w.weight) - 8} textAnchor="middle" fill="var(--color-chart-label)" fontSize="7" fontWeight="600">
-                                {w.weight}
-                            </text>
-                        )}
-                    </g>
-                ))}
-
-                {/* X-axis date labels */}
-                {sorted.length > 1 && (
-                    <>
-                        <text x={0} y={chartH - 5} textAnchor="start" fill="var(--color-chart-axis)" fontSize="7">
-                            {format(sorted[0].timestamp, 'MMM d')}
-                        </text>
-                        <text x={chartW} y={chartH - 5} textAnchor="end" fill="var(--color-chart-axis)" fontSize="7">
-                            {format(sorted[sorted.length - 1].timestamp, 'MMM d')}
-                        </text>
-                    </>
-                )}
-            </svg>
-
-            {/* Weight log entries */}
-            {sorted.length <= 10 && (
-                <div className="mt-3 border-t border-th-border pt-3 space-y-1.5">
-                    {[...sorted].reverse().map((w, i) => (
-                        <div key={i} className="flex justify-between text-xs text-th-secondary">
-                            <span>{format(w.timestamp, 'EEE, MMM d')}</span>
-                            <span className="font-medium text-th-primary">{w.weight} kg</span>
-                        </div>
-                    ))}
-                </div>
-            )}
+            {points.length > 0
+                ? <WeightChart points={points} goalWeight={goalWeight} />
+                : <p className="text-xs text-th-faint py-4 text-center">No weigh-ins in the last 30 days.</p>}
+            <button
+                onClick={() => navigate('/history/weight')}
+                className="w-full mt-2 flex items-center justify-between text-xs text-th-secondary active:text-th-primary"
+            >
+                <span>
+                    {stats.projected ? `Goal ${goalWeight} kg by ${format(new Date(`${stats.projected}T00:00:00`), 'MMM d, yyyy')} at this rate` : 'Goal, ranges and all weigh-ins'}
+                </span>
+                <ChevronRight className="w-4 h-4" />
+            </button>
         </div>
     );
 };
 
-const CalorieChart = ({ groupedMeals, goalCals }: { groupedMeals: Record<string, DayGroup>; goalCals: number }) => {
-    const today = format(new Date(), 'yyyy-MM-dd');
+const CalorieChart = ({ dayTotals, goalCals, dayStartHour, net }: { dayTotals: Record<string, DailySummary>; goalCals: number; dayStartHour: number; net: boolean }) => {
     const chartW = 280, chartH = 100, padBottom = 22;
     const innerH = chartH - padBottom;
     const maxCals = goalCals * 1.3;
     const barSlot = chartW / 7;
     const barW = barSlot * 0.55;
 
-    const days = Array.from({ length: 7 }, (_, i) => {
-        const d = subDays(new Date(), 6 - i);
-        const date = format(d, 'yyyy-MM-dd');
-        return {
-            date,
-            label: i === 6 ? 'Today' : format(d, 'EEE'),
-            cals: groupedMeals[date]?.totalCals ?? 0,
-            isToday: date === today,
-        };
-    });
+    const days = recentDays(7, { dayStartHour }).reverse().map((date, i) => ({
+        date,
+        label: i === 6 ? 'Today' : format(new Date(date + 'T00:00:00'), 'EEE'),
+        cals: dayTotals[date]?.calories ?? 0,
+        isToday: i === 6,
+    }));
 
     const getBarH = (cals: number) => cals === 0 ? 0 : Math.max(3, (Math.min(cals, maxCals) / maxCals) * innerH);
     const goalY = innerH - (goalCals / maxCals) * innerH;
@@ -154,7 +91,7 @@ const CalorieChart = ({ groupedMeals, goalCals }: { groupedMeals: Record<string,
     return (
         <div className="bg-surface/60 border border-th-border rounded-2xl p-4 mb-3">
             <div className="flex items-center justify-between mb-3">
-                <h3 className="text-xs font-bold text-th-muted uppercase tracking-widest">7-Day Calories</h3>
+                <h3 className="text-xs font-bold text-th-muted uppercase tracking-widest">{net ? '7-Day Net Calories' : '7-Day Calories'}</h3>
                 <span className="text-xs text-th-faint">Goal: {goalCals} kcal</span>
             </div>
             <svg viewBox={`0 0 ${chartW} ${chartH}`} className="w-full" style={{ height: '110px' }}>
@@ -198,86 +135,160 @@ const CalorieChart = ({ groupedMeals, goalCals }: { groupedMeals: Record<string,
     );
 };
 
-export const History = () => {
-    const [viewMode, setViewMode] = useState<ViewMode>('daily');
-    const [groupedMeals, setGroupedMeals] = useState<Record<string, DayGroup>>({});
-    const [summaries, setSummaries] = useState<SummaryGroup[]>([]);
-    const [expandedDays, setExpandedDays] = useState<Record<string, boolean>>({});
-    const [weights, setWeights] = useState<WeightEntry[]>([]);
-    const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
-    const [deletingId, setDeletingId] = useState<number | null>(null);
-    const { settings } = useSettings();
-
-    const loadData = async () => {
-        const [allMeals, allWeights] = await Promise.all([getAllMeals(), getAllWeights()]);
-        const thirtyDaysAgo = subDays(new Date(), 30);
+const WaterChart = ({ water, goalMl, dayStartHour }: { water: WaterEntry[]; goalMl: number; dayStartHour: number }) => {
+    const chartW = 280, chartH = 100, padBottom = 22;
+    const innerH = chartH - padBottom;
+    const barSlot = chartW / 7;
+    const barW = barSlot * 0.55;
 
-        const recent = allMeals
-            .filter(m => isAfter(new Date(m.date), thirtyDaysAgo))
-            .sort((a, b) => b.timestamp - a.timestamp);
+    const days = recentDays(7, { dayStartHour }).reverse().map((date, i) => ({
+        date,
+        label: i === 6 ? 'Today' : format(new Date(date + 'T00:00:00'), 'EEE'),
+        ml: totalWater(water.filter(w => w.date === date)),
+        isToday: i === 6,
+    }));
+    const maxMl = Math.max(goalMl, ...days.map(d => d.ml)) * 1.3 || 1;
+    const average = Math.round(days.reduce((n, d) => n + d.ml, 0) / days.length);
 
-        // Daily groups
-        const groups: Record<string, DayGroup> = {};
-        recent.forEach(meal => {
-            if (!groups[meal.date]) groups[meal.date] = { meals: [], totalCals: 0, totalProtein: 0, totalCarbs: 0, totalFiber: 0 };
-            groups[meal.date].meals.push(meal);
-            groups[meal.date].totalCals += meal.totalCalories || 0;
-            groups[meal.date].totalProtein += meal.parsed?.[0]?.protein || 0;
-            groups[meal.date].totalCarbs += meal.parsed?.[0]?.carbs || 0;
-            groups[meal.date].totalFiber += meal.parsed?.[0]?.fiber || 0;
-        });
-        setGroupedMeals(groups);
+    const getBarH = (ml: number) => ml === 0 ? 0 : Math.max(3, (Math.min(ml, maxMl) / maxMl) * innerH);
+    const goalY = innerH - (goalMl / maxMl) * innerH;
 
-        // Summaries for weekly/monthly
-        const summaryMap: Record<string, { label: string; days: Set<string>; cals: number; pro: number; carbs: number; fiber: number }> = {};
-        recent.forEach(meal => {
-            const d = new Date(meal.date + 'T00:00:00');
-            const key = viewMode === 'weekly'
-                ? format(startOfWeek(d, { weekStartsOn: 1 }), 'yyyy-MM-dd')
-                : format(startOfMonth(d), 'yyyy-MM');
-            if (!summaryMap[key]) {
-                summaryMap[key] = {
-                    label: viewMode === 'weekly'
-                        ? `Week of ${format(startOfWeek(d, { weekStartsOn: 1 }), 'MMM d')}`
-                        : format(d, 'MMMM yyyy'),
-                    days: new Set(),
-                    cals: 0, pro: 0, carbs: 0, fiber: 0,
-                };
-            }
-            summaryMap[key].days.add(meal.date);
-            summaryMap[key].cals += meal.totalCalories || 0;
-            summaryMap[key].pro += meal.parsed?.[0]?.protein || 0;
-            summaryMap[key].carbs += meal.parsed?.[0]?.carbs || 0;
-            summaryMap[key].fiber += meal.parsed?.[0]?.fiber || 0;
-        });
-        setSummaries(Object.values(summaryMap).map(s => ({
-            label: s.label,
-            days: s.days.size,
-            totalCals: s.cals,
-            totalProtein: s.pro,
-            totalCarbs: s.carbs,
-            totalFiber: s.fiber,
-            avgCals: s.days.size > 0 ? Math.round(s.cals / s.days.size) : 0,
-        })));
+    return (
+        <div className="bg-surface/60 border border-th-border rounded-2xl p-4 mb-3">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-xs font-bold text-th-muted uppercase tracking-widest">7-Day Water</h3>
+                <span className="text-xs text-th-faint">Avg {average} ml · Goal {goalMl} ml</span>
+            </div>
+            <svg viewBox={`0 0 ${chartW} ${chartH}`} className="w-full" style={{ height: '110px' }}>
+                {goalMl > 0 && (
+                    <line x1={0} x2={chartW} y1={goalY} y2={goalY}
+                        stroke="#60a5fa" strokeWidth="1" strokeDasharray="4 3" opacity="0.5" />
+                )}
+                {days.map((day, i) => {
+                    const bh = getBarH(day.ml);
+                    const bx = i * barSlot + (barSlot - barW) / 2;
+                    const by = innerH - bh;
+                    return (
+                        <g key={day.date}>
+                            <rect x={bx} y={bh === 0 ? innerH - 2 : by} width={barW} height={bh === 0 ? 2 : bh}
+                                fill={day.ml === 0 ? 'var(--color-chart-grid)' : '#60a5fa'} opacity={day.isToday ? 1 : 0.7} rx="2" />
+                            {bh > 14 && (
+                                <text x={bx + barW / 2} y={by - 3} textAnchor="middle"
+                                    fill="var(--color-chart-label)" fontSize="7" fontWeight="600">
+                                    {day.ml}
+                                </text>
+                            )}
+                            <text x={bx + barW / 2} y={chartH - 4} textAnchor="middle"
+                                fill={day.isToday ? '#60a5fa' : 'var(--color-chart-axis)'} fontSize="7"
+                                fontWeight={day.isToday ? '700' : '400'}>
+                                {day.label}
+                            </text>
+                        </g>
+                    );
+                })}
+            </svg>
+        </div>
+    );
+};
 
-        setWeights(allWeights.sort((a: WeightEntry, b: WeightEntry) => a.timestamp - b.timestamp));
+// Daily groups — meals listed under their day, totals from dailySummaries
+const groupByDay = (meals: Meal[], totals: Record<string, DailySummary>): Record<string, DayGroup> => {
+    const groups: Record<string, DayGroup> = {};
+    [...meals].sort((a, b) => b.timestamp - a.timestamp).forEach(meal => {
+        if (!groups[meal.date]) {
+            const t = totals[meal.date];
+            groups[meal.date] = {
+                meals: [],
+                totalCals: t?.calories ?? 0,
+                totalProtein: t?.protein ?? 0,
+                totalCarbs: t?.carbs ?? 0,
+                totalFiber: t?.fiber ?? 0,
+            };
+        }
+        groups[meal.date].meals.push(meal);
+    });
+    return groups;
+};
 
-        const today = format(new Date(), 'yyyy-MM-dd');
-        setExpandedDays(prev => ({ ...prev, [today]: true }));
-    };
+// Summaries for weekly/monthly
+const summarize = (days: DailySummary[], viewMode: ViewMode): SummaryGroup[] => {
+    const summaryMap: Record<string, { label: string; days: Set<string>; cals: number; pro: number; carbs: number; fiber: number }> = {};
+    [...days].sort((a, b) => b.date.localeCompare(a.date)).forEach(day => {
+        const d = new Date(day.date + 'T00:00:00');
+        const key = viewMode === 'weekly'
+            ? format(startOfWeek(d, { weekStartsOn: 1 }), 'yyyy-MM-dd')
+            : format(startOfMonth(d), 'yyyy-MM');
+        if (!summaryMap[key]) {
+            summaryMap[key] = {
+                label: viewMode === 'weekly'
+                    ? `Week of ${format(startOfWeek(d, { weekStartsOn: 1 }), 'MMM d')}`
+                    : format(d, 'MMMM yyyy'),
+                days: new Set(),
+                cals: 0, pro: 0, carbs: 0, fiber: 0,
+            };
+        }
+        summaryMap[key].days.add(day.date);
+        summaryMap[key].cals += day.calories;
+        summaryMap[key].pro += day.protein;
+        summaryMap[key].carbs += day.carbs;
+        summaryMap[key].fiber += day.fiber;
+    });
+    return Object.values(summaryMap).map(s => ({
+        label: s.label,
+        days: s.days.size,
+        totalCals: s.cals,
+        totalProtein: s.pro,
+        totalCarbs: s.carbs,
+        totalFiber: s.fiber,
+        avgCals: s.days.size > 0 ? Math.round(s.cals / s.days.size) : 0,
+    }));
+};
 
-    useEffect(() => { loadData(); }, [viewMode]);
+export const History = () => {
+    const { settings } = useSettings();
+    const dayStartHour = settings?.dayStartHour ?? DEFAULT_SETTINGS.dayStartHour;
+    const today = todayKey({ dayStartHour });
+    const [viewMode, setViewMode] = useState<ViewMode>('daily');
+    const [meals, setMeals] = useState<Meal[]>([]);
+    const [days, setDays] = useState<DailySummary[]>([]);
+    const [weights, setWeights] = useState<WeightEntry[]>([]);
+    const [water, setWater] = useState<WaterEntry[]>([]);
+    const [activities, setActivities] = useState<Activity[]>([]);
+    const [expandedDays, setExpandedDays] = useState<Record<string, boolean>>(() => ({ [today]: true }));
+    const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
+    const [historyMeal, setHistoryMeal] = useState<Meal | null>(null);
+    const { showUndo } = useUndo();
+
+    // Live: edits, deletes and synced changes show up without reloading
+    useEffect(() => {
+        const today = todayKey({ dayStartHour });
+        const from = shiftDay(today, -29);
+        const stops = [
+            subscribeMealsInRange(from, today, setMeals),
+            subscribeDailySummaries(from, today, setDays),
+            // The weight card plots the same 30 days; the extra ones let the trend settle first
+            subscribeWeightsInRange(shiftDay(from, -TREND_WARMUP_DAYS), today, setWeights),
+            subscribeWaterInRange(shiftDay(today, -6), today, setWater),
+            subscribeActivitiesInRange(from, today, setActivities),
+        ];
+        return () => stops.forEach(stop => stop());
+    }, [dayStartHour]);
+
+    const netMode = settings?.netCalories ?? false;
+    const burned = burnedByDay(activities);
+    // In net mode every calorie total here is intake minus what was burned that day
+    const counted = netMode ? days.map(s => ({ ...s, calories: s.calories - (burned[s.date] ?? 0) })) : days;
+    const dayTotals = Object.fromEntries(counted.map(s => [s.date, s]));
+    const groupedMeals = groupByDay(meals, dayTotals);
+    const summaries = summarize(counted, viewMode);
+    const slotStarts = settings?.slotStarts ?? DEFAULT_SETTINGS.slotStarts;
+    const slotCalories = settings?.slotCalories ?? DEFAULT_SETTINGS.slotCalories;
 
     const toggleDay = (date: string) => setExpandedDays(prev => ({ ...prev, [date]: !prev[date] }));
 
-    const handleDelete = async () => {
-        if (deletingId == null) return;
-        try {
-            await deleteMeal(deletingId);
-        } finally {
-            setDeletingId(null);
-            loadData();
-        }
+    const handleDelete = async (id: RecordId) => {
+        await deleteMeal(id);
+        showUndo('Meal moved to Trash', () => restoreFromTrash('meals', id));
     };
 
     return (
@@ -305,8 +316,9 @@ export const History = () => {
             <div className="overflow-y-auto flex-1 space-y-3">
                 {viewMode === 'daily' && (
                     <>
-                        <CalorieChart groupedMeals={groupedMeals} goalCals={settings?.dailyCalories || 2000} />
-                        <WeightChart weights={weights} />
+                        <CalorieChart dayTotals={dayTotals} goalCals={settings?.dailyCalories || 2000} dayStartHour={dayStartHour} net={netMode} />
+                        <WaterChart water={water} goalMl={settings?.dailyWater ?? DEFAULT_SETTINGS.dailyWater} dayStartHour={dayStartHour} />
+                        <WeightCard weights={weights} goalWeight={settings?.goalWeight ?? 0} goalDate={settings?.goalDate ?? ''} today={today} />
                     </>
                 )}
                 {viewMode === 'daily' ? (
@@ -317,7 +329,7 @@ export const History = () => {
                         <AnimatePresence>
                             {Object.entries(groupedMeals).map(([date, data]) => {
                                 const isExpanded = !!expandedDays[date];
-                                const isToday = date === format(new Date(), 'yyyy-MM-dd');
+                                const isToday = date === today;
                                 return (
                                     <motion.div key={date} initial={{ opacity: 0, y: 8 }} animate={{ opacity: 1, y: 0 }}
                                         className="bg-surface/60 border border-th-border rounded-2xl overflow-hidden">
@@ -328,7 +340,8 @@ export const History = () => {
                                                     {isToday ? 'Today' : format(new Date(date + 'T00:00:00'), 'EEE, MMM d')}
                                                 </span>
                                                 <div className="flex gap-3 text-xs text-th-muted">
-                                                    <span>{data.totalCals} kcal</span>
+                                                    <span>{data.totalCals} kcal{netMode && ' net'}</span>
+                                                    {!!burned[date] && <span className="text-orange-400">{burned[date]} burned</span>}
                                                     <span>{data.totalProtein}g P</span>
                                                     <span>{data.totalCarbs}g C</span>
                                                     <span>{data.totalFiber}g F</span>
@@ -340,20 +353,37 @@ export const History = () => {
                                             {isExpanded && (
                                                 <motion.div initial={{ height: 0 }} animate={{ height: 'auto' }} exit={{ height: 0 }} className="overflow-hidden">
                                                     <div className="border-t border-th-border divide-y divide-th-border">
-                                                        {data.meals.map(meal => (
-                                                            <div key={meal.id} className="px-4 py-3 flex items-center gap-3">
-                                                                <div className="flex-1 min-w-0">
-                                                                    <p className="text-th-primary text-sm font-medium truncate">{meal.parsed?.[0]?.food || meal.content}</p>
-                                                                    <p className="text-xs text-th-muted">{format(meal.timestamp, 'h:mm a')}</p>
+                                                        {/* Days are newest first, but meals within a day run in order */}
+                                                        {groupBySlot([...data.meals].reverse(), slotStarts).map(({ slot, meals: slotMeals, calories }) => (
+                                                            <Fragment key={slot}>
+                                                                <div className="px-4 pt-2.5 pb-1.5 flex justify-between text-xs bg-surface2/30">
+                                                                    <span className="font-semibold text-th-secondary">{SLOT_LABELS[slot]}</span>
+                                                                    <span className="text-th-muted">
+                                                                        {calories} kcal
+                                                                        {slotCalories[slot] > 0 && <span className="text-th-faint"> / {slotCalories[slot]}</span>}
+                                                                    </span>
                                                                 </div>
-                                                                <span className="text-emerald-400 font-bold text-sm shrink-0">{meal.totalCalories} <span className="text-th-faint font-normal">kcal</span></span>
-                                                                <button onClick={() => setEditingMeal(meal)} className="p-1.5 text-th-faint active:text-blue-400 shrink-0">
-                                                                    <Edit2 className="w-3.5 h-3.5" />
-                                                                </button>
-                                                                <button onClick={() => meal.id && setDeletingId(meal.id)} className="p-1.5 text-th-faint active:text-red-400 shrink-0">
-                                                                    <Trash2 className="w-3.5 h-3.5" />
-                                                                </button>
-                                                            </div>
+                                                                {slotMeals.map(meal => (
+                                                                    <div key={meal.id} className="px-4 py-3 flex items-center gap-3">
+                                                                        <div className="flex-1 min-w-0">
+                                                                            <p className="text-th-primary text-sm font-medium truncate">{mealTitle(meal)}</p>
+                                                                            <p className="text-xs text-th-muted">{format(meal.timestamp, 'h:mm a')}</p>
+                                                                        </div>
+                                                                        <span className="text-emerald-400 font-bold text-sm shrink-0">{meal.totalCalories} <span className="text-th-faint font-normal">kcal</span></span>
+                                                                        <button onClick={() => setEditingMeal(meal)} className="p-1.5 text-th-faint active:text-blue-400 shrink-0">
+                                                                            <Edit2 className="w-3.5 h-3.5" />
+                                                                        </button>
+                                                                        {!!meal.revisions?.length && (
+                                                                            <button onClick={() => setHistoryMeal(meal)} className="p-1.5 text-th-faint active:text-emerald-400 shrink-0">
+                                                                                <HistoryIcon className="w-3.5 h-3.5" />
+                                                                            </button>
+                                                                        )}
+                                                                        <button onClick={() => meal.id && handleDelete(meal.id)} className="p-1.5 text-th-faint active:text-red-400 shrink-0">
+                                                                            <Trash2 className="w-3.5 h-3.5" />
+                                                                        </button>
+                                                                    </div>
+                                                                ))}
+                                                            </Fragment>
                                                         ))}
                                                     </div>
                                                 </motion.div>
@@ -375,7 +405,7 @@ export const History = () => {
                                 <h3 className="text-sm font-semibold text-th-primary mb-2">{s.label}</h3>
                                 <div className="grid grid-cols-2 gap-3 text-sm">
                                     <div>
-                                        <p className="text-xs text-th-muted">Total Calories</p>
+                                        <p className="text-xs text-th-muted">{netMode ? 'Net Calories' : 'Total Calories'}</p>
                                         <p className="font-bold text-emerald-400">{s.totalCals.toLocaleString()} kcal</p>
                                     </div>
                                     <div>
@@ -409,16 +439,12 @@ export const History = () => {
             <EditMealModal
                 meal={editingMeal}
                 onClose={() => setEditingMeal(null)}
-                onSaved={loadData}
             />
 
-            {deletingId != null && (
-                <ConfirmModal
-                    message="Delete this meal?"
-                    onConfirm={handleDelete}
-                    onCancel={() => setDeletingId(null)}
-                />
-            )}
+            <MealHistoryModal
+                meal={historyMeal}
+                onClose={() => setHistoryMeal(null)}
+            />
         </motion.div>
     );
 };
@@ -1,19 +1,27 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useMeals } from '../hooks/useMeals';
+import { useWater } from '../hooks/useWater';
+import { useActivities } from '../hooks/useActivities';
 import { useSettings } from '../hooks/useSettings';
 import { EmeraldGlowProgressRing } from '../components/EmeraldGlowProgressRing';
-import { deleteMeal, type Meal } from '../lib/db';
-import { Trash2, Edit2 } from 'lucide-react';
+import { addWater, deleteActivity, deleteMeal, deleteWater, restoreFromTrash, updateMeal, DEFAULT_SETTINGS, type Activity, type Meal, type RecordId } from '../lib/db';
+import { itemTotals, mealTitle, withItems } from '../lib/items';
+import { withRevision } from '../lib/revisions';
+import { groupBySlot, SLOT_LABELS } from '../lib/slots';
+import { NUTRIENTS } from '../lib/nutrients';
+import { dayKey } from '../lib/days';
+import { Trash2, Edit2, History as HistoryIcon, X, Droplets, Plus, Flame } from 'lucide-react';
 import { EditMealModal } from '../components/EditMealModal';
-import { ConfirmModal } from '../components/ConfirmModal';
+import { MealHistoryModal } from '../components/MealHistoryModal';
+import { useUndo } from '../hooks/useUndo';
 import { format } from 'date-fns';
 import clsx from 'clsx';
 
 interface MacroBarProps { label: string; value: number; goal: number; color: string; unit?: string }
 
 const MacroBar = ({ label, value, goal, color, unit = 'g' }: MacroBarProps) => {
-    const pct = goal > 0 ? Math.min((value / goal) * 100, 100) : 0;
+    const pct = goal > 0 ? Math.max(0, Math.min((value / goal) * 100, 100)) : 0;
     return (
         <div className="flex flex-col gap-1">
             <div className="flex justify-between text-xs text-th-secondary">
@@ -28,22 +36,53 @@ const MacroBar = ({ label, value, goal, color, unit = 'g' }: MacroBarProps) => {
 };
 
 export const Home = () => {
-    const { meals, stats, refreshMeals } = useMeals();
+    const { meals, stats } = useMeals();
+    const water = useWater();
+    const activities = useActivities();
     const { settings } = useSettings();
     const [editingMeal, setEditingMeal] = useState<Meal | null>(null);
-    const [deletingId, setDeletingId] = useState<number | null>(null);
+    const [historyMeal, setHistoryMeal] = useState<Meal | null>(null);
+    const { showUndo } = useUndo();
 
     const GOAL_CALS = settings?.dailyCalories || 2000;
-    const progressPercent = Math.min((stats.calories / GOAL_CALS) * 100, 100);
-    const isOverLimit = stats.calories > GOAL_CALS;
+    // In net mode, exercise earns back calories against the goal
+    const netMode = settings?.netCalories ?? false;
+    const calories = netMode ? stats.calories - activities.burned : stats.calories;
+    const progressPercent = Math.max(0, Math.min((calories / GOAL_CALS) * 100, 100));
+    const isOverLimit = calories > GOAL_CALS;
     const isWarning = !isOverLimit && progressPercent > 75;
     const ringColor = isOverLimit ? '#ef4444' : isWarning ? '#f59e0b' : '#10b981';
 
-    const handleDelete = async () => {
-        if (deletingId == null) return;
-        await deleteMeal(deletingId);
-        setDeletingId(null);
-        refreshMeals();
+    const slotCalories = settings?.slotCalories ?? DEFAULT_SETTINGS.slotCalories;
+    const nutrientTargets = settings?.nutrientTargets ?? DEFAULT_SETTINGS.nutrientTargets;
+    const tracked = NUTRIENTS.filter(n => nutrientTargets[n.key] > 0);
+    const waterGoal = settings?.dailyWater ?? DEFAULT_SETTINGS.dailyWater;
+    const glass = settings?.unitGlass || DEFAULT_SETTINGS.unitGlass;
+    const slots = groupBySlot(
+        [...meals].sort((a, b) => a.timestamp - b.timestamp),
+        settings?.slotStarts ?? DEFAULT_SETTINGS.slotStarts,
+    );
+
+    const handleDelete = async (id: RecordId) => {
+        await deleteMeal(id);
+        showUndo('Meal moved to Trash', () => restoreFromTrash('meals', id));
+    };
+
+    const handleRemoveItem = async (meal: Meal, index: number) => {
+        const items = meal.parsed.filter((_, i) => i !== index);
+        await updateMeal(withRevision(meal, { content: meal.content, ...withItems(items) }, 'manual-edit'));
+        showUndo(`Removed ${meal.parsed[index].food}`, () => updateMeal(meal));
+    };
+
+    const handleDeleteActivity = async (activity: Activity) => {
+        await deleteActivity(activity.id!);
+        showUndo(`${activity.name} moved to Trash`, () => restoreFromTrash('activities', activity.id!));
+    };
+
+    const handleAddGlass = async () => {
+        const now = Date.now();
+        const id = await addWater({ date: dayKey(now, { dayStartHour: settings?.dayStartHour }), timestamp: now, ml: glass });
+        showUndo(`${glass} ml water logged`, () => deleteWater(id));
     };
 
     return (
@@ -62,7 +101,7 @@ export const Home = () => {
                     centerContent={
                         <div className="flex flex-col items-center">
                             <span className="text-3xl font-bold text-th-primary">{`${Math.round(progressPercent)}%`}</span>
-                            <span className="text-xs text-th-muted">of goal</span>
+                            <span className="text-xs text-th-muted">{netMode ? 'of goal, net' : 'of goal'}</span>
                         </div>
                     }
                 />
@@ -70,42 +109,118 @@ export const Home = () => {
 
             {/* Macro Bars */}
             <div className="bg-surface/60 border border-th-border rounded-2xl p-4 flex flex-col gap-3 mb-4">
-                <MacroBar label="Calories" value={stats.calories} goal={GOAL_CALS} color="bg-emerald-500" unit=" kcal" />
+                <MacroBar label={netMode ? 'Net calories' : 'Calories'} value={calories} goal={GOAL_CALS} color="bg-emerald-500" unit=" kcal" />
                 <MacroBar label="Protein" value={stats.protein} goal={settings?.dailyProtein || 120} color="bg-blue-400" />
                 <MacroBar label="Fat" value={stats.fat} goal={settings?.dailyFat || 65} color="bg-orange-400" />
                 <MacroBar label="Carbs" value={stats.carbs} goal={settings?.dailyCarbs || 250} color="bg-amber-400" />
                 <MacroBar label="Fiber" value={stats.fiber} goal={settings?.dailyFiber || 30} color="bg-emerald-400" />
+                {tracked.map(n => {
+                    const value = stats.nutrients[n.key] ?? 0;
+                    const goal = nutrientTargets[n.key];
+                    const color = n.kind === 'goal' ? 'bg-sky-400' : value > goal ? 'bg-red-500' : 'bg-violet-400';
+                    return <MacroBar key={n.key} label={n.label} value={value} goal={goal} color={color} unit={n.unit} />;
+                })}
             </div>
 
+            {/* Hydration */}
+            <div className="bg-surface/60 border border-th-border rounded-2xl px-4 py-3 flex items-center gap-3 mb-4">
+                <Droplets className="w-5 h-5 text-blue-400 shrink-0" />
+                <div className="flex-1">
+                    <MacroBar label="Water" value={water.total} goal={waterGoal} color="bg-blue-400" unit=" ml" />
+                </div>
+                <button
+                    onClick={handleAddGlass}
+                    className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-blue-500/15 border border-blue-500/25 text-xs font-medium text-blue-300 active:scale-95 transition-transform"
+                >
+                    <Plus className="w-3 h-3" /> Glass
+                </button>
+            </div>
+
+            {/* Activity */}
+            {activities.entries.length > 0 && (
+                <div className="bg-surface/60 border border-th-border rounded-2xl px-4 py-3 flex flex-col gap-2 mb-4">
+                    <div className="flex items-center gap-2 text-xs text-th-secondary">
+                        <Flame className="w-4 h-4 text-orange-400" />
+                        <span className="font-medium flex-1">Activity</span>
+                        <span>
+                            {activities.burned} kcal burned
+                            {netMode && <span className="text-th-faint"> · {stats.calories} eaten</span>}
+                        </span>
+                    </div>
+                    {[...activities.entries].sort((a, b) => a.timestamp - b.timestamp).map(activity => (
+                        <div key={activity.id} className="flex items-center gap-2 text-xs">
+                            <span className="flex-1 truncate text-th-primary">{activity.name}</span>
+                            {activity.minutes > 0 && <span className="text-th-faint">{activity.minutes} min</span>}
+                            <span className="text-orange-400 font-medium">{activity.calories} kcal</span>
+                            <button onClick={() => handleDeleteActivity(activity)} className="p-1 text-th-faint active:text-red-400">
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Today's Meals */}
             <div className="flex flex-col gap-2">
                 <h2 className="text-xs font-bold text-th-muted uppercase tracking-widest px-1">Today's meals</h2>
                 {meals.length === 0 ? (
                     <div className="text-center text-th-faint text-sm py-6">Nothing logged yet today.</div>
                 ) : (
-                    [...meals].reverse().map((meal: Meal) => (
-                        <div key={meal.id} className="bg-surface/60 border border-th-border rounded-xl px-4 py-3 flex justify-between items-center gap-3">
-                            <div className="flex-1 min-w-0">
-                                <p className="text-th-primary text-sm font-medium truncate">{meal.parsed?.[0]?.food || meal.content}</p>
-                                <p className="text-xs text-th-muted">
-                                    {format(meal.timestamp, 'h:mm a')}
-                                    {meal.parsed?.[0] && (
-                                        <span className="ml-2 text-th-faint">
-                                            {meal.parsed[0].protein}g P · {meal.parsed[0].carbs}g C · {meal.parsed[0].fiber}g F
-                                        </span>
-                                    )}
-                                </p>
-                            </div>
-                            <div className="flex items-center gap-1 shrink-0">
-                                <span className="text-emerald-400 font-bold text-sm">{meal.totalCalories}</span>
-                                <span className="text-th-faint text-xs">kcal</span>
-                                <button onClick={() => setEditingMeal(meal)} className="ml-1 p-1.5 text-th-faint active:text-blue-400">
-                                    <Edit2 className="w-3.5 h-3.5" />
-                                </button>
-                                <button onClick={() => meal.id && setDeletingId(meal.id)} className="p-1.5 text-th-faint active:text-red-400">
-                                    <Trash2 className="w-3.5 h-3.5" />
-                                </button>
+                    slots.map(({ slot, meals: slotMeals, calories }) => (
+                        <div key={slot} className="flex flex-col gap-2">
+                            <div className="flex justify-between items-baseline px-1 pt-1">
+                                <h3 className="text-xs font-semibold text-th-secondary">{SLOT_LABELS[slot]}</h3>
+                                <span className={clsx('text-xs', slotCalories[slot] > 0 && calories > slotCalories[slot] ? 'text-red-400' : 'text-th-muted')}>
+                                    {calories} kcal
+                                    {slotCalories[slot] > 0 && <span className="text-th-faint"> / {slotCalories[slot]}</span>}
+                                </span>
                             </div>
+                            {slotMeals.map((meal: Meal) => {
+                                const totals = itemTotals(meal.parsed);
+                                return (
+                                    <div key={meal.id} className="bg-surface/60 border border-th-border rounded-xl px-4 py-3 flex justify-between items-start gap-3">
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-th-primary text-sm font-medium truncate">{mealTitle(meal)}</p>
+                                            <p className="text-xs text-th-muted">
+                                                {format(meal.timestamp, 'h:mm a')}
+                                                {!!meal.parsed?.length && (
+                                                    <span className="ml-2 text-th-faint">
+                                                        {totals.protein}g P · {totals.carbs}g C · {totals.fiber}g F
+                                                    </span>
+                                                )}
+                                            </p>
+                                            {meal.parsed?.length > 1 && (
+                                                <ul className="mt-1.5 space-y-0.5">
+                                                    {meal.parsed.map((item, i) => (
+                                                        <li key={i} className="flex items-center gap-2 text-xs text-th-secondary">
+                                                            <span className="flex-1 truncate">{item.food}</span>
+                                                            <span className="text-th-muted">{item.calories} kcal</span>
+                                                            <button onClick={() => handleRemoveItem(meal, i)} className="p-0.5 text-th-faint active:text-red-400">
+                                                                <X className="w-3 h-3" />
+                                                            </button>
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            <span className="text-emerald-400 font-bold text-sm">{meal.totalCalories}</span>
+                                            <span className="text-th-faint text-xs">kcal</span>
+                                            <button onClick={() => setEditingMeal(meal)} className="ml-1 p-1.5 text-th-faint active:text-blue-400">
+                                                <Edit2 className="w-3.5 h-3.5" />
+                                            </button>
+                                            {!!meal.revisions?.length && (
+                                                <button onClick={() => setHistoryMeal(meal)} className="p-1.5 text-th-faint active:text-emerald-400">
+                                                    <HistoryIcon className="w-3.5 h-3.5" />
+                                                </button>
+                                            )}
+                                            <button onClick={() => meal.id && handleDelete(meal.id)} className="p-1.5 text-th-faint active:text-red-400">
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    </div>
+                                );
+                            })}
                         </div>
                     ))
                 )}
@@ -114,16 +229,12 @@ export const Home = () => {
             <EditMealModal
                 meal={editingMeal}
                 onClose={() => setEditingMeal(null)}
-                onSaved={refreshMeals}
             />
 
-            {deletingId != null && (
-                <ConfirmModal
-                    message="Delete this meal?"
-                    onConfirm={handleDelete}
-                    onCancel={() => setDeletingId(null)}
-                />
-            )}
+            <MealHistoryModal
+                meal={historyMeal}
+                onClose={() => setHistoryMeal(null)}
+            />
         </motion.div>
     );
 };
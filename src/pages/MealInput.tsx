@@ -1,12 +1,21 @@
 import { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Mic, Send, Sparkles, CheckCircle, AlertCircle, Star, ChefHat, Camera, ExternalLink, ChevronDown, ChevronUp, Edit2, Eraser, Barcode, Menu, Plus, Droplets } from 'lucide-react';
+import { Mic, Send, Sparkles, CheckCircle, AlertCircle, Star, ChefHat, Camera, ExternalLink, ChevronDown, ChevronUp, Edit2, Eraser, Barcode, Menu, Plus, Droplets, CalendarClock, X } from 'lucide-react';
 import { processInput, processLabelImage } from '../lib/ai-parser';
+import type { ParsedActivity } from '../lib/activity';
 import { BarcodeScanner } from '../components/BarcodeScanner';
 import { fetchByBarcode, type OFFProduct } from '../lib/openfoodfacts';
 import { useMeals } from '../hooks/useMeals';
 import { useSettings } from '../hooks/useSettings';
-import { addFavourite, addWeight, getAllFavourites, getAllRecipes, saveSetting, updateMeal, type Favourite } from '../lib/db';
+import { useVault } from '../hooks/useVault';
+import { setApiKey } from '../lib/secrets';
+import { addActivity, addFavourite, addWater, addWeight, getAllFavourites, getAllRecipes, getMealsByDate, saveSetting, updateMeal, DEFAULT_SETTINGS, type Favourite, type MealItem, type RecordId } from '../lib/db';
+import { itemTotals, withItems } from '../lib/items';
+import { scaleNutrients, withNutrients } from '../lib/nutrients';
+import { legacyId } from '../lib/ids';
+import { describeWhen } from '../lib/when';
+import { dayKey, todayKey } from '../lib/days';
+import { withRevision } from '../lib/revisions';
 import { FavouritesPanel } from '../components/FavouritesPanel';
 import { RecipesPanel } from '../components/RecipesPanel';
 import { format } from 'date-fns';
@@ -19,30 +28,48 @@ interface ChatMessage {
     role: 'user' | 'assistant';
     text: string;
     type?: 'meal' | 'chat' | 'error' | 'weight' | 'favourite_saved' | 'barcode_found';
-    mealData?: { food: string; calories: number; protein: number; fat: number; carbs: number; fiber: number };
-    mealId?: number;
+    mealData?: MealItem;      // the meal's totals, named after its foods
+    items?: MealItem[];       // set when the meal has more than one item
+    mealId?: RecordId;
+    mealDate?: string;        // the day the meal was filed under, to find it again when it isn't today's
     imagePreview?: string;
     barcodeProduct?: OFFProduct;
 }
 
 const CHAT_STORAGE_KEY = 'meal-tracker-chat';
 
-function loadTodayChat(): ChatMessage[] {
+// Confirmation for a logged meal, naming the time when it wasn't logged for now
+const loggedText = (at: number | undefined, dayStartHour: number, what = 'Logged') =>
+    at === undefined ? `${what}!` : `${what} for ${describeWhen(at, dayStartHour)}!`;
+
+// What the bubble for a logged meal shows: its totals, plus each item when there are several
+const loggedItems = (items: MealItem[]): Pick<ChatMessage, 'mealData' | 'items'> => ({
+    mealData: { food: items.map(item => item.food).join(', '), ...itemTotals(items) },
+    ...(items.length > 1 && { items }),
+});
+
+// Points a bubble at the meal it logged
+const loggedMeal = (mealId: RecordId, at: number | undefined, dayStartHour: number): Pick<ChatMessage, 'mealId' | 'mealDate'> => ({
+    mealId, mealDate: dayKey(at ?? Date.now(), { dayStartHour }),
+});
+
+function loadTodayChat(dayStartHour: number): ChatMessage[] {
     try {
         const stored = localStorage.getItem(CHAT_STORAGE_KEY);
         if (!stored) return [];
         const { date, messages } = JSON.parse(stored);
-        if (date === format(new Date(), 'yyyy-MM-dd')) return messages;
+        // Chats saved before string record IDs point at meals by number
+        if (date === todayKey({ dayStartHour })) return messages.map((m: ChatMessage) => ({ ...m, mealId: legacyId(m.mealId) }));
         localStorage.removeItem(CHAT_STORAGE_KEY);
     } catch {}
     return [];
 }
 
-function saveTodayChat(messages: ChatMessage[]) {
+function saveTodayChat(messages: ChatMessage[], dayStartHour: number) {
     try {
         const stripped = messages.map(({ imagePreview: _, ...rest }) => rest);
         localStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify({
-            date: format(new Date(), 'yyyy-MM-dd'),
+            date: todayKey({ dayStartHour }),
             messages: stripped,
         }));
     } catch {
@@ -53,9 +80,11 @@ function saveTodayChat(messages: ChatMessage[]) {
 export const MealInput = () => {
     const { addMeal, meals, refreshMeals } = useMeals();
     const { settings, updateSetting } = useSettings();
+    const vault = useVault();
     const { user, signIn } = useAuth();
     const navigate = useNavigate();
-    const [messages, setMessages] = useState<ChatMessage[]>(loadTodayChat);
+    const dayStartHour = settings?.dayStartHour ?? DEFAULT_SETTINGS.dayStartHour;
+    const [messages, setMessages] = useState<ChatMessage[]>(() => loadTodayChat(dayStartHour));
     const [input, setInput] = useState('');
     const [isProcessing, setIsProcessing] = useState(false);
     const [isListening, setIsListening] = useState(false);
@@ -68,6 +97,9 @@ export const MealInput = () => {
     const [draftMacros, setDraftMacros] = useState<{ calories: number; protein: number; fat: number; carbs: number; fiber: number } | null>(null);
     const [showChoicesMenu, setShowChoicesMenu] = useState(false);
     const [showWaterPicker, setShowWaterPicker] = useState(false);
+    // Picked in the composer for catch-up logging; stays until cleared (see when.ts)
+    const [logAt, setLogAt] = useState<number | null>(null);
+    const [showTimePicker, setShowTimePicker] = useState(false);
 
     // Onboarding state
     const [onboardingExpand, setOnboardingExpand] = useState<null | 'openai-groq' | 'gemini'>(null);
@@ -77,7 +109,10 @@ export const MealInput = () => {
 
     const bottomRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const msgId = useRef(loadTodayChat().length);
+    const msgId = useRef(loadTodayChat(dayStartHour).length);
+    const logAtRef = useRef(logAt);
+
+    useEffect(() => { logAtRef.current = logAt; }, [logAt]);
 
     useEffect(() => { bottomRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [messages]);
 
@@ -93,10 +128,12 @@ export const MealInput = () => {
                     fat: Math.round(recipe.totalFat * ratio),
                     carbs: Math.round(recipe.totalCarbs * ratio),
                     fiber: Math.round(recipe.totalFiber * ratio),
+                    ...withNutrients(scaleNutrients(recipe.totalNutrients, ratio)),
                 };
-                await addMeal(`${weight}g of ${recipe.name}`, mealData);
+                const at = logAtRef.current ?? undefined;
+                await addMeal(`${weight}g of ${recipe.name}`, [mealData], at);
                 await refreshMeals();
-                addMsg({ role: 'assistant', type: 'meal', text: 'Logged!', mealData });
+                addMsg({ role: 'assistant', type: 'meal', text: loggedText(at, dayStartHour), mealData });
             } catch {
                 addMsg({ role: 'assistant', type: 'error', text: 'Failed to log recipe. Please try again.' });
             }
@@ -106,7 +143,7 @@ export const MealInput = () => {
     }, []);
 
     // Persist chat to localStorage whenever messages change
-    useEffect(() => { saveTodayChat(messages); }, [messages]);
+    useEffect(() => { saveTodayChat(messages, dayStartHour); }, [messages, dayStartHour]);
 
     const addMsg = (msg: Omit<ChatMessage, 'id'>): ChatMessage => {
         const m = { ...msg, id: ++msgId.current };
@@ -217,26 +254,29 @@ export const MealInput = () => {
                     fat:      Math.round(p.per100fat * ratio),
                     carbs:    Math.round(p.per100carbs * ratio),
                     fiber:    Math.round(p.per100fiber * ratio),
+                    ...withNutrients(scaleNutrients(p.per100nutrients, ratio)),
                 };
-                const mealId = await addMeal(text, mealData);
+                const at = logAt ?? undefined;
+                const mealId = await addMeal(text, [mealData], at);
                 setPendingBarcode(null);
-                addMsg({ role: 'assistant', type: 'meal', text: 'Logged!', mealData, mealId });
+                addMsg({ role: 'assistant', type: 'meal', text: loggedText(at, dayStartHour), mealData, ...loggedMeal(mealId, at, dayStartHour) });
                 return;
             }
 
             const result = pendingImage
                 ? await processLabelImage(pendingImage.base64, pendingImage.mimeType, text)
-                : await processInput(text);
+                : await processInput(text, logAt ?? undefined);
             setPendingImage(null);
+            // A time in the message beats the picked one
+            const at = ('at' in result ? result.at : undefined) ?? logAt ?? undefined;
+            const slot = 'slot' in result ? result.slot : undefined;
 
             if (result.type === 'meal') {
-                const mealId = await addMeal(text, result.data);
-                addMsg({ role: 'assistant', type: 'meal', text: 'Logged!', mealData: result.data, mealId });
+                const mealId = await addMeal(text, [result.data], at, slot);
+                addMsg({ role: 'assistant', type: 'meal', text: loggedText(at, dayStartHour), mealData: result.data, ...loggedMeal(mealId, at, dayStartHour) });
             } else if (result.type === 'meal_list') {
-                for (const item of result.items) {
-                    const mealId = await addMeal(text, item);
-                    addMsg({ role: 'assistant', type: 'meal', text: 'Logged!', mealData: item, mealId });
-                }
+                const mealId = await addMeal(text, result.items, at, slot);
+                addMsg({ role: 'assistant', type: 'meal', text: loggedText(at, dayStartHour), ...loggedItems(result.items), ...loggedMeal(mealId, at, dayStartHour) });
             } else if (result.type === 'favourite_save') {
                 if (meals.length > 0) {
                     const lastMeal = meals[meals.length - 1];
@@ -259,10 +299,10 @@ export const MealInput = () => {
                 const favs = await getAllFavourites();
                 const fav = favs.find(f => f.name.toLowerCase() === result.name.toLowerCase());
                 if (fav) {
-                    await addMeal(fav.content, fav.parsed[0]);
+                    const mealId = await addMeal(fav.content, fav.parsed, at, slot);
                     addMsg({
-                        role: 'assistant', type: 'meal', text: `Logged favourite "${fav.name}"!`,
-                        mealData: fav.parsed[0],
+                        role: 'assistant', type: 'meal', text: loggedText(at, dayStartHour, `Logged favourite "${fav.name}"`),
+                        ...loggedItems(fav.parsed), ...loggedMeal(mealId, at, dayStartHour),
                     });
                 } else {
                     addMsg({ role: 'assistant', type: 'error', text: `No favourite named "${result.name}" found.` });
@@ -279,14 +319,22 @@ export const MealInput = () => {
                         fat: Math.round(recipe.totalFat * ratio),
                         carbs: Math.round(recipe.totalCarbs * ratio),
                         fiber: Math.round(recipe.totalFiber * ratio),
+                        ...withNutrients(scaleNutrients(recipe.totalNutrients, ratio)),
                     };
-                    await addMeal(`${result.weight}g of ${recipe.name}`, mealData);
-                    addMsg({ role: 'assistant', type: 'meal', text: 'Logged!', mealData });
+                    await addMeal(`${result.weight}g of ${recipe.name}`, [mealData], at, slot);
+                    addMsg({ role: 'assistant', type: 'meal', text: loggedText(at, dayStartHour), mealData });
                 } else {
                     addMsg({ role: 'assistant', type: 'error', text: `No recipe named "${result.name}" found.` });
                 }
+            } else if (result.type === 'water') {
+                if (result.ml > 0) await logWater(result.ml, at);
+                else addMsg({ role: 'assistant', type: 'error', text: 'How much water? Try something like "2 glasses of water" or "500ml water".' });
+            } else if (result.type === 'activity') {
+                if (result.activity.name && result.activity.calories > 0) await logActivity(result.activity, at);
+                else addMsg({ role: 'assistant', type: 'error', text: 'How long, or how far? Try something like "ran 5k in 30 min" or "45 min gym".' });
             } else if (result.type === 'weight') {
-                await addWeight({ date: format(new Date(), 'yyyy-MM-dd'), weight: result.weight, timestamp: Date.now() });
+                const weighedAt = at ?? Date.now();
+                await addWeight({ date: dayKey(weighedAt, { dayStartHour }), weight: result.weight, timestamp: weighedAt });
                 await saveSetting('profileWeight', result.weight);
                 addMsg({ role: 'assistant', type: 'weight', text: `Weight logged: ${result.weight} kg (profile updated)` });
             } else if (result.type === 'height') {
@@ -307,39 +355,59 @@ export const MealInput = () => {
         }
     };
 
-    const handleSaveMacros = async (msgId: number, mealId: number) => {
+    const handleSaveMacros = async (msg: ChatMessage) => {
         if (!draftMacros) return;
-        const meal = meals.find(m => m.id === mealId);
-        if (meal) {
-            await updateMeal({
-                ...meal,
-                parsed: [{ ...meal.parsed[0], ...draftMacros }],
-                totalCalories: draftMacros.calories,
-            });
-            await refreshMeals();
+        setEditingMsgId(null);
+        setDraftMacros(null);
+        // Backdated meals aren't among today's, so look on the day they were filed under
+        const meal = meals.find(m => m.id === msg.mealId)
+            ?? (msg.mealDate ? (await getMealsByDate(msg.mealDate)).find(m => m.id === msg.mealId) : undefined);
+        // The bubble shows one item; the meal may have gained others since, which stay as they are
+        const items: MealItem[] = meal?.parsed ?? [];
+        const index = items.length === 1 ? 0 : items.findIndex(item => item.food === msg.mealData?.food);
+        if (!meal || index < 0) {
+            addMsg({ role: 'assistant', type: 'error', text: "Couldn't find that meal any more. Edit it from History instead." });
+            return;
         }
+        await updateMeal(withRevision(meal, {
+            content: meal.content,
+            ...withItems(items.map((item, i) => i === index ? { ...item, ...draftMacros } : item)),
+        }, 'manual-edit'));
+        await refreshMeals();
         setMessages(prev => prev.map(m =>
-            m.id === msgId ? { ...m, mealData: { ...m.mealData!, ...draftMacros } } : m
+            m.id === msg.id ? { ...m, mealData: { ...m.mealData!, ...draftMacros } } : m
         ));
-        setEditingMsgId(null);
-        setDraftMacros(null);
     };
 
     const handleLogFavourite = async (fav: Favourite) => {
-        await addMeal(fav.content, fav.parsed[0]);
+        const at = logAt ?? undefined;
+        const mealId = await addMeal(fav.content, fav.parsed, at);
         await refreshMeals();
         addMsg({
-            role: 'assistant', type: 'meal', text: `Logged favourite "${fav.name}"!`,
-            mealData: fav.parsed[0],
+            role: 'assistant', type: 'meal', text: loggedText(at, dayStartHour, `Logged favourite "${fav.name}"`),
+            ...loggedItems(fav.parsed), ...loggedMeal(mealId, at, dayStartHour),
         });
     };
 
+    const logWater = async (ml: number, at: number | undefined) => {
+        const drankAt = at ?? Date.now();
+        await addWater({ date: dayKey(drankAt, { dayStartHour }), timestamp: drankAt, ml });
+        addMsg({ role: 'assistant', type: 'chat', text: at === undefined ? `💧 ${ml}ml water logged.` : `💧 ${ml}ml water logged for ${describeWhen(at, dayStartHour)}.` });
+    };
+
+    const logActivity = async (activity: ParsedActivity, at: number | undefined) => {
+        const doneAt = at ?? Date.now();
+        await addActivity({ ...activity, date: dayKey(doneAt, { dayStartHour }), timestamp: doneAt });
+        const length = activity.minutes > 0 ? ` · ${activity.minutes} min` : '';
+        const burn = `${activity.calories} kcal burned${activity.source === 'user' ? '' : ' (estimated)'}`;
+        const when = at === undefined ? '' : ` for ${describeWhen(at, dayStartHour)}`;
+        addMsg({ role: 'assistant', type: 'chat', text: `🏃 ${activity.name}${length} logged${when} · ${burn}.` });
+    };
+
     const handleLogWater = async (ml: number) => {
         setShowChoicesMenu(false);
         setShowWaterPicker(false);
-        const waterMacros = { food: 'Water', calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0 };
-        await addMeal(`${ml}ml water`, waterMacros);
-        addMsg({ role: 'assistant', type: 'chat', text: `💧 ${ml}ml water logged.` });
+        await logWater(ml, logAt ?? undefined);
     };
 
     const handleClearChat = () => {
@@ -356,13 +424,13 @@ export const MealInput = () => {
     const handleOnboardingSave = async (finalProvider: 'gemini' | 'openai' | 'groq') => {
         if (!onboardingKey.trim()) return;
         await updateSetting('provider', finalProvider);
-        await updateSetting('apiKey', onboardingKey.trim());
+        await setApiKey(onboardingKey.trim());
         setOnboardingKey('');
         setOnboardingExpand(null);
     };
 
     // Signed-in users get hosted AI — no onboarding needed
-    const showOnboarding = !!settings && !settings.apiKey && !user;
+    const showOnboarding = !!settings && !!vault && !vault.hasApiKey && !user;
 
     return (
         <motion.div
@@ -541,6 +609,17 @@ export const MealInput = () => {
                                         <span className="text-sm font-semibold text-th-primary">{msg.mealData.food}</span>
                                     </div>
 
+                                    {msg.items && (
+                                        <ul className="mb-2 space-y-0.5">
+                                            {msg.items.map((item, i) => (
+                                                <li key={i} className="flex justify-between gap-3 text-xs text-th-secondary">
+                                                    <span className="truncate">{item.food}</span>
+                                                    <span className="shrink-0 text-th-muted">{item.calories} kcal</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+
                                     {editingMsgId !== msg.id && (
                                         <div className="grid grid-cols-4 gap-2 text-center">
                                             {[
@@ -582,7 +661,7 @@ export const MealInput = () => {
                                             </div>
                                             <div className="flex gap-2">
                                                 <button
-                                                    onClick={() => handleSaveMacros(msg.id, msg.mealId!)}
+                                                    onClick={() => handleSaveMacros(msg)}
                                                     className="flex-1 py-1.5 bg-emerald-500 hover:bg-emerald-400 rounded-lg text-zinc-900 text-xs font-semibold transition-colors"
                                                 >
                                                     Save
@@ -597,7 +676,7 @@ export const MealInput = () => {
                                         </div>
                                     )}
 
-                                    {editingMsgId !== msg.id && msg.mealId && (
+                                    {editingMsgId !== msg.id && msg.mealId && !msg.items && (
                                         <button
                                             onClick={() => {
                                                 setEditingMsgId(msg.id);
@@ -667,6 +746,18 @@ export const MealInput = () => {
                                             Go to Settings →
                                         </button>
                                     </div>
+                                ) : msg.text === 'api_key_locked' ? (
+                                    <div className="bg-red-500/10 border border-red-500/20 rounded-2xl rounded-tl-sm px-4 py-3 max-w-[85%]">
+                                        <div className="flex items-start gap-2">
+                                            <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
+                                            <p className="text-sm text-red-300">
+                                                Your API key is locked. Enter your passcode in Settings to use it.
+                                            </p>
+                                        </div>
+                                        <button onClick={() => navigate('/settings')} className="text-xs text-red-400 underline mt-1 ml-6">
+                                            Go to Settings →
+                                        </button>
+                                    </div>
                                 ) : msg.text === 'add_api_key' || msg.text === 'qty_needs_key' ? (
                                     <div className="bg-red-500/10 border border-red-500/20 rounded-2xl rounded-tl-sm px-4 py-3 max-w-[85%]">
                                         <div className="flex items-start gap-2">
@@ -746,6 +837,19 @@ export const MealInput = () => {
                     className="hidden"
                     onChange={handleImageSelect}
                 />
+                {logAt !== null && (
+                    <div className="flex items-center gap-2 mb-2 px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/30 rounded-xl text-xs text-emerald-300">
+                        <CalendarClock className="w-3.5 h-3.5 shrink-0" />
+                        <span className="flex-1">Logging for {describeWhen(logAt, dayStartHour)}</span>
+                        <button
+                            onClick={() => setLogAt(null)}
+                            className="p-0.5 text-emerald-400 active:text-th-primary"
+                            title="Log for now"
+                        >
+                            <X className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                )}
                 <div className="flex items-end gap-2 bg-surface2 border border-th-border-strong rounded-2xl px-3 py-2">
                     {/* Choices button — double gear */}
                     <div className="relative shrink-0">
@@ -771,7 +875,7 @@ export const MealInput = () => {
                         </button>
                         {showChoicesMenu && (
                             <>
-                                <div className="fixed inset-0 z-40" onClick={() => { setShowChoicesMenu(false); setShowWaterPicker(false); }} />
+                                <div className="fixed inset-0 z-40" onClick={() => { setShowChoicesMenu(false); setShowWaterPicker(false); setShowTimePicker(false); }} />
                                 <div className="absolute bottom-full left-0 mb-2 z-50 bg-surface border border-th-border-strong rounded-2xl shadow-xl overflow-hidden min-w-[200px]">
                                     <button
                                         onClick={() => { setShowFavourites(true); setShowChoicesMenu(false); }}
@@ -809,6 +913,28 @@ export const MealInput = () => {
                                         Scan barcode
                                         {pendingBarcode && <span className="ml-auto text-xs font-medium text-emerald-400">ready</span>}
                                     </button>
+                                    {/* Date and time for catch-up logging */}
+                                    <div className="border-t border-th-border">
+                                        <button
+                                            onClick={() => setShowTimePicker(v => !v)}
+                                            className="w-full flex items-center gap-3 px-4 py-3 text-sm text-th-primary hover:bg-surface2 transition-colors"
+                                        >
+                                            <CalendarClock className={clsx('w-4 h-4 shrink-0', logAt !== null ? 'text-emerald-400' : 'text-th-secondary')} />
+                                            Log for another time
+                                            <ChevronDown className={clsx('w-3.5 h-3.5 ml-auto text-th-faint transition-transform', showTimePicker && 'rotate-180')} />
+                                        </button>
+                                        {showTimePicker && (
+                                            <div className="px-4 pb-3">
+                                                <input
+                                                    type="datetime-local"
+                                                    value={logAt !== null ? format(logAt, "yyyy-MM-dd'T'HH:mm") : ''}
+                                                    max={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                                                    onChange={e => setLogAt(e.target.value ? new Date(e.target.value).getTime() : null)}
+                                                    className="w-full bg-surface2 rounded-lg border border-th-border-strong px-2 py-1.5 text-xs text-th-primary focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
                                     {/* Water */}
                                     <div className="border-t border-th-border">
                                         <button
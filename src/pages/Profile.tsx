@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { getAllMeals, getSettings } from '../lib/db';
-import { evaluateBadges, computeStreaks, type Badge, type StreakInfo } from '../lib/badges';
+import { getActivitiesInRange, getDailySummaries, getSettings } from '../lib/db';
+import { evaluateBadges, computeStreaks, lookbackRange, STREAK_WINDOW_DAYS, type Badge, type StreakInfo } from '../lib/badges';
+import { burnedByDay } from '../lib/activity';
 import clsx from 'clsx';
 
 export const Profile = () => {
@@ -10,9 +11,12 @@ export const Profile = () => {
 
     useEffect(() => {
         const load = async () => {
-            const [meals, settings] = await Promise.all([getAllMeals(), getSettings()]);
-            setBadges(evaluateBadges(meals, settings));
-            setStreaks(computeStreaks(meals, settings));
+            const settings = await getSettings();
+            const range = lookbackRange(STREAK_WINDOW_DAYS, settings.dayStartHour);
+            const [summaries, activities] = await Promise.all([getDailySummaries(...range), getActivitiesInRange(...range)]);
+            const burned = burnedByDay(activities);
+            setBadges(evaluateBadges(summaries, settings, burned));
+            setStreaks(computeStreaks(summaries, settings, burned));
         };
         load();
     }, []);
@@ -1,14 +1,26 @@
 import { motion } from 'framer-motion';
-import { ArrowLeft, Save, Key, Target, Ruler, Trash2, AlertTriangle, Download, User, Cloud, Zap, Sun, Shield } from 'lucide-react';
+import { ArrowLeft, Save, Key, Target, Ruler, Trash2, AlertTriangle, Download, Upload, User, Cloud, Zap, Sun, Shield, FileSpreadsheet, Utensils, HeartPulse } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useSettings } from '../hooks/useSettings';
-import { resetAllData, getAllMeals, deleteMeal } from '../lib/db';
+import { resetAllData, getMealsInRange, deleteMeals, restoreManyFromTrash, type UserSettings } from '../lib/db';
+import { downloadBackup } from '../lib/backup';
+import { exportMealsCsv, exportWeightsCsv } from '../lib/csv';
+import { MEAL_SLOTS, SLOT_LABELS } from '../lib/slots';
+import { NUTRIENTS } from '../lib/nutrients';
 import { useState, useEffect } from 'react';
-import { subDays, format } from 'date-fns';
+import { format } from 'date-fns';
+import { shiftDay, todayKey } from '../lib/days';
 import { AuthButton } from '../components/AuthButton';
+import { SyncStatus } from '../components/SyncStatus';
+import { EncryptionSettings } from '../components/EncryptionSettings';
 import { useAuth } from '../contexts/AuthContext';
+import { useUndo } from '../hooks/useUndo';
 import clsx from 'clsx';
 import { ConfirmModal } from '../components/ConfirmModal';
+import { RestoreModal } from '../components/RestoreModal';
+import { CsvImportModal } from '../components/CsvImportModal';
+import { useVault } from '../hooks/useVault';
+import { setApiKey, unlock, lock, setPasscode, resetVault } from '../lib/secrets';
 
 const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
     <div className="flex flex-col gap-1.5">
@@ -43,6 +55,8 @@ const NumericInput = ({ value, onChange, className, placeholder }: {
     );
 };
 
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
 const PROVIDER_LABELS = {
     gemini: 'Google Gemini',
     openai: 'OpenAI',
@@ -61,13 +75,135 @@ const PROVIDER_PLACEHOLDERS = {
     groq: 'gsk_...',
 } as const;
 
+type Provider = keyof typeof PROVIDER_LABELS;
+
+const ApiKeySection = ({ provider }: { provider: Provider }) => {
+    const vault = useVault();
+    const [passcode, setPasscodeText] = useState('');
+    const [error, setError] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [confirmReset, setConfirmReset] = useState(false);
+
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        setBusy(true);
+        try {
+            await action();
+            setPasscodeText('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (!vault) return null;
+
+    const smallBtn = "px-3 rounded-xl bg-surface2 border border-th-border text-xs font-medium text-th-primary active:scale-95 transition-transform disabled:opacity-40 shrink-0";
+
+    return (
+        <section className="space-y-3">
+            <h2 className="text-xs font-bold text-th-muted uppercase tracking-widest flex items-center gap-2">
+                <Key className="w-3.5 h-3.5" /> {PROVIDER_LABELS[provider]} API Key
+            </h2>
+            {vault.locked ? (
+                <Field label="Passcode">
+                    <div className="flex gap-2">
+                        <input
+                            type="password"
+                            value={passcode}
+                            onChange={e => setPasscodeText(e.target.value)}
+                            onKeyDown={e => { if (e.key === 'Enter') run(() => unlock(passcode)); }}
+                            placeholder="Enter passcode to unlock"
+                            className={inputCls}
+                        />
+                        <button onClick={() => run(() => unlock(passcode))} disabled={busy || !passcode} className={smallBtn}>
+                            Unlock
+                        </button>
+                    </div>
+                    <button onClick={() => setConfirmReset(true)} className="text-xs text-th-faint underline self-start">
+                        Forgot passcode?
+                    </button>
+                </Field>
+            ) : (
+                <>
+                    <Field label="API Key">
+                        <input
+                            key={vault.apiKey}
+                            type="password"
+                            defaultValue={vault.apiKey}
+                            onBlur={e => { if (e.target.value.trim() !== vault.apiKey) run(() => setApiKey(e.target.value.trim())); }}
+                            placeholder={PROVIDER_PLACEHOLDERS[provider]}
+                            className={inputCls}
+                        />
+                    </Field>
+                    <Field label={vault.passcode ? 'Change passcode' : 'Passcode (optional)'}>
+                        <div className="flex gap-2">
+                            <input
+                                type="password"
+                                value={passcode}
+                                onChange={e => setPasscodeText(e.target.value)}
+                                placeholder={vault.passcode ? 'New passcode' : 'Require a passcode to use the key'}
+                                className={inputCls}
+                            />
+                            <button onClick={() => run(() => setPasscode(passcode))} disabled={busy || !passcode} className={smallBtn}>
+                                {vault.passcode ? 'Change' : 'Set'}
+                            </button>
+                        </div>
+                        {vault.passcode && (
+                            <div className="flex gap-4">
+                                <button onClick={lock} className="text-xs text-emerald-400 underline">Lock now</button>
+                                <button onClick={() => run(() => setPasscode(null))} disabled={busy} className="text-xs text-th-faint underline">
+                                    Remove passcode
+                                </button>
+                            </div>
+                        )}
+                    </Field>
+                </>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <p className="text-xs text-th-faint">
+                Stored encrypted on this device only — it is never synced or included in backups.
+            </p>
+            <a
+                href={PROVIDER_LINKS[provider]}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-emerald-400 underline"
+            >
+                Get {PROVIDER_LABELS[provider]} API key →
+            </a>
+            {confirmReset && (
+                <ConfirmModal
+                    message="Remove the saved API key and passcode from this device? You'll need to enter the key again."
+                    confirmLabel="Remove"
+                    onConfirm={() => { setConfirmReset(false); run(resetVault); }}
+                    onCancel={() => setConfirmReset(false)}
+                />
+            )}
+        </section>
+    );
+};
+
 export const SettingsPage = () => {
     const navigate = useNavigate();
     const { settings, loading, updateSetting } = useSettings();
     const { user } = useAuth();
+    const { showUndo } = useUndo();
     const isAdmin = user?.uid === import.meta.env.VITE_ADMIN_UID;
     const [saved, setSaved] = useState(false);
     const [pendingDelete, setPendingDelete] = useState<number | 'all' | null>(null);
+    const [deleteProgress, setDeleteProgress] = useState<{ done: number; total: number } | null>(null);
+    const [restoreFile, setRestoreFile] = useState<File | null>(null);
+    const [csvFile, setCsvFile] = useState<File | null>(null);
+
+    const [settingErr, setSettingErr] = useState('');
+
+    // Shared with every other screen through SettingsProvider; invalid values are rejected there
+    const update = <K extends keyof UserSettings>(key: K, value: UserSettings[K]) => {
+        setSettingErr('');
+        updateSetting(key, value).catch((err: Error) => setSettingErr(err.message));
+    };
 
     const handleSave = () => {
         setSaved(true);
@@ -76,33 +212,32 @@ export const SettingsPage = () => {
 
     const handleDeleteRange = async (days: number | 'all') => {
         if (days === 'all') {
-            await resetAllData();
+            try {
+                await resetAllData();
+            } catch (err) {
+                alert(err instanceof Error ? err.message : 'Reset failed. Please try again.');
+                return;
+            }
             window.location.reload();
             return;
         }
-        const cutoff = format(subDays(new Date(), days), 'yyyy-MM-dd');
-        const today = format(new Date(), 'yyyy-MM-dd');
-        const meals = await getAllMeals();
-        const toDelete = meals.filter(m => m.date >= cutoff && m.date <= today);
-        try {
-            await Promise.all(toDelete.map(m => deleteMeal(m.id!)));
-        } catch {
-            alert('Some meals could not be deleted. Please check your connection and try again.');
-            return;
+        const today = todayKey({ dayStartHour: settings?.dayStartHour });
+        const cutoff = shiftDay(today, -days);
+        const ids = (await getMealsInRange(cutoff, today)).map(m => m.id!);
+        setDeleteProgress({ done: 0, total: ids.length });
+        const report = await deleteMeals(ids, { onProgress: (done, total) => setDeleteProgress({ done, total }) });
+        setDeleteProgress(null);
+        // Undo only brings back what actually went to Trash
+        const failed = new Set(report.failed);
+        const deleted = ids.filter(id => !failed.has(id));
+        if (deleted.length > 0) {
+            showUndo(`${deleted.length} meals moved to Trash`, () => restoreManyFromTrash('meals', deleted));
+        }
+        if (failed.size > 0) {
+            alert(`${failed.size} of ${report.total} meals couldn't be deleted. Please check your connection and try again.`);
         }
-        window.location.reload();
     };
 
-    const handleExport = async () => {
-        const meals = await getAllMeals();
-        const blob = new Blob([JSON.stringify(meals, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `meal-tracker-export-${new Date().toISOString().slice(0, 10)}.json`;
-        a.click();
-        URL.revokeObjectURL(url);
-    };
 
     if (loading || !settings) return <div className="p-8 text-th-secondary">Loading...</div>;
 
@@ -139,6 +274,8 @@ export const SettingsPage = () => {
                             ? 'Your data syncs automatically across devices.'
                             : 'Sign in to back up and sync your data across devices.'}
                     </p>
+                    <SyncStatus />
+                    <EncryptionSettings />
                 </section>
 
                 {/* Appearance */}
@@ -150,13 +287,7 @@ export const SettingsPage = () => {
                         {(['light', 'dark'] as const).map(t => (
                             <button
                                 key={t}
-                                onClick={() => {
-                                    updateSetting('theme', t);
-                                    document.documentElement.setAttribute('data-theme', t);
-                                    localStorage.setItem('meal-tracker-theme', t);
-                                    const meta = document.querySelector('meta[name="theme-color"]');
-                                    if (meta) meta.setAttribute('content', t === 'dark' ? '#09090b' : '#fafafa');
-                                }}
+                                onClick={() => update('theme', t)}
                                 className={clsx(
                                     'py-2 rounded-lg text-xs font-medium transition-all capitalize',
                                     theme === t
@@ -179,7 +310,7 @@ export const SettingsPage = () => {
                         {(['gemini', 'openai', 'groq'] as const).map(p => (
                             <button
                                 key={p}
-                                onClick={() => updateSetting('provider', p)}
+                                onClick={() => update('provider', p)}
                                 className={clsx(
                                     'py-2 rounded-lg text-xs font-medium transition-all',
                                     provider === p
@@ -193,29 +324,8 @@ export const SettingsPage = () => {
                     </div>
                 </section>
 
-                {/* API Key — provider-specific */}
-                <section className="space-y-3">
-                    <h2 className="text-xs font-bold text-th-muted uppercase tracking-widest flex items-center gap-2">
-                        <Key className="w-3.5 h-3.5" /> {PROVIDER_LABELS[provider]} API Key
-                    </h2>
-                    <Field label={`API Key`}>
-                        <input
-                            type="password"
-                            value={settings.apiKey}
-                            onChange={e => updateSetting('apiKey', e.target.value)}
-                            placeholder={PROVIDER_PLACEHOLDERS[provider]}
-                            className={inputCls}
-                        />
-                    </Field>
-                    <a
-                        href={PROVIDER_LINKS[provider]}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-xs text-emerald-400 underline"
-                    >
-                        Get {PROVIDER_LABELS[provider]} API key →
-                    </a>
-                </section>
+                {/* API Key — provider-specific, kept on this device */}
+                <ApiKeySection provider={provider} />
 
                 {/* Daily Goals */}
                 <section className="space-y-3">
@@ -224,21 +334,115 @@ export const SettingsPage = () => {
                     </h2>
                     <div className="grid grid-cols-2 gap-3">
                         <Field label="Calories (kcal)">
-                            <NumericInput value={settings.dailyCalories} onChange={v => updateSetting('dailyCalories', v)} className={inputCls} />
+                            <NumericInput value={settings.dailyCalories} onChange={v => update('dailyCalories', v)} className={inputCls} />
                         </Field>
                         <Field label="Protein (g)">
-                            <NumericInput value={settings.dailyProtein} onChange={v => updateSetting('dailyProtein', v)} className={inputCls} />
+                            <NumericInput value={settings.dailyProtein} onChange={v => update('dailyProtein', v)} className={inputCls} />
                         </Field>
                         <Field label="Fat (g)">
-                            <NumericInput value={settings.dailyFat ?? 65} onChange={v => updateSetting('dailyFat', v)} className={inputCls} />
+                            <NumericInput value={settings.dailyFat ?? 65} onChange={v => update('dailyFat', v)} className={inputCls} />
                         </Field>
                         <Field label="Carbs (g)">
-                            <NumericInput value={settings.dailyCarbs} onChange={v => updateSetting('dailyCarbs', v)} className={inputCls} />
+                            <NumericInput value={settings.dailyCarbs} onChange={v => update('dailyCarbs', v)} className={inputCls} />
                         </Field>
                         <Field label="Fiber (g)">
-                            <NumericInput value={settings.dailyFiber} onChange={v => updateSetting('dailyFiber', v)} className={inputCls} />
+                            <NumericInput value={settings.dailyFiber} onChange={v => update('dailyFiber', v)} className={inputCls} />
+                        </Field>
+                        <Field label="Water (ml)">
+                            <NumericInput value={settings.dailyWater} onChange={v => update('dailyWater', v)} className={inputCls} />
                         </Field>
                     </div>
+                    <Field label="Calorie goal counts">
+                        <div className="grid grid-cols-2 gap-1 bg-surface2 rounded-xl border border-th-border-strong p-1">
+                            {([false, true] as const).map(net => (
+                                <button
+                                    key={String(net)}
+                                    onClick={() => update('netCalories', net)}
+                                    className={clsx(
+                                        'py-2 rounded-lg text-xs font-medium transition-all',
+                                        !!settings.netCalories === net
+                                            ? 'bg-emerald-500 text-zinc-900'
+                                            : 'text-th-secondary hover:text-th-primary'
+                                    )}
+                                >
+                                    {net ? 'Eaten minus exercise' : 'Everything eaten'}
+                                </button>
+                            ))}
+                        </div>
+                    </Field>
+                    <p className="text-xs text-th-faint">
+                        Not sure what to aim for? After a few weeks of logging meals and weigh-ins, History → Weight estimates your maintenance calories and can fill these in.
+                    </p>
+                </section>
+
+                {/* Other Nutrients */}
+                <section className="space-y-3">
+                    <h2 className="text-xs font-bold text-th-muted uppercase tracking-widest flex items-center gap-2">
+                        <HeartPulse className="w-3.5 h-3.5" /> Other Nutrients
+                    </h2>
+                    <div className="grid grid-cols-2 gap-3">
+                        {NUTRIENTS.map(n => (
+                            <Field key={n.key} label={`${n.label} ${n.kind} (${n.unit})`}>
+                                <NumericInput
+                                    value={settings.nutrientTargets[n.key]}
+                                    onChange={v => update('nutrientTargets', { ...settings.nutrientTargets, [n.key]: v })}
+                                    placeholder={`Off · ${n.suggested}`}
+                                    className={inputCls}
+                                />
+                            </Field>
+                        ))}
+                    </div>
+                    <p className="text-xs text-th-faint">
+                        Set a daily limit or goal to track a nutrient on Home. Empty means not tracked; the hint is a common adult reference value.
+                    </p>
+                </section>
+
+                {/* Meal Slots */}
+                <section className="space-y-3">
+                    <h2 className="text-xs font-bold text-th-muted uppercase tracking-widest flex items-center gap-2">
+                        <Utensils className="w-3.5 h-3.5" /> Meal Slots
+                    </h2>
+                    <div className="grid grid-cols-3 gap-3 text-xs text-th-secondary">
+                        <span />
+                        <span>Starts at</span>
+                        <span>Target (kcal)</span>
+                    </div>
+                    {MEAL_SLOTS.map(slot => (
+                        <div key={slot} className="grid grid-cols-3 gap-3 items-center">
+                            <span className="text-sm text-th-primary">{SLOT_LABELS[slot]}</span>
+                            <select
+                                value={settings.slotStarts[slot]}
+                                onChange={e => update('slotStarts', { ...settings.slotStarts, [slot]: Number(e.target.value) })}
+                                className={inputCls}
+                            >
+                                {HOURS.map(h => (
+                                    <option key={h} value={h}>{format(new Date(2000, 0, 1, h), 'h a')}</option>
+                                ))}
+                            </select>
+                            <NumericInput
+                                value={settings.slotCalories[slot]}
+                                onChange={v => update('slotCalories', { ...settings.slotCalories, [slot]: v })}
+                                placeholder="None"
+                                className={inputCls}
+                            />
+                        </div>
+                    ))}
+                    <div className="grid grid-cols-3 gap-3 items-center">
+                        <span className="text-sm text-th-primary">Day starts at</span>
+                        <select
+                            value={settings.dayStartHour}
+                            onChange={e => update('dayStartHour', Number(e.target.value))}
+                            className={inputCls}
+                        >
+                            {HOURS.slice(0, 13).map(h => (
+                                <option key={h} value={h}>{format(new Date(2000, 0, 1, h), 'h a')}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <p className="text-xs text-th-faint">
+                        New meals go in the slot their time falls in, unless you say "for breakfast" and so on. Anything before breakfast starts counts as a snack.
+                        Meals eaten before the day starts count towards the day before, so a 1am dinner after a late shift stays with that evening.
+                    </p>
                 </section>
 
                 {/* Profile */}
@@ -248,15 +452,31 @@ export const SettingsPage = () => {
                     </h2>
                     <div className="grid grid-cols-3 gap-3">
                         <Field label="Age">
-                            <NumericInput value={settings.profileAge || 0} onChange={v => updateSetting('profileAge', v)} className={inputCls} />
+                            <NumericInput value={settings.profileAge || 0} onChange={v => update('profileAge', v)} className={inputCls} />
                         </Field>
                         <Field label="Weight (kg)">
-                            <NumericInput value={settings.profileWeight || 0} onChange={v => updateSetting('profileWeight', v)} className={inputCls} />
+                            <NumericInput value={settings.profileWeight || 0} onChange={v => update('profileWeight', v)} className={inputCls} />
                         </Field>
                         <Field label="Height (cm)">
-                            <NumericInput value={settings.profileHeight || 0} onChange={v => updateSetting('profileHeight', v)} className={inputCls} />
+                            <NumericInput value={settings.profileHeight || 0} onChange={v => update('profileHeight', v)} className={inputCls} />
                         </Field>
                     </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <Field label="Goal weight (kg)">
+                            <NumericInput value={settings.goalWeight || 0} onChange={v => update('goalWeight', v)} className={inputCls} />
+                        </Field>
+                        <Field label="Target date">
+                            <input
+                                type="date"
+                                value={settings.goalDate ?? ''}
+                                onChange={e => update('goalDate', e.target.value)}
+                                className={inputCls}
+                            />
+                        </Field>
+                    </div>
+                    <p className="text-xs text-th-faint">
+                        Leave the goal at 0 for none. History → Weight shows your trend against it and when you'll get there at your current rate.
+                    </p>
                 </section>
 
                 {/* Portion Calibration */}
@@ -266,16 +486,19 @@ export const SettingsPage = () => {
                     </h2>
                     <div className="grid grid-cols-2 gap-3">
                         <Field label="Bowl — liquid (ml)">
-                            <NumericInput value={settings.unitBowlLiquid} onChange={v => updateSetting('unitBowlLiquid', v)} className={inputCls} />
+                            <NumericInput value={settings.unitBowlLiquid} onChange={v => update('unitBowlLiquid', v)} className={inputCls} />
                         </Field>
                         <Field label="Bowl — solid (g)">
-                            <NumericInput value={settings.unitBowlSolid} onChange={v => updateSetting('unitBowlSolid', v)} className={inputCls} />
+                            <NumericInput value={settings.unitBowlSolid} onChange={v => update('unitBowlSolid', v)} className={inputCls} />
                         </Field>
                         <Field label="Tablespoon (g)">
-                            <NumericInput value={settings.unitTbsp} onChange={v => updateSetting('unitTbsp', v)} className={inputCls} />
+                            <NumericInput value={settings.unitTbsp} onChange={v => update('unitTbsp', v)} className={inputCls} />
                         </Field>
                         <Field label="Teaspoon (g)">
-                            <NumericInput value={settings.unitTsp} onChange={v => updateSetting('unitTsp', v)} className={inputCls} />
+                            <NumericInput value={settings.unitTsp} onChange={v => update('unitTsp', v)} className={inputCls} />
+                        </Field>
+                        <Field label="Glass (ml)">
+                            <NumericInput value={settings.unitGlass} onChange={v => update('unitGlass', v)} className={inputCls} />
                         </Field>
                     </div>
                 </section>
@@ -289,13 +512,15 @@ export const SettingsPage = () => {
                         <Field label="Hosted AI requests / day">
                             <NumericInput
                                 value={settings.hostedDailyLimit || 30}
-                                onChange={v => updateSetting('hostedDailyLimit', v)}
+                                onChange={v => update('hostedDailyLimit', v)}
                                 className={inputCls}
                             />
                         </Field>
                     </section>
                 )}
 
+                {settingErr && <p className="text-sm text-red-400">{settingErr}</p>}
+
                 {/* Save */}
                 <button
                     onClick={handleSave}
@@ -305,13 +530,72 @@ export const SettingsPage = () => {
                     {saved ? 'Saved!' : 'Save Changes'}
                 </button>
 
-                {/* Data Export */}
+                {/* Backup & Restore */}
+                <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-3">
+                        <button
+                            onClick={downloadBackup}
+                            className="h-12 bg-surface2 rounded-xl flex items-center justify-center gap-2 font-medium text-th-primary active:scale-95 transition-transform border border-th-border text-sm"
+                        >
+                            <Download className="w-4 h-4" />
+                            Backup
+                        </button>
+                        <label className="h-12 bg-surface2 rounded-xl flex items-center justify-center gap-2 font-medium text-th-primary active:scale-95 transition-transform border border-th-border text-sm cursor-pointer">
+                            <Upload className="w-4 h-4" />
+                            Restore
+                            <input
+                                type="file"
+                                accept="application/json,.json"
+                                className="hidden"
+                                onChange={e => { setRestoreFile(e.target.files?.[0] ?? null); e.target.value = ''; }}
+                            />
+                        </label>
+                    </div>
+                    <p className="text-xs text-th-faint">
+                        Backups include meals, favourites, recipes, weights, water, activities and settings — but not your API key.
+                    </p>
+                </div>
+
+                {/* CSV */}
+                <div className="space-y-2">
+                    <div className="grid grid-cols-3 gap-2">
+                        <button
+                            onClick={exportMealsCsv}
+                            className="h-10 bg-surface2 rounded-xl flex items-center justify-center gap-1.5 font-medium text-th-primary active:scale-95 transition-transform border border-th-border text-xs"
+                        >
+                            <FileSpreadsheet className="w-3.5 h-3.5" />
+                            Meals CSV
+                        </button>
+                        <button
+                            onClick={exportWeightsCsv}
+                            className="h-10 bg-surface2 rounded-xl flex items-center justify-center gap-1.5 font-medium text-th-primary active:scale-95 transition-transform border border-th-border text-xs"
+                        >
+                            <FileSpreadsheet className="w-3.5 h-3.5" />
+                            Weights CSV
+                        </button>
+                        <label className="h-10 bg-surface2 rounded-xl flex items-center justify-center gap-1.5 font-medium text-th-primary active:scale-95 transition-transform border border-th-border text-xs cursor-pointer">
+                            <Upload className="w-3.5 h-3.5" />
+                            Import CSV
+                            <input
+                                type="file"
+                                accept="text/csv,.csv"
+                                className="hidden"
+                                onChange={e => { setCsvFile(e.target.files?.[0] ?? null); e.target.value = ''; }}
+                            />
+                        </label>
+                    </div>
+                    <p className="text-xs text-th-faint">
+                        CSV works with spreadsheets and exports from other trackers like MyFitnessPal and Cronometer.
+                    </p>
+                </div>
+
+                {/* Trash */}
                 <button
-                    onClick={handleExport}
-                    className="w-full h-12 bg-surface2 rounded-xl flex items-center justify-center gap-2 font-medium text-th-primary active:scale-95 transition-transform border border-th-border"
+                    onClick={() => navigate('/settings/trash')}
+                    className="w-full h-12 bg-surface2 rounded-xl flex items-center justify-center gap-2 font-medium text-th-primary active:scale-95 transition-transform border border-th-border text-sm"
                 >
-                    <Download className="w-4 h-4" />
-                    Export Data (JSON)
+                    <Trash2 className="w-4 h-4" />
+                    Trash
                 </button>
 
                 {/* Danger Zone */}
@@ -319,7 +603,7 @@ export const SettingsPage = () => {
                     <h2 className="text-xs font-bold text-red-500 uppercase tracking-widest flex items-center gap-2">
                         <AlertTriangle className="w-3.5 h-3.5" /> Danger Zone
                     </h2>
-                    <p className="text-xs text-th-muted">Delete meal history from a time range:</p>
+                    <p className="text-xs text-th-muted">Move meal history from a time range to Trash:</p>
                     <div className="grid grid-cols-3 gap-2">
                         {([
                             { label: 'Last 24h', days: 1 },
@@ -335,6 +619,11 @@ export const SettingsPage = () => {
                             </button>
                         ))}
                     </div>
+                    {deleteProgress && (
+                        <p className="text-xs text-th-muted">
+                            Moving meals to Trash… {deleteProgress.done} of {deleteProgress.total}
+                        </p>
+                    )}
                     <button
                         onClick={() => setPendingDelete('all')}
                         className="w-full h-12 bg-red-500/10 border border-red-500/20 rounded-xl flex items-center justify-center gap-2 font-medium text-red-500 active:scale-95 transition-transform"
@@ -346,11 +635,27 @@ export const SettingsPage = () => {
 
             </div>
 
+            {restoreFile && (
+                <RestoreModal
+                    file={restoreFile}
+                    onClose={() => setRestoreFile(null)}
+                    onRestored={() => window.location.reload()}
+                />
+            )}
+
+            {csvFile && (
+                <CsvImportModal
+                    file={csvFile}
+                    onClose={() => setCsvFile(null)}
+                    onImported={() => window.location.reload()}
+                />
+            )}
+
             {pendingDelete != null && (
                 <ConfirmModal
                     message={pendingDelete === 'all'
                         ? 'Delete ALL data? This cannot be undone.'
-                        : `Delete the last ${pendingDelete === 1 ? '24 hours' : pendingDelete === 7 ? '7 days' : '30 days'} of meals? This cannot be undone.`}
+                        : `Move the last ${pendingDelete === 1 ? '24 hours' : pendingDelete === 7 ? '7 days' : '30 days'} of meals to Trash?`}
                     confirmLabel="Delete"
                     onConfirm={() => { handleDeleteRange(pendingDelete); setPendingDelete(null); }}
                     onCancel={() => setPendingDelete(null)}
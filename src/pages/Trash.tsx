@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { ConfirmModal } from '../components/ConfirmModal';
+import {
+    getTrashItems, restoreItem, purgeItem, emptyTrash, purgeExpiredTrash,
+    TRASH_RETENTION_DAYS, type TrashItem,
+} from '../lib/trash';
+
+export const Trash = () => {
+    const navigate = useNavigate();
+    const [items, setItems] = useState<TrashItem[] | null>(null);
+    const [purging, setPurging] = useState<TrashItem | 'all' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = () => purgeExpiredTrash().then(getTrashItems).then(setItems);
+
+    useEffect(() => { load(); }, []);
+
+    const handleRestore = async (item: TrashItem) => {
+        setError(null);
+        try {
+            await restoreItem(item);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not restore this item.');
+        }
+        load();
+    };
+
+    const handlePurge = async () => {
+        if (purging == null) return;
+        await (purging === 'all' ? emptyTrash() : purgeItem(purging));
+        setPurging(null);
+        load();
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, x: 60 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 60 }}
+            className="max-w-md mx-auto flex flex-col h-full"
+        >
+            <div className="flex items-center gap-3 px-4 py-3 shrink-0">
+                <button
+                    onClick={() => navigate(-1)}
+                    className="w-9 h-9 rounded-xl bg-surface border border-th-border flex items-center justify-center active:scale-95 transition-transform"
+                >
+                    <ArrowLeft className="w-4 h-4 text-th-secondary" />
+                </button>
+                <h1 className="text-lg font-semibold text-th-primary flex-1">Trash</h1>
+                {!!items?.length && (
+                    <button
+                        onClick={() => setPurging('all')}
+                        className="text-xs font-medium text-red-400 active:scale-95 transition-transform"
+                    >
+                        Empty
+                    </button>
+                )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 pb-8 space-y-2">
+                <p className="text-xs text-th-faint pb-1">
+                    Deleted items stay here for {TRASH_RETENTION_DAYS} days, then they're removed for good.
+                </p>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+
+                {items == null ? (
+                    <p className="text-center text-th-faint text-sm py-8">Loading...</p>
+                ) : items.length === 0 ? (
+                    <p className="text-center text-th-faint text-sm py-8">Trash is empty.</p>
+                ) : (
+                    <AnimatePresence initial={false}>
+                        {items.map(item => (
+                            <motion.div
+                                key={`${item.store}:${item.id}`}
+                                layout
+                                exit={{ opacity: 0, height: 0 }}
+                                className="bg-surface/60 border border-th-border rounded-xl px-4 py-3 flex items-center gap-3"
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-th-primary text-sm font-medium truncate">{item.label}</p>
+                                    <p className="text-xs text-th-muted truncate">{item.detail}</p>
+                                    <p className="text-[10px] text-th-faint">
+                                        Deleted {formatDistanceToNow(item.deletedAt, { addSuffix: true })}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleRestore(item)}
+                                    className="p-1.5 text-th-faint active:text-emerald-400 shrink-0"
+                                    aria-label="Restore"
+                                >
+                                    <RotateCcw className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => setPurging(item)}
+                                    className="p-1.5 text-th-faint active:text-red-400 shrink-0"
+                                    aria-label="Delete forever"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </motion.div>
+                        ))}
+                    </AnimatePresence>
+                )}
+            </div>
+
+            {purging != null && (
+                <ConfirmModal
+                    message={purging === 'all'
+                        ? 'Permanently delete everything in Trash? This cannot be undone.'
+                        : `Permanently delete "${purging.label}"? This cannot be undone.`}
+                    confirmLabel="Delete forever"
+                    onConfirm={handlePurge}
+                    onCancel={() => setPurging(null)}
+                />
+            )}
+        </motion.div>
+    );
+};
@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Trash2 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import clsx from 'clsx';
+import { WeightChart } from '../components/WeightChart';
+import { TdeeCard } from '../components/TdeeCard';
+import { useSettings } from '../hooks/useSettings';
+import { useUndo } from '../hooks/useUndo';
+import { subscribeWeightsInRange, deleteWeight, restoreFromTrash, DEFAULT_SETTINGS, type WeightEntry } from '../lib/db';
+import { shiftDay, todayKey } from '../lib/days';
+import { formatRate, smoothWeights, weightStats, TREND_WARMUP_DAYS, WEIGHT_RANGES } from '../lib/weight-trend';
+
+const longDate = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy');
+
+const Stat = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+    <div className="bg-surface/60 border border-th-border rounded-2xl p-3">
+        <p className="text-xs text-th-muted">{label}</p>
+        <p className="text-lg font-bold text-th-primary">{value}</p>
+        {detail && <p className="text-[11px] text-th-faint">{detail}</p>}
+    </div>
+);
+
+/** Trend weight, rate and goal projection over a chosen range, the maintenance estimate, and every weigh-in in the range. */
+export const Weight = () => {
+    const navigate = useNavigate();
+    const { settings } = useSettings();
+    const { showUndo } = useUndo();
+    const dayStartHour = settings?.dayStartHour ?? DEFAULT_SETTINGS.dayStartHour;
+    const goalWeight = settings?.goalWeight ?? 0;
+    const goalDate = settings?.goalDate ?? '';
+    const today = todayKey({ dayStartHour });
+    const [rangeDays, setRangeDays] = useState<number | null>(90);
+    const [weights, setWeights] = useState<WeightEntry[]>([]);
+
+    // '' sorts before every date, so "All" is an open-ended range
+    const from = rangeDays == null ? '' : shiftDay(today, -(rangeDays - 1));
+
+    useEffect(() => {
+        const loadFrom = from && shiftDay(from, -TREND_WARMUP_DAYS);
+        return subscribeWeightsInRange(loadFrom, today, setWeights);
+    }, [from, today]);
+
+    const all = smoothWeights(weights);
+    const points = all.filter(p => p.date >= from);
+    const stats = weightStats(all, goalWeight, goalDate, today);
+    const entries = weights.filter(w => w.date >= from).sort((a, b) => b.timestamp - a.timestamp);
+    const trendByDate = Object.fromEntries(all.map(p => [p.date, p.trend]));
+
+    const handleDelete = async (entry: WeightEntry) => {
+        await deleteWeight(entry.id!);
+        showUndo('Weight moved to Trash', () => restoreFromTrash('weights', entry.id!));
+    };
+
+    const goalDetail = !stats?.toGo ? undefined
+        : stats.projected ? `At this rate: ${longDate(stats.projected)}`
+        : 'Not heading there at this rate';
+    const targetDetail = goalDate && stats?.needed != null
+        ? `By ${longDate(goalDate)} needs ${formatRate(stats.needed)}`
+        : goalDate ? `Target date ${longDate(goalDate)} has passed` : undefined;
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, x: 60 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={{ opacity: 0, x: 60 }}
+            className="max-w-md mx-auto flex flex-col h-full"
+        >
+            <div className="flex items-center gap-3 px-4 py-3 shrink-0">
+                <button
+                    onClick={() => navigate(-1)}
+                    className="w-9 h-9 rounded-xl bg-surface border border-th-border flex items-center justify-center active:scale-95 transition-transform"
+                >
+                    <ArrowLeft className="w-4 h-4 text-th-secondary" />
+                </button>
+                <h1 className="text-lg font-semibold text-th-primary flex-1">Weight</h1>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-4 pb-20 space-y-3">
+                <div className="grid grid-cols-5 gap-1 bg-surface rounded-xl p-1">
+                    {WEIGHT_RANGES.map(r => (
+                        <button
+                            key={r.label}
+                            onClick={() => setRangeDays(r.days)}
+                            className={clsx(
+                                'py-1.5 text-xs font-medium rounded-lg transition-all',
+                                rangeDays === r.days ? 'bg-surface2 text-th-primary' : 'text-th-muted'
+                            )}
+                        >
+                            {r.label}
+                        </button>
+                    ))}
+                </div>
+
+                {!stats ? (
+                    <p className="text-center text-th-faint text-sm py-8">
+                        No weigh-ins yet. Tell the chat "my weight is 74kg" to log one.
+                    </p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-2 gap-3">
+                            <Stat label="Trend weight" value={`${stats.trend} kg`} detail={`Last weigh-in ${all[all.length - 1].weight} kg`} />
+                            <Stat
+                                label="Weekly rate"
+                                value={stats.rate == null ? '—' : formatRate(stats.rate)}
+                                detail={stats.rate == null ? 'Needs about a week of weigh-ins' : 'Trend over the last 2 weeks'}
+                            />
+                            {goalWeight > 0 ? (
+                                <>
+                                    <Stat
+                                        label={`Goal ${goalWeight} kg`}
+                                        value={Math.abs(stats.toGo ?? 0) < 0.1 ? 'Reached' : `${Math.abs(stats.toGo ?? 0)} kg to go`}
+                                        detail={goalDetail}
+                                    />
+                                    <Stat label="Target date" value={goalDate ? format(new Date(`${goalDate}T00:00:00`), 'MMM d') : '—'} detail={targetDetail ?? 'None set'} />
+                                </>
+                            ) : (
+                                <button
+                                    onClick={() => navigate('/settings')}
+                                    className="col-span-2 bg-surface/60 border border-dashed border-th-border rounded-2xl p-3 text-xs text-th-secondary active:text-th-primary"
+                                >
+                                    Set a goal weight and target date in Settings → Profile to see when you'll get there.
+                                </button>
+                            )}
+                        </div>
+
+                        <div className="bg-surface/60 border border-th-border rounded-2xl p-4">
+                            {points.length > 0
+                                ? <WeightChart points={points} goalWeight={goalWeight} height={180} />
+                                : <p className="text-xs text-th-faint py-4 text-center">No weigh-ins in this range.</p>}
+                            <p className="text-[11px] text-th-faint mt-2">
+                                Dots are weigh-ins; the line is the smoothed trend, which evens out day-to-day water weight.
+                            </p>
+                        </div>
+
+                        <TdeeCard />
+
+                        {entries.length > 0 && (
+                            <div className="bg-surface/60 border border-th-border rounded-2xl divide-y divide-th-border">
+                                {entries.map(entry => (
+                                    <div key={entry.id} className="px-4 py-2.5 flex items-center gap-3 text-xs">
+                                        <span className="flex-1 text-th-secondary">{format(entry.timestamp, 'EEE, MMM d')}</span>
+                                        <span className="font-medium text-th-primary">{entry.weight} kg</span>
+                                        <span className="w-16 text-right text-th-faint">trend {trendByDate[entry.date]?.toFixed(1)}</span>
+                                        <button onClick={() => handleDelete(entry)} className="p-1 text-th-faint active:text-red-400">
+                                            <Trash2 className="w-3.5 h-3.5" />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </motion.div>
+    );
+};
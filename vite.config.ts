@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
@@ -30,4 +31,13 @@ export default defineConfig({
       }
     })
   ],
+  test: {
+    environment: 'node',
+    // IndexedDB for the guest DB, mirror and vault; placeholder Firebase config so firebase.ts can initialise offline
+    setupFiles: ['fake-indexeddb/auto'],
+    env: {
+      VITE_FIREBASE_API_KEY: 'test',
+      VITE_FIREBASE_PROJECT_ID: 'test',
+    },
+  },
 })